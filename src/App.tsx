@@ -7,6 +7,7 @@ import Index from "./pages/Index";
 import Changelog from "./pages/Changelog";
 import ChangelogRSS from "./pages/ChangelogRSS";
 import NotFound from "./pages/NotFound";
+import Benchmark from "./pages/Benchmark";
 
 const queryClient = new QueryClient();
 
@@ -20,6 +21,7 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/changelog" element={<Changelog />} />
           <Route path="/changelog/rss" element={<ChangelogRSS />} />
+          {import.meta.env.DEV && <Route path="/benchmark" element={<Benchmark />} />}
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
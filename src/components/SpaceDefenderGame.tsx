@@ -1,14 +1,21 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useGameEngine } from '@/hooks/useGameEngine';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useSound } from '@/hooks/useSound';
 import { useBackgroundMusic } from '@/hooks/useBackgroundMusic';
 import { useOrientation } from '@/hooks/useOrientation';
+import { useGamepadConnection, useGamepadActions, readGamepadInput } from '@/hooks/useGamepad';
+import { useKeyBindings, isActionKey, formatBinding, formatMovement } from '@/hooks/useKeyBindings';
 import { GameCanvas } from '@/components/game/GameCanvas';
 import { GameHUD } from '@/components/game/GameHUD';
 import { StartMenu } from '@/components/game/StartMenu';
+import { ReplayViewer } from '@/components/game/ReplayViewer';
+import { TouchControls } from '@/components/game/TouchControls';
+import { StageResults } from '@/components/game/StageResults';
 import OrientationPrompt from '@/components/game/OrientationPrompt';
-import { SaveData, Difficulty } from '@/types/game';
+import { Difficulty, Projectile, Replay, TouchControlSettings, DEFAULT_TOUCH_CONTROLS } from '@/types/game';
+import { createReplayFile } from '@/engine/replayFile';
+import { STAGES } from '@/engine/stages';
 
 const TAUNTS = [
   "It's a good day to die!",
@@ -145,9 +152,29 @@ const getCountryFlag = (countryCode: string): string => {
   return String.fromCodePoint(...codePoints);
 };
 
+// Bundle a finished run's recording with its result
+const toReplay = (recording: Pick<Replay, 'seed' | 'difficulty' | 'startLevel' | 'stage' | 'inputs'>, score: number, level: number, date: string): Replay => ({
+  ...recording,
+  id: `replay-${Date.now()}`,
+  score,
+  level,
+  date,
+});
+
+const downloadReplayFile = (replay: Replay) => {
+  const blob = new Blob([JSON.stringify(createReplayFile(replay))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `galaxy-guard-replay-${replay.score}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const SpaceDefenderGame: React.FC = () => {
   const [showStartMenu, setShowStartMenu] = useState(true);
   const [showCountrySelect, setShowCountrySelect] = useState(false);
+  const [watchingReplay, setWatchingReplay] = useState<Replay | null>(null);
   const [selectedCountry, setSelectedCountry] = useState('US');
   const [playerName, setPlayerName] = useState('');
   const [currentTaunt, setCurrentTaunt] = useState(TAUNTS[Math.floor(Math.random() * TAUNTS.length)]);
@@ -156,6 +183,10 @@ export const SpaceDefenderGame: React.FC = () => {
     const saved = localStorage.getItem('galaxy-guard-safe-area');
     return saved !== null ? JSON.parse(saved) : true;
   });
+  const [workerSimulation, setWorkerSimulation] = useState(() => {
+    const saved = localStorage.getItem('galaxy-guard-worker-sim');
+    return saved !== null ? JSON.parse(saved) : false;
+  });
   const [difficulty, setDifficulty] = useState<Difficulty>(() => {
     const saved = localStorage.getItem('galaxy-guard-difficulty');
     return (saved as Difficulty) || 'normal';
@@ -168,20 +199,159 @@ export const SpaceDefenderGame: React.FC = () => {
     const saved = localStorage.getItem('galaxy-guard-sound');
     return saved !== null ? JSON.parse(saved) : true;
   });
+  const [touchControls, setTouchControls] = useState<TouchControlSettings>(() => {
+    const saved = localStorage.getItem('galaxy-guard-touch-controls');
+    return saved !== null ? { ...DEFAULT_TOUCH_CONTROLS, ...JSON.parse(saved) } : DEFAULT_TOUCH_CONTROLS;
+  });
+  
+  const { keyBindings, setKeyBindings } = useKeyBindings();
   
   const containerRef = React.useRef<HTMLDivElement>(null);
-  const { gameState, settings, startGame, pauseGame, resetGame } = useGameEngine({ difficulty });
+  const { gameState, store, events, settings, startGame, pauseGame, resetGame, createSaveData, loadGame, getRecording, setInputSource } = useGameEngine({ difficulty, keyBindings, useWorker: workerSimulation });
   const { 
     savedGame, 
     leaderboard, 
     saveGame, 
     deleteSavedGame, 
     addToLeaderboard, 
+    loadReplay,
+    bestLevel,
+    recordLevelReached,
+    campaign,
+    recordStageCleared,
     hasSavedGame 
   } = useLocalStorage();
   const sounds = useSound();
   const music = useBackgroundMusic();
   const { isPortrait, isMobile } = useOrientation();
+  const gamepadId = useGamepadConnection();
+
+  // Feed the controller into the engine while one is plugged in
+  useEffect(() => {
+    setInputSource('gamepad', gamepadId ? readGamepadInput : null);
+  }, [gamepadId, setInputSource]);
+
+  // Start pauses/resumes, like the pause key on the keyboard
+  useGamepadActions((action) => {
+    if (action === 'start' && gameState.isPlaying && !gameState.gameOver) {
+      pauseGame();
+    }
+  }, !showStartMenu && !watchingReplay);
+
+  // Handle campaign stage start - from the menu or the results card
+  const handleStartStage = useCallback((stage: number) => {
+    setShowStartMenu(false);
+    startGame({ stage });
+    if (musicEnabled) {
+      music.startMusic();
+    }
+  }, [startGame, music, musicEnabled]);
+
+  // Stage cleared - unlock the next one and hold the run on the results card. Recording the clear changes
+  // the best scores it reads, so everything but the clear itself is read through a ref to run it just once
+  const [stagePreviousBest, setStagePreviousBest] = useState(0);
+  const clearStageRef = useRef<(index: number) => void>(() => {});
+  clearStageRef.current = (index: number) => {
+    setStagePreviousBest(campaign.bestScores[index] ?? 0);
+    recordStageCleared(index, gameState.score);
+    deleteSavedGame();
+    music.stopMusic();
+    if (soundEnabled) {
+      sounds.levelUp();
+    }
+  };
+
+  const clearedStage = gameState.stage?.complete ? gameState.stage.index : null;
+  useEffect(() => {
+    if (clearedStage !== null) {
+      clearStageRef.current(clearedStage);
+    }
+  }, [clearedStage]);
+
+  // Sound effects for what the engine reports happening. `sounds` is a new object every render around the
+  // same functions, so it's read through a ref rather than resubscribing each time
+  const soundsRef = useRef(sounds);
+  soundsRef.current = sounds;
+
+  useEffect(() => {
+    if (!soundEnabled) return;
+
+    const play = soundsRef.current;
+    const shotSounds: Partial<Record<Projectile['type'], () => void>> = {
+      bullet: play.shoot,
+      bomb: play.bomb,
+      spread: play.shootSpread,
+      player_laser: play.shootLaser,
+      missile: play.shootMissile,
+      charge: play.shootCharge,
+    };
+
+    const unsubscribers = [
+      events.on('shotFired', ({ weapon }) => shotSounds[weapon]?.()),
+      // The mega boss has its own boom when it goes down
+      events.on('enemyKilled', ({ enemy }) => {
+        if (enemy !== 'megaBoss') play.explosion();
+      }),
+      events.on('bossDefeated', () => play.megaBossExplosion()),
+      events.on('playerHit', () => play.hit()),
+      // A hit the shield breaks on gets the break sound rather than both
+      events.on('shieldHit', ({ pointsLeft }) => {
+        if (pointsLeft > 0) play.shieldHit();
+      }),
+      events.on('shieldBroken', () => play.shieldBreak()),
+      events.on('shieldRestored', () => play.shieldRestore()),
+      events.on('lifeLost', () => {
+        // Play both collision and explosion sound for dramatic effect
+        play.collision();
+        setTimeout(() => play.explosion(), 100);
+      }),
+      events.on('powerUpCollected', () => play.powerUp()),
+      events.on('weaponSwitched', () => play.weaponSwitch()),
+      events.on('levelUp', () => play.levelUp()),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [events, soundEnabled]);
+
+  // Track the best level reached in endless runs
+  useEffect(() => {
+    return events.on('levelUp', ({ level }) => {
+      if (store.get().mode === 'endless') {
+        recordLevelReached(level);
+      }
+    });
+  }, [events, store, recordLevelReached]);
+
+  // Auto-save a full snapshot at the moments a run might be left - pausing, losing a life, the tab going
+  // to the background or closing. A snapshot is a clone and serialisation of the whole state, too heavy
+  // to take on every point scored
+  const saveProgress = useCallback(() => {
+    const state = store.get();
+    if (state.isPlaying && !state.gameOver && !state.stage?.complete && state.score > 0) {
+      saveGame(createSaveData());
+    }
+  }, [store, saveGame, createSaveData]);
+
+  useEffect(() => {
+    if (gameState.isPaused) {
+      saveProgress();
+    }
+  }, [gameState.isPaused, saveProgress]);
+
+  useEffect(() => {
+    return events.on('lifeLost', saveProgress);
+  }, [events, saveProgress]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) saveProgress();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', saveProgress);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', saveProgress);
+    };
+  }, [saveProgress]);
 
   // Show orientation prompt for mobile users in portrait mode
   if (isPortrait && isMobile) {
@@ -208,9 +378,9 @@ export const SpaceDefenderGame: React.FC = () => {
   }, [settings.width, settings.height]);
 
   // Handle game start
-  const handleStartGame = useCallback(() => {
+  const handleStartGame = useCallback((startLevel: number) => {
     setShowStartMenu(false);
-    startGame();
+    startGame({ startLevel });
     if (musicEnabled) {
       music.startMusic();
     }
@@ -238,14 +408,14 @@ export const SpaceDefenderGame: React.FC = () => {
   // Handle pause with keyboard
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
-      if ((e.code === 'KeyP' || e.code === 'Escape') && !showStartMenu) {
+      if (isActionKey(keyBindings, 'pause', e.code) && !showStartMenu) {
         pauseGame();
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [pauseGame, showStartMenu]);
+  }, [pauseGame, showStartMenu, keyBindings]);
 
   // Handle music pause/resume
   useEffect(() => {
@@ -260,46 +430,44 @@ export const SpaceDefenderGame: React.FC = () => {
     }
   }, [gameState.isPaused, gameState.isPlaying, music, musicEnabled]);
 
-  // Auto-save game progress
-  useEffect(() => {
-    if (gameState.isPlaying && gameState.score > 0) {
-      const saveData: SaveData = {
-        level: gameState.level,
-        score: gameState.score,
-        lives: gameState.lives,
-        settings,
-        timestamp: new Date().toISOString(),
-      };
-      saveGame(saveData);
-    }
-  }, [gameState.score, gameState.level, gameState.lives, gameState.isPlaying, settings]);
-
   // Handle game over
   useEffect(() => {
     if (gameState.gameOver && gameState.score > 0) {
       // Stop music
       music.stopMusic();
       
-      // Show country selection dialog
-      setShowCountrySelect(true);
+      // Show country selection dialog - only endless runs go on the leaderboard
+      if (gameState.mode === 'endless') {
+        setShowCountrySelect(true);
+      } else {
+        deleteSavedGame();
+      }
       
       // Play game over sound
       if (soundEnabled) {
         sounds.gameOver();
       }
     }
-  }, [gameState.gameOver, gameState.score, sounds, music, soundEnabled]);
+  }, [gameState.gameOver, gameState.score, gameState.mode, sounds, music, soundEnabled, deleteSavedGame]);
 
   // Submit score with country
   const handleSubmitScore = useCallback(() => {
+    const date = new Date().toISOString();
+
+    // Attach the run's replay - only available if it was played from the start
+    const recording = getRecording();
+    const replay = recording ? toReplay(recording, gameState.score, gameState.level, date) : undefined;
+
     const entry = {
       name: playerName,
       score: gameState.score,
       level: gameState.level,
-      date: new Date().toISOString(),
+      date,
       country: selectedCountry,
+      replayId: replay?.id,
+      startLevel: gameState.startLevel > 1 ? gameState.startLevel : undefined,
     };
-    addToLeaderboard(entry);
+    addToLeaderboard(entry, replay);
 
     // Clear saved game
     deleteSavedGame();
@@ -310,112 +478,68 @@ export const SpaceDefenderGame: React.FC = () => {
     // Close dialog and show menu
     setShowCountrySelect(false);
     setShowStartMenu(true);
-  }, [playerName, gameState.score, gameState.level, selectedCountry, addToLeaderboard, deleteSavedGame, resetGame]);
+  }, [playerName, gameState.score, gameState.level, gameState.startLevel, selectedCountry, getRecording, addToLeaderboard, deleteSavedGame, resetGame]);
+
+  // Watch a leaderboard run
+  const handleWatchReplay = (replayId: string) => {
+    const replay = loadReplay(replayId);
+    if (replay) {
+      setWatchingReplay(replay);
+    }
+  };
 
-  // Handle load game
+  const handleDownloadReplay = () => {
+    const recording = getRecording();
+    if (recording) {
+      downloadReplayFile(toReplay(recording, gameState.score, gameState.level, new Date().toISOString()));
+    }
+  };
+
+  // Handle load game - resume the saved snapshot with the difficulty it was played on
   const handleLoadGame = useCallback(() => {
     if (savedGame) {
-      // In a real implementation, we'd restore the full game state
-      // For now, just start a new game
+      if (savedGame.difficulty) {
+        setDifficulty(savedGame.difficulty);
+      }
       setShowStartMenu(false);
-      startGame();
+      loadGame(savedGame);
       if (musicEnabled) {
         music.startMusic();
       }
     }
-  }, [savedGame, startGame, music, musicEnabled]);
+  }, [savedGame, loadGame, music, musicEnabled]);
 
-  // Sound effects based on game state changes
-  const [prevRockets, setPrevRockets] = useState(gameState.rockets.length);
-  const [prevProjectiles, setPrevProjectiles] = useState(gameState.projectiles.length);
-  const [prevExplosions, setPrevExplosions] = useState(gameState.explosions.length);
-  const [prevHealth, setPrevHealth] = useState(gameState.spaceship.health);
-  const [prevLives, setPrevLives] = useState(gameState.lives);
-  const [prevActivePowerUps, setPrevActivePowerUps] = useState(gameState.activePowerUps.length);
-  const [prevLevel, setPrevLevel] = useState(gameState.level);
-
-  useEffect(() => {
-    // Play shoot sound when projectiles are added
-    if (soundEnabled && gameState.projectiles.length > prevProjectiles) {
-      const newProjectile = gameState.projectiles[gameState.projectiles.length - 1];
-      if (newProjectile.type === 'bullet') {
-        sounds.shoot();
-      } else if (newProjectile.type === 'bomb') {
-        sounds.bomb();
-      } else if (newProjectile.type === 'spread') {
-        sounds.shootSpread();
-      } else if (newProjectile.type === 'player_laser') {
-        sounds.shootLaser();
-      } else if (newProjectile.type === 'missile') {
-        sounds.shootMissile();
-      }
-    }
-    setPrevProjectiles(gameState.projectiles.length);
-  }, [gameState.projectiles.length, prevProjectiles, sounds, soundEnabled]);
-
-  useEffect(() => {
-    // Play explosion sound when explosions are added
-    if (soundEnabled && gameState.explosions.length > prevExplosions) {
-      // Check if it's a mega boss explosion
-      const latestExplosion = gameState.explosions[gameState.explosions.length - 1];
-      if (latestExplosion?.isMegaExplosion) {
-        // Only play the mega boom sound once for the first mega explosion
-        const megaExplosionsCount = gameState.explosions.filter(e => e.isMegaExplosion).length;
-        if (megaExplosionsCount === 1) {
-          sounds.megaBossExplosion();
-        }
-      } else {
-        sounds.explosion();
-      }
-    }
-    setPrevExplosions(gameState.explosions.length);
-  }, [gameState.explosions, prevExplosions, sounds, soundEnabled]);
-
-  useEffect(() => {
-    // Play hit sound when ship takes damage
-    if (soundEnabled && gameState.spaceship.health < prevHealth) {
-      sounds.hit();
-    }
-    setPrevHealth(gameState.spaceship.health);
-  }, [gameState.spaceship.health, prevHealth, sounds, soundEnabled]);
-
-  useEffect(() => {
-    // Play crash sound when ship loses a life (dies and respawns)
-    if (soundEnabled && gameState.lives < prevLives) {
-      // Play both collision and explosion sound for dramatic effect
-      sounds.collision();
-      setTimeout(() => sounds.explosion(), 100);
-    }
-    setPrevLives(gameState.lives);
-  }, [gameState.lives, prevLives, sounds, soundEnabled]);
-
-  useEffect(() => {
-    // Play power-up sound when collecting a power-up
-    if (soundEnabled && gameState.activePowerUps.length > prevActivePowerUps) {
-      sounds.powerUp();
-    }
-    setPrevActivePowerUps(gameState.activePowerUps.length);
-  }, [gameState.activePowerUps.length, prevActivePowerUps, sounds, soundEnabled]);
-
-  useEffect(() => {
-    // Play level up sound when advancing to a new level
-    if (soundEnabled && gameState.level > prevLevel && prevLevel > 0) {
-      sounds.levelUp();
-    }
-    setPrevLevel(gameState.level);
-  }, [gameState.level, prevLevel, sounds, soundEnabled]);
+  if (watchingReplay) {
+    return (
+      <ReplayViewer
+        replay={watchingReplay}
+        settings={settings}
+        onExit={() => setWatchingReplay(null)}
+      />
+    );
+  }
 
   if (showStartMenu) {
     return (
       <StartMenu 
         onStartGame={handleStartGame}
+        onStartStage={handleStartStage}
         onLoadGame={handleLoadGame}
+        onWatchReplay={handleWatchReplay}
+        onOpenReplay={setWatchingReplay}
         hasSavedGame={hasSavedGame}
+        bestLevel={bestLevel}
+        campaign={campaign}
         safeAreaEnabled={safeAreaEnabled}
         onSafeAreaToggle={(enabled) => {
           setSafeAreaEnabled(enabled);
           localStorage.setItem('galaxy-guard-safe-area', JSON.stringify(enabled));
         }}
+        workerSimulation={workerSimulation}
+        onWorkerSimulationToggle={(enabled) => {
+          setWorkerSimulation(enabled);
+          localStorage.setItem('galaxy-guard-worker-sim', JSON.stringify(enabled));
+        }}
         difficulty={difficulty}
         onDifficultyChange={(diff) => {
           setDifficulty(diff);
@@ -431,6 +555,13 @@ export const SpaceDefenderGame: React.FC = () => {
           setSoundEnabled(enabled);
           localStorage.setItem('galaxy-guard-sound', JSON.stringify(enabled));
         }}
+        touchControls={isMobile ? touchControls : undefined}
+        onTouchControlsChange={(controls) => {
+          setTouchControls(controls);
+          localStorage.setItem('galaxy-guard-touch-controls', JSON.stringify(controls));
+        }}
+        keyBindings={keyBindings}
+        onKeyBindingsChange={setKeyBindings}
       />
     );
   }
@@ -511,7 +642,15 @@ export const SpaceDefenderGame: React.FC = () => {
             </div>
           </div>
           
-          <div className="text-center">
+          <div className="text-center flex flex-wrap justify-center gap-4">
+            {getRecording() && (
+              <button
+                onClick={handleDownloadReplay}
+                className="arcade-button text-xl px-8 py-4 border-3 border-neon-cyan text-neon-cyan hover:bg-neon-cyan hover:text-black"
+              >
+                DOWNLOAD REPLAY
+              </button>
+            )}
             <button
               onClick={handleSubmitScore}
               disabled={!playerName.trim()}
@@ -551,7 +690,7 @@ export const SpaceDefenderGame: React.FC = () => {
       
       {/* Game Canvas - fills available space */}
       <div ref={containerRef} className="flex-1 flex items-center justify-center w-full h-full p-0">
-        <GameCanvas gameState={gameState} settings={settings} />
+        <GameCanvas store={store} settings={settings} />
       </div>
 
       {/* Game HUD Overlay */}
@@ -562,16 +701,40 @@ export const SpaceDefenderGame: React.FC = () => {
         onRestart={handleRestart}
         gameAreaDimensions={gameAreaDimensions}
         safeAreaEnabled={safeAreaEnabled}
+        gamepadConnected={gamepadId !== null}
       />
       
+      {/* Stage results - campaign runs stop here once the end boss is down */}
+      {gameState.stage?.complete && (
+        <StageResults
+          gameState={gameState}
+          previousBest={stagePreviousBest}
+          onNextStage={STAGES[gameState.stage.index + 1] ? () => handleStartStage(gameState.stage!.index + 1) : undefined}
+          onRetry={() => handleStartStage(gameState.stage!.index)}
+          onMenu={handleRestart}
+          onDownloadReplay={getRecording() ? handleDownloadReplay : undefined}
+        />
+      )}
+      
+      {/* Touch Controls - only on touch devices while actually flying */}
+      {isMobile && gameState.isPlaying && !gameState.isPaused && !gameState.gameOver && !gameState.stage?.complete && (
+        <TouchControls
+          settings={touchControls}
+          safeAreaEnabled={safeAreaEnabled}
+          setInputSource={setInputSource}
+        />
+      )}
+
       {/* Controls Help Footer - smaller on mobile */}
       <div className="absolute bottom-2 sm:bottom-4 left-1/2 transform -translate-x-1/2 z-10 px-2">
         <div className="hud-panel text-[10px] sm:text-xs px-3 sm:px-6 py-1 sm:py-2">
           <div className="pixel-text text-muted-foreground hidden sm:block">
-            ARROWS/WASD: Move | SPACE: Shoot | B: Bomb | P/ESC: Pause
+            {gamepadId
+              ? 'STICK/D-PAD: Move | A/RT: Shoot (hold to charge) | B/LT: Bomb | Y/RB: Weapon | START: Pause'
+              : `${formatMovement(keyBindings)}: Move | ${formatBinding(keyBindings, 'fire')}: Shoot (hold to charge) | ${formatBinding(keyBindings, 'bomb')}: Bomb | ${formatBinding(keyBindings, 'cycleWeapon')}: Weapon | ${formatBinding(keyBindings, 'pause')}: Pause`}
           </div>
           <div className="pixel-text text-muted-foreground sm:hidden text-center">
-            ARROWS: Move | SPACE: Shoot | B: Bomb
+            {`${formatMovement(keyBindings)}: Move | ${formatBinding(keyBindings, 'fire')}: Shoot (hold to charge) | ${formatBinding(keyBindings, 'bomb')}: Bomb | ${formatBinding(keyBindings, 'cycleWeapon')}: Weapon`}
           </div>
         </div>
       </div>
@@ -580,7 +743,7 @@ export const SpaceDefenderGame: React.FC = () => {
       {process.env.NODE_ENV === 'development' && (
         <div className="absolute bottom-16 left-4 text-xs text-muted-foreground bg-black bg-opacity-50 p-2 rounded hidden sm:block">
           <div>Rockets: {gameState.rockets.length}</div>
-          <div>Projectiles: {gameState.projectiles.length}</div>
+          <div>Projectiles: {gameState.projectiles.items.length}</div>
           <div>Explosions: {gameState.explosions.length}</div>
           <div>Spaceship Health: {gameState.spaceship.health}</div>
         </div>
@@ -1,8 +1,18 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { GameState, GameSettings, TerrainPoint } from '@/types/game';
+import { ENEMIES, ENEMY_KINDS, ENEMY_COLLECTIONS, EnemyKind, EnemyTypes } from '@/engine/enemies';
+import { BOSS_SCRIPTS } from '@/engine/bosses';
+import { ENEMY_RENDERERS, drawEnemyHealthBar } from './enemyRenderers';
+import { drawBossParts } from './bossRenderer';
+import { TERRAIN_THEMES } from './terrainThemes';
+import { STAGES } from '@/engine/stages';
+import { cameraView, toScreenX, worldToScreen } from '@/engine/camera';
+import { GameStore } from '@/engine/store';
+import { FOREGROUND_DEPTH } from '@/engine/terrain';
 
+// Draws from the store rather than from props, so the canvas keeps up with the game loop without React re-rendering
 interface GameCanvasProps {
-  gameState: GameState;
+  store: GameStore;
   settings: GameSettings;
 }
 
@@ -15,7 +25,7 @@ interface Star {
   alpha: number;
 }
 
-export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, settings }) => {
+export const GameCanvas: React.FC<GameCanvasProps> = ({ store, settings }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const shipImageRef = useRef<HTMLImageElement | null>(null);
@@ -112,1354 +122,1071 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({ gameState, settings }) =
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Calculate uniform scale to preserve aspect ratio (letterboxing)
-    const scale = Math.min(canvasSize.width / settings.width, canvasSize.height / settings.height);
-    const offsetX = Math.floor((canvasSize.width - settings.width * scale) / 2);
-    const offsetY = Math.floor((canvasSize.height - settings.height * scale) / 2);
+    // Redrawn on every change to the store - each frame while the game loop runs
+    const draw = (gameState: GameState) => {
+      // Calculate uniform scale to preserve aspect ratio (letterboxing)
+      const scale = Math.min(canvasSize.width / settings.width, canvasSize.height / settings.height);
+      const offsetX = Math.floor((canvasSize.width - settings.width * scale) / 2);
+      const offsetY = Math.floor((canvasSize.height - settings.height * scale) / 2);
     
-    // Calculate screen shake offset
-    let shakeOffsetX = 0;
-    let shakeOffsetY = 0;
+      // Shake and zoom come from the camera, as does every world-to-screen conversion below
+      const { camera } = gameState;
+      const view = cameraView(camera, gameState.time, settings);
     
-    if (gameState.screenShake) {
-      const shake = gameState.screenShake;
-      const elapsed = Date.now() - shake.startTime;
-      
-      if (elapsed <= shake.duration) {
-        const progress = elapsed / shake.duration;
-        const decay = 1 - progress; // Linear decay
-        const currentIntensity = shake.intensity * decay;
-        
-        // Use sine waves with different frequencies for smooth, natural shake
-        shakeOffsetX = Math.sin(elapsed * 0.03) * currentIntensity * 15;
-        shakeOffsetY = Math.cos(elapsed * 0.04) * currentIntensity * 10;
-      }
-    }
-    
-    // Calculate screen zoom effect
-    let zoomScale = 1;
-    let zoomCenterX = settings.width / 2;
-    let zoomCenterY = settings.height / 2;
-    
-    if (gameState.screenZoom) {
-      const zoom = gameState.screenZoom;
-      const elapsed = Date.now() - zoom.startTime;
-      
-      if (elapsed <= zoom.duration) {
-        // Ease-out curve for smooth zoom in, then quick zoom out
-        const progress = elapsed / zoom.duration;
-        const easeOut = 1 - Math.pow(1 - progress, 3); // Cubic ease-out for zoom-in
-        const easeBack = progress < 0.3 
-          ? easeOut  // Zoom in for first 30%
-          : 1 - ((progress - 0.3) / 0.7); // Zoom out for remaining 70%
-        
-        zoomScale = 1 + (zoom.scale - 1) * Math.max(0, easeBack);
-        zoomCenterX = zoom.centerX;
-        zoomCenterY = zoom.centerY;
-      }
-    }
+      // Campaign stages bring their own terrain palette
+      const palette = TERRAIN_THEMES[gameState.stage ? STAGES[gameState.stage.index].theme : 'nebula'];
     
-    // Reset any existing transforms, clear and paint full canvas background (including letterbox areas)
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.fillStyle = '#000003';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+      // Reset any existing transforms, clear and paint full canvas background (including letterbox areas)
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = palette.sky;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
     
-    // Save context state and apply world transform with shake and zoom
-    ctx.save();
+      // Save context state and apply world transform with shake and zoom
+      ctx.save();
     
-    // Apply combined transform: first translate to center, then scale, then translate back, then apply shake
-    const finalScale = scale * zoomScale;
-    const zoomOffsetX = (1 - zoomScale) * zoomCenterX * scale;
-    const zoomOffsetY = (1 - zoomScale) * zoomCenterY * scale;
+      // Apply combined transform: first translate to center, then scale, then translate back, then apply shake
+      const finalScale = scale * view.zoom;
+      const zoomOffsetX = (1 - view.zoom) * view.zoomCenter.x * scale;
+      const zoomOffsetY = (1 - view.zoom) * view.zoomCenter.y * scale;
     
-    ctx.setTransform(
-      finalScale, 0, 0, finalScale, 
-      offsetX + shakeOffsetX + zoomOffsetX, 
-      offsetY + shakeOffsetY + zoomOffsetY
-    );
-
-    // Fill game world background
-    ctx.fillStyle = '#000003';
-    ctx.fillRect(0, 0, settings.width, settings.height);
+      ctx.setTransform(
+        finalScale, 0, 0, finalScale, 
+        offsetX + view.shake.x + zoomOffsetX, 
+        offsetY + view.shake.y + zoomOffsetY
+      );
 
-    // Draw randomly moving stars
-    stars.forEach(star => {
-      // Update star position
-      star.x += star.vx;
-      star.y += star.vy;
-      
-      // Wrap around edges
-      if (star.x < 0) star.x = settings.width;
-      if (star.x > settings.width) star.x = 0;
-      if (star.y < 0) star.y = settings.height;
-      if (star.y > settings.height) star.y = 0;
-      
-      // Draw star
-      ctx.globalAlpha = star.alpha;
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(star.x, star.y, star.size, star.size);
-    });
-    ctx.globalAlpha = 1;
+      // Fill game world background
+      ctx.fillStyle = palette.sky;
+      ctx.fillRect(0, 0, settings.width, settings.height);
 
-    // Draw multi-layer terrain with parallax
-    const drawTerrainLayer = (
-      terrain: TerrainPoint[], 
-      scrollMultiplier: number, 
-      color: string | CanvasGradient, 
-      strokeColor: string,
-      alpha: number = 1
-    ) => {
-      if (!terrain || terrain.length === 0) return;
-      
-      const parallaxOffset = gameState.scrollOffset * scrollMultiplier;
-      
-      // Filter terrain points that are visible on screen with wider buffer
-      const visibleTerrain = terrain.filter(point => {
-        const screenX = point.x - parallaxOffset;
-        return screenX >= -400 && screenX <= settings.width + 400;
+      // Draw randomly moving stars
+      stars.forEach(star => {
+        // Update star position
+        star.x += star.vx;
+        star.y += star.vy;
+      
+        // Wrap around edges
+        if (star.x < 0) star.x = settings.width;
+        if (star.x > settings.width) star.x = 0;
+        if (star.y < 0) star.y = settings.height;
+        if (star.y > settings.height) star.y = 0;
+      
+        // Draw star
+        ctx.globalAlpha = star.alpha;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(star.x, star.y, star.size, star.size);
       });
+      ctx.globalAlpha = 1;
+
+      // Draw multi-layer terrain with parallax
+      const drawTerrainLayer = (
+        terrain: TerrainPoint[], 
+        scrollMultiplier: number, 
+        color: string | CanvasGradient, 
+        strokeColor: string,
+        alpha: number = 1
+      ) => {
+        if (!terrain || terrain.length === 0) return;
+      
+        // Filter terrain points that are visible on screen with wider buffer
+        const visibleTerrain = terrain.filter(point => {
+          const screenX = toScreenX(camera, point.x, scrollMultiplier);
+          return screenX >= -400 && screenX <= settings.width + 400;
+        });
+      
+        // If no visible terrain, still draw a fallback to prevent blinking
+        if (visibleTerrain.length === 0) {
+          ctx.save();
+          ctx.globalAlpha = alpha;
+          ctx.fillStyle = color;
+          ctx.fillRect(0, settings.height * 0.8, settings.width, settings.height * 0.2);
+          ctx.restore();
+          return;
+        }
       
-      // If no visible terrain, still draw a fallback to prevent blinking
-      if (visibleTerrain.length === 0) {
         ctx.save();
         ctx.globalAlpha = alpha;
-        ctx.fillStyle = color;
-        ctx.fillRect(0, settings.height * 0.8, settings.width, settings.height * 0.2);
-        ctx.restore();
-        return;
-      }
       
-      ctx.save();
-      ctx.globalAlpha = alpha;
+        ctx.beginPath();
       
-      ctx.beginPath();
+        // Ensure we start from the left edge of screen
+        const firstPoint = visibleTerrain[0];
+        const firstScreenX = toScreenX(camera, firstPoint.x, scrollMultiplier);
       
-      // Ensure we start from the left edge of screen
-      const firstPoint = visibleTerrain[0];
-      const firstScreenX = firstPoint.x - parallaxOffset;
+        if (firstScreenX > 0) {
+          // Extend line from left edge to first point
+          ctx.moveTo(0, firstPoint.y);
+          ctx.lineTo(firstScreenX, firstPoint.y);
+        } else {
+          ctx.moveTo(firstScreenX, firstPoint.y);
+        }
       
-      if (firstScreenX > 0) {
-        // Extend line from left edge to first point
-        ctx.moveTo(0, firstPoint.y);
-        ctx.lineTo(firstScreenX, firstPoint.y);
-      } else {
-        ctx.moveTo(firstScreenX, firstPoint.y);
-      }
+        // Draw the terrain line
+        for (let i = 1; i < visibleTerrain.length; i++) {
+          const x = toScreenX(camera, visibleTerrain[i].x, scrollMultiplier);
+          ctx.lineTo(x, visibleTerrain[i].y);
+        }
       
-      // Draw the terrain line
-      for (let i = 1; i < visibleTerrain.length; i++) {
-        const x = visibleTerrain[i].x - parallaxOffset;
-        ctx.lineTo(x, visibleTerrain[i].y);
-      }
+        // Extend to right edge if needed
+        const lastPoint = visibleTerrain[visibleTerrain.length - 1];
+        const lastScreenX = toScreenX(camera, lastPoint.x, scrollMultiplier);
+        if (lastScreenX < settings.width) {
+          ctx.lineTo(settings.width, lastPoint.y);
+        }
       
-      // Extend to right edge if needed
-      const lastPoint = visibleTerrain[visibleTerrain.length - 1];
-      const lastScreenX = lastPoint.x - parallaxOffset;
-      if (lastScreenX < settings.width) {
-        ctx.lineTo(settings.width, lastPoint.y);
-      }
+        // Complete the shape to bottom
+        ctx.lineTo(settings.width, settings.height);
+        ctx.lineTo(0, settings.height);
+        ctx.closePath();
       
-      // Complete the shape to bottom
-      ctx.lineTo(settings.width, settings.height);
-      ctx.lineTo(0, settings.height);
-      ctx.closePath();
-      
-      // Fill
-      ctx.fillStyle = color;
-      ctx.fill();
-      
-      // Stroke the terrain line only
-      ctx.beginPath();
-      if (firstScreenX > 0) {
-        ctx.moveTo(0, firstPoint.y);
-        ctx.lineTo(firstScreenX, firstPoint.y);
-      } else {
-        ctx.moveTo(firstScreenX, firstPoint.y);
-      }
+        // Fill
+        ctx.fillStyle = color;
+        ctx.fill();
       
-      for (let i = 1; i < visibleTerrain.length; i++) {
-        const x = visibleTerrain[i].x - parallaxOffset;
-        ctx.lineTo(x, visibleTerrain[i].y);
-      }
+        // Stroke the terrain line only
+        ctx.beginPath();
+        if (firstScreenX > 0) {
+          ctx.moveTo(0, firstPoint.y);
+          ctx.lineTo(firstScreenX, firstPoint.y);
+        } else {
+          ctx.moveTo(firstScreenX, firstPoint.y);
+        }
       
-      if (lastScreenX < settings.width) {
-        ctx.lineTo(settings.width, lastPoint.y);
-      }
+        for (let i = 1; i < visibleTerrain.length; i++) {
+          const x = toScreenX(camera, visibleTerrain[i].x, scrollMultiplier);
+          ctx.lineTo(x, visibleTerrain[i].y);
+        }
       
-      ctx.strokeStyle = strokeColor;
-      ctx.lineWidth = 1;
-      ctx.stroke();
+        if (lastScreenX < settings.width) {
+          ctx.lineTo(settings.width, lastPoint.y);
+        }
       
-      ctx.restore();
-    };
+        ctx.strokeStyle = strokeColor;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      
+        ctx.restore();
+      };
     
-    // Draw background terrain (super slow parallax for distant mountains)
-    const bgGradient = ctx.createLinearGradient(0, 250, 0, settings.height);
-    bgGradient.addColorStop(0, '#1a1a2e');
-    bgGradient.addColorStop(1, '#16213e');
-    drawTerrainLayer(gameState.terrain.background, 0.1, bgGradient, '#3a3a5c', 0.6);
+      // Draw background terrain (super slow parallax for distant mountains)
+      const bgGradient = ctx.createLinearGradient(0, 250, 0, settings.height);
+      bgGradient.addColorStop(0, palette.background.top);
+      bgGradient.addColorStop(1, palette.background.bottom);
+      drawTerrainLayer(gameState.terrain.background, 0.1, bgGradient, palette.background.stroke, 0.6);
     
-    // Draw middle terrain (slow parallax)
-    const midGradient = ctx.createLinearGradient(0, 400, 0, settings.height);
-    midGradient.addColorStop(0, '#2d2d44');
-    midGradient.addColorStop(1, '#1a1a2e');
-    drawTerrainLayer(gameState.terrain.middle, 0.7, midGradient, '#4a4a6a', 1.0);
+      // Draw middle terrain (slow parallax)
+      const midGradient = ctx.createLinearGradient(0, 400, 0, settings.height);
+      midGradient.addColorStop(0, palette.middle.top);
+      midGradient.addColorStop(1, palette.middle.bottom);
+      drawTerrainLayer(gameState.terrain.middle, 0.7, midGradient, palette.middle.stroke, 1.0);
     
-    // Draw foreground terrain (fastest parallax)
-    const fgGradient = ctx.createLinearGradient(0, 500, 0, settings.height);
-    fgGradient.addColorStop(0, '#0f0f1a');
-    fgGradient.addColorStop(1, '#000000');
-    drawTerrainLayer(gameState.terrain.foreground, 1.2, fgGradient, '#2a2a3a', 0.8);
+      // Draw foreground terrain (fastest parallax)
+      const fgGradient = ctx.createLinearGradient(0, 500, 0, settings.height);
+      fgGradient.addColorStop(0, palette.foreground.top);
+      fgGradient.addColorStop(1, palette.foreground.bottom);
+      drawTerrainLayer(gameState.terrain.foreground, FOREGROUND_DEPTH, fgGradient, palette.foreground.stroke, 0.8);
     
-    // Draw flames along foreground terrain
-    const parallaxOffset = gameState.scrollOffset * 1.2;
-    const visibleForeground = gameState.terrain.foreground.filter(point => {
-      const screenX = point.x - parallaxOffset;
-      return screenX >= -50 && screenX <= settings.width + 50;
-    });
+      // Draw flames along foreground terrain
+      const visibleForeground = gameState.terrain.foreground.filter(point => {
+        const screenX = toScreenX(camera, point.x, FOREGROUND_DEPTH);
+        return screenX >= -50 && screenX <= settings.width + 50;
+      });
     
-    // Draw flames at intervals along the terrain (heavily capped for performance)
-    const time = Date.now() * 0.005; // For animation
-    const MAX_FLAMES = 60; // Reduced from 120 for better performance
-    const step = Math.max(5, Math.ceil(visibleForeground.length / MAX_FLAMES));
+      // Draw flames at intervals along the terrain (heavily capped for performance)
+      const time = Date.now() * 0.005; // For animation
+      const MAX_FLAMES = 60; // Reduced from 120 for better performance
+      const step = Math.max(5, Math.ceil(visibleForeground.length / MAX_FLAMES));
     
-    for (let i = 0; i < visibleForeground.length; i += step) {
-      const point = visibleForeground[i];
-      const screenX = point.x - parallaxOffset;
-      
-      // Randomly vary flame appearance (use position as seed for consistency)
-      const seed = Math.sin(point.x * 0.1);
-      if (seed < 0.3) continue; // Skip some positions for variety
-      
-      // Determine flame size based on seed
-      const sizeVariant = Math.abs(Math.sin(point.x * 0.05));
-      let flameHeight;
-      if (sizeVariant < 0.33) {
-        flameHeight = 8 + Math.sin(time + point.x * 0.1) * 2; // Small
-      } else if (sizeVariant < 0.66) {
-        flameHeight = 15 + Math.sin(time + point.x * 0.1) * 3; // Medium
-      } else {
-        flameHeight = 25 + Math.sin(time + point.x * 0.1) * 5; // Tall
-      }
-      
-      const flameWidth = flameHeight * 0.4;
-      const flameY = point.y - flameHeight;
+      for (let i = 0; i < visibleForeground.length; i += step) {
+        const point = visibleForeground[i];
+        const screenX = toScreenX(camera, point.x, FOREGROUND_DEPTH);
+      
+        // Randomly vary flame appearance (use position as seed for consistency)
+        const seed = Math.sin(point.x * 0.1);
+        if (seed < 0.3) continue; // Skip some positions for variety
+      
+        // Determine flame size based on seed
+        const sizeVariant = Math.abs(Math.sin(point.x * 0.05));
+        let flameHeight;
+        if (sizeVariant < 0.33) {
+          flameHeight = 8 + Math.sin(time + point.x * 0.1) * 2; // Small
+        } else if (sizeVariant < 0.66) {
+          flameHeight = 15 + Math.sin(time + point.x * 0.1) * 3; // Medium
+        } else {
+          flameHeight = 25 + Math.sin(time + point.x * 0.1) * 5; // Tall
+        }
       
-      // Simplified flame rendering for better performance
-      ctx.fillStyle = sizeVariant < 0.33 ? '#ff6600' : sizeVariant < 0.66 ? '#ff8800' : '#ffaa00';
+        const flameWidth = flameHeight * 0.4;
+        const flameY = point.y - flameHeight;
       
-      // Simple triangle flame
-      ctx.beginPath();
-      ctx.moveTo(screenX, point.y);
-      ctx.lineTo(screenX - flameWidth / 2, flameY + flameHeight * 0.3);
-      ctx.lineTo(screenX, flameY);
-      ctx.lineTo(screenX + flameWidth / 2, flameY + flameHeight * 0.3);
-      ctx.closePath();
-      ctx.fill();
+        // Simplified flame rendering for better performance
+        ctx.fillStyle = palette.flames[sizeVariant < 0.33 ? 0 : sizeVariant < 0.66 ? 1 : 2];
       
-      // Bright tip
-      if (sizeVariant > 0.5) {
-        ctx.fillStyle = '#ffff00';
+        // Simple triangle flame
         ctx.beginPath();
-        ctx.arc(screenX, flameY + flameHeight * 0.2, 2, 0, Math.PI * 2);
+        ctx.moveTo(screenX, point.y);
+        ctx.lineTo(screenX - flameWidth / 2, flameY + flameHeight * 0.3);
+        ctx.lineTo(screenX, flameY);
+        ctx.lineTo(screenX + flameWidth / 2, flameY + flameHeight * 0.3);
+        ctx.closePath();
         ctx.fill();
+      
+        // Bright tip
+        if (sizeVariant > 0.5) {
+          ctx.fillStyle = palette.flameTip;
+          ctx.beginPath();
+          ctx.arc(screenX, flameY + flameHeight * 0.2, 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
       }
-    }
     
-    // Draw big obstacle trees from game state
-    gameState.trees.forEach(tree => {
-      const screenX = tree.x - gameState.scrollOffset;
-      
-      // Only draw if visible
-      if (screenX >= -50 && screenX <= settings.width + 50) {
-        // Dynamically get terrain Y at tree position to fix floating trees
-        const nearestTerrainPoint = gameState.terrain.foreground.find(p => Math.abs(p.x - tree.x) < 10);
-        const treeY = nearestTerrainPoint ? nearestTerrainPoint.y - 60 : tree.y;
+      // Draw big obstacle trees from game state
+      gameState.trees.forEach(tree => {
+        const screenX = toScreenX(camera, tree.x);
+      
+        // Only draw if visible
+        if (screenX >= -50 && screenX <= settings.width + 50) {
+          // Dynamically get terrain Y at tree position to fix floating trees
+          const nearestTerrainPoint = gameState.terrain.foreground.find(p => Math.abs(p.x - tree.x) < 10);
+          const treeY = nearestTerrainPoint ? nearestTerrainPoint.y - 60 : tree.y;
         
-        const trunkWidth = tree.width * 0.3;
-        const trunkHeight = tree.height * 0.7;
+          const trunkWidth = tree.width * 0.3;
+          const trunkHeight = tree.height * 0.7;
         
-        // Tree trunk (thick)
-        ctx.fillStyle = '#5a3a2a';
-        ctx.fillRect(screenX - trunkWidth / 2, treeY + tree.height - trunkHeight, trunkWidth, trunkHeight);
+          // Tree trunk (thick)
+          ctx.fillStyle = '#5a3a2a';
+          ctx.fillRect(screenX - trunkWidth / 2, treeY + tree.height - trunkHeight, trunkWidth, trunkHeight);
         
-        // Tree foliage - large triangle
-        ctx.fillStyle = '#2a5a2a';
-        ctx.beginPath();
-        ctx.moveTo(screenX, treeY);
-        ctx.lineTo(screenX - tree.width / 2, treeY + tree.height - trunkHeight + 20);
-        ctx.lineTo(screenX + tree.width / 2, treeY + tree.height - trunkHeight + 20);
-        ctx.closePath();
-        ctx.fill();
+          // Tree foliage - large triangle
+          ctx.fillStyle = '#2a5a2a';
+          ctx.beginPath();
+          ctx.moveTo(screenX, treeY);
+          ctx.lineTo(screenX - tree.width / 2, treeY + tree.height - trunkHeight + 20);
+          ctx.lineTo(screenX + tree.width / 2, treeY + tree.height - trunkHeight + 20);
+          ctx.closePath();
+          ctx.fill();
         
-        // Second foliage layer
-        ctx.fillStyle = '#1a4a1a';
-        ctx.beginPath();
-        ctx.moveTo(screenX, treeY + 15);
-        ctx.lineTo(screenX - tree.width / 2.5, treeY + tree.height - trunkHeight + 10);
-        ctx.lineTo(screenX + tree.width / 2.5, treeY + tree.height - trunkHeight + 10);
-        ctx.closePath();
-        ctx.fill();
+          // Second foliage layer
+          ctx.fillStyle = '#1a4a1a';
+          ctx.beginPath();
+          ctx.moveTo(screenX, treeY + 15);
+          ctx.lineTo(screenX - tree.width / 2.5, treeY + tree.height - trunkHeight + 10);
+          ctx.lineTo(screenX + tree.width / 2.5, treeY + tree.height - trunkHeight + 10);
+          ctx.closePath();
+          ctx.fill();
         
-        // Third foliage layer (top)
-        ctx.fillStyle = '#2a5a2a';
-        ctx.beginPath();
-        ctx.moveTo(screenX, treeY + 5);
-        ctx.lineTo(screenX - tree.width / 3.5, treeY + tree.height - trunkHeight);
-        ctx.lineTo(screenX + tree.width / 3.5, treeY + tree.height - trunkHeight);
-        ctx.closePath();
-        ctx.fill();
-      }
-    });
+          // Third foliage layer (top)
+          ctx.fillStyle = '#2a5a2a';
+          ctx.beginPath();
+          ctx.moveTo(screenX, treeY + 5);
+          ctx.lineTo(screenX - tree.width / 3.5, treeY + tree.height - trunkHeight);
+          ctx.lineTo(screenX + tree.width / 3.5, treeY + tree.height - trunkHeight);
+          ctx.closePath();
+          ctx.fill();
+        }
+      });
 
-    // Draw trail particles (before spaceship)
-    gameState.trailParticles.forEach(particle => {
-      ctx.save();
-      ctx.globalAlpha = particle.alpha;
+      // Draw trail particles (before spaceship)
+      gameState.trailParticles.items.forEach(particle => {
+        const { x, y } = worldToScreen(camera, particle);
+        ctx.save();
+        ctx.globalAlpha = particle.alpha;
       
-      // Radial gradient glow for particles
-      const gradient = ctx.createRadialGradient(
-        particle.x, particle.y, 0,
-        particle.x, particle.y, particle.size * 2
-      );
-      gradient.addColorStop(0, particle.color);
-      gradient.addColorStop(0.5, particle.color + '88');
-      gradient.addColorStop(1, 'transparent');
+        // Radial gradient glow for particles
+        const gradient = ctx.createRadialGradient(
+          x, y, 0,
+          x, y, particle.size * 2
+        );
+        gradient.addColorStop(0, particle.color);
+        gradient.addColorStop(0.5, particle.color + '88');
+        gradient.addColorStop(1, 'transparent');
       
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.size * 2, 0, Math.PI * 2);
-      ctx.fill();
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, particle.size * 2, 0, Math.PI * 2);
+        ctx.fill();
       
-      // Core particle
-      ctx.fillStyle = particle.color;
-      ctx.fillRect(particle.x - particle.size / 2, particle.y - particle.size / 2, particle.size, particle.size);
+        // Core particle
+        ctx.fillStyle = particle.color;
+        ctx.fillRect(x - particle.size / 2, y - particle.size / 2, particle.size, particle.size);
       
-      ctx.restore();
-    });
+        ctx.restore();
+      });
 
-    // Draw spaceship  
-    if (gameState.spaceship.active) {
-      const { position, size } = gameState.spaceship;
-      const shipCenterX = position.x + size.x / 2;
-      const shipCenterY = position.y + size.y / 2;
-      const time = Date.now() * 0.005;
-      
-      // Draw power-up auras/glows around spaceship
-      gameState.activePowerUps.forEach(powerUp => {
-        ctx.save();
+      // Draw spaceship - gone while it's a wreck, blinking while invulnerable after a respawn
+      const { phase, invulnerableUntil } = gameState.shipStatus;
+      const blinkedOut = gameState.time < invulnerableUntil && Math.floor(gameState.time / 100) % 2 === 1;
+      if (gameState.spaceship.active && phase !== 'dead' && !blinkedOut) {
+        const { size } = gameState.spaceship;
+        const position = worldToScreen(camera, gameState.spaceship.position);
+        const shipCenterX = position.x + size.x / 2;
+        const shipCenterY = position.y + size.y / 2;
+        const time = Date.now() * 0.005;
+      
+        // Draw power-up auras/glows around spaceship
+        gameState.activePowerUps.forEach(powerUp => {
+          ctx.save();
         
-        if (powerUp.type === 'speed') {
-          // Cyan pulsing glow and motion blur
-          const pulseSize = 50 + Math.sin(time * 3) * 10;
-          ctx.globalAlpha = 0.3 + Math.sin(time * 3) * 0.1;
+          if (powerUp.type === 'speed') {
+            // Cyan pulsing glow and motion blur
+            const pulseSize = 50 + Math.sin(time * 3) * 10;
+            ctx.globalAlpha = 0.3 + Math.sin(time * 3) * 0.1;
           
-          const speedGradient = ctx.createRadialGradient(
-            shipCenterX, shipCenterY, 0,
-            shipCenterX, shipCenterY, pulseSize
-          );
-          speedGradient.addColorStop(0, '#00ffff');
-          speedGradient.addColorStop(0.5, '#0088ff');
-          speedGradient.addColorStop(1, 'transparent');
-          
-          ctx.fillStyle = speedGradient;
-          ctx.beginPath();
-          ctx.arc(shipCenterX, shipCenterY, pulseSize, 0, Math.PI * 2);
-          ctx.fill();
+            const speedGradient = ctx.createRadialGradient(
+              shipCenterX, shipCenterY, 0,
+              shipCenterX, shipCenterY, pulseSize
+            );
+            speedGradient.addColorStop(0, '#00ffff');
+            speedGradient.addColorStop(0.5, '#0088ff');
+            speedGradient.addColorStop(1, 'transparent');
           
-          // Engine boost flames (larger, bluer)
-          ctx.globalAlpha = 0.7;
-          ctx.fillStyle = '#00ddff';
-          for (let i = 0; i < 3; i++) {
-            const flameLength = 15 + Math.sin(time * 5 + i) * 8;
+            ctx.fillStyle = speedGradient;
             ctx.beginPath();
-            ctx.moveTo(position.x - 10, shipCenterY + (i - 1) * 5);
-            ctx.lineTo(position.x - 10 - flameLength, shipCenterY + (i - 1) * 3);
-            ctx.lineTo(position.x - 10, shipCenterY + (i - 1) * 3);
-            ctx.closePath();
+            ctx.arc(shipCenterX, shipCenterY, pulseSize, 0, Math.PI * 2);
             ctx.fill();
-          }
-        } else if (powerUp.type === 'fireRate') {
-          // Orange/red pulsing energy field
-          const pulseSize = 45 + Math.sin(time * 4) * 8;
-          ctx.globalAlpha = 0.25 + Math.sin(time * 4) * 0.1;
           
-          const fireGradient = ctx.createRadialGradient(
-            shipCenterX, shipCenterY, 0,
-            shipCenterX, shipCenterY, pulseSize
-          );
-          fireGradient.addColorStop(0, '#ff6600');
-          fireGradient.addColorStop(0.5, '#ff3300');
-          fireGradient.addColorStop(1, 'transparent');
+            // Engine boost flames (larger, bluer)
+            ctx.globalAlpha = 0.7;
+            ctx.fillStyle = '#00ddff';
+            for (let i = 0; i < 3; i++) {
+              const flameLength = 15 + Math.sin(time * 5 + i) * 8;
+              ctx.beginPath();
+              ctx.moveTo(position.x - 10, shipCenterY + (i - 1) * 5);
+              ctx.lineTo(position.x - 10 - flameLength, shipCenterY + (i - 1) * 3);
+              ctx.lineTo(position.x - 10, shipCenterY + (i - 1) * 3);
+              ctx.closePath();
+              ctx.fill();
+            }
+          } else if (powerUp.type === 'fireRate') {
+            // Orange/red pulsing energy field
+            const pulseSize = 45 + Math.sin(time * 4) * 8;
+            ctx.globalAlpha = 0.25 + Math.sin(time * 4) * 0.1;
           
-          ctx.fillStyle = fireGradient;
-          ctx.beginPath();
-          ctx.arc(shipCenterX, shipCenterY, pulseSize, 0, Math.PI * 2);
-          ctx.fill();
+            const fireGradient = ctx.createRadialGradient(
+              shipCenterX, shipCenterY, 0,
+              shipCenterX, shipCenterY, pulseSize
+            );
+            fireGradient.addColorStop(0, '#ff6600');
+            fireGradient.addColorStop(0.5, '#ff3300');
+            fireGradient.addColorStop(1, 'transparent');
           
-          // Weapon glow at front of ship
-          ctx.globalAlpha = 0.6 + Math.sin(time * 6) * 0.2;
-          const weaponGradient = ctx.createRadialGradient(
-            position.x + size.x, shipCenterY, 0,
-            position.x + size.x, shipCenterY, 15
-          );
-          weaponGradient.addColorStop(0, '#ffaa00');
-          weaponGradient.addColorStop(0.5, '#ff6600');
-          weaponGradient.addColorStop(1, 'transparent');
+            ctx.fillStyle = fireGradient;
+            ctx.beginPath();
+            ctx.arc(shipCenterX, shipCenterY, pulseSize, 0, Math.PI * 2);
+            ctx.fill();
           
-          ctx.fillStyle = weaponGradient;
-          ctx.beginPath();
-          ctx.arc(position.x + size.x, shipCenterY, 15, 0, Math.PI * 2);
-          ctx.fill();
+            // Weapon glow at front of ship
+            ctx.globalAlpha = 0.6 + Math.sin(time * 6) * 0.2;
+            const weaponGradient = ctx.createRadialGradient(
+              position.x + size.x, shipCenterY, 0,
+              position.x + size.x, shipCenterY, 15
+            );
+            weaponGradient.addColorStop(0, '#ffaa00');
+            weaponGradient.addColorStop(0.5, '#ff6600');
+            weaponGradient.addColorStop(1, 'transparent');
           
-          // Sparks around guns
-          for (let i = 0; i < 3; i++) {
-            const sparkAngle = time * 3 + i * Math.PI * 0.66;
-            const sparkDist = 8 + Math.sin(time * 5 + i) * 3;
-            const sparkX = position.x + size.x + Math.cos(sparkAngle) * sparkDist;
-            const sparkY = shipCenterY + Math.sin(sparkAngle) * sparkDist;
-            
-            ctx.fillStyle = '#ffff00';
+            ctx.fillStyle = weaponGradient;
             ctx.beginPath();
-            ctx.arc(sparkX, sparkY, 1.5, 0, Math.PI * 2);
+            ctx.arc(position.x + size.x, shipCenterY, 15, 0, Math.PI * 2);
             ctx.fill();
-          }
-        } else if (powerUp.type === 'shield') {
-          // Green/cyan shield bubble with hexagonal pattern
-          const shieldRadius = 35;
-          ctx.globalAlpha = 0.3 + Math.sin(time * 2) * 0.1;
           
-          const shieldGradient = ctx.createRadialGradient(
-            shipCenterX, shipCenterY, shieldRadius * 0.7,
-            shipCenterX, shipCenterY, shieldRadius
-          );
-          shieldGradient.addColorStop(0, 'transparent');
-          shieldGradient.addColorStop(0.7, '#00ff0040');
-          shieldGradient.addColorStop(1, '#00ffff80');
+            // Sparks around guns
+            for (let i = 0; i < 3; i++) {
+              const sparkAngle = time * 3 + i * Math.PI * 0.66;
+              const sparkDist = 8 + Math.sin(time * 5 + i) * 3;
+              const sparkX = position.x + size.x + Math.cos(sparkAngle) * sparkDist;
+              const sparkY = shipCenterY + Math.sin(sparkAngle) * sparkDist;
+            
+              ctx.fillStyle = '#ffff00';
+              ctx.beginPath();
+              ctx.arc(sparkX, sparkY, 1.5, 0, Math.PI * 2);
+              ctx.fill();
+            }
+          } else if (powerUp.type === 'shield' && gameState.shield?.broken) {
+            // Broken shield - a flickering arc filling back in as it recharges
+            const { points, maxPoints } = gameState.shield;
+            ctx.globalAlpha = 0.25 + Math.abs(Math.sin(time * 9)) * 0.25;
+            ctx.strokeStyle = '#00ffaa';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 6]);
+            ctx.beginPath();
+            ctx.arc(shipCenterX, shipCenterY, 35, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * (points / maxPoints));
+            ctx.stroke();
+            ctx.setLineDash([]);
+          } else if (powerUp.type === 'shield' && gameState.shield) {
+            // Green/cyan shield bubble with hexagonal pattern, fading as it wears down
+            const shieldRadius = 35;
+            const strength = 0.4 + 0.6 * (gameState.shield.points / gameState.shield.maxPoints);
+            ctx.globalAlpha = (0.3 + Math.sin(time * 2) * 0.1) * strength;
           
-          ctx.fillStyle = shieldGradient;
-          ctx.beginPath();
-          ctx.arc(shipCenterX, shipCenterY, shieldRadius, 0, Math.PI * 2);
-          ctx.fill();
+            const shieldGradient = ctx.createRadialGradient(
+              shipCenterX, shipCenterY, shieldRadius * 0.7,
+              shipCenterX, shipCenterY, shieldRadius
+            );
+            shieldGradient.addColorStop(0, 'transparent');
+            shieldGradient.addColorStop(0.7, '#00ff0040');
+            shieldGradient.addColorStop(1, '#00ffff80');
           
-          // Hexagonal shield pattern
-          ctx.globalAlpha = 0.5;
-          ctx.strokeStyle = '#00ffaa';
-          ctx.lineWidth = 1.5;
-          ctx.beginPath();
-          for (let i = 0; i < 6; i++) {
-            const angle = (Math.PI * 2 * i) / 6 + time * 0.5;
-            const x = shipCenterX + Math.cos(angle) * shieldRadius;
-            const y = shipCenterY + Math.sin(angle) * shieldRadius;
-            if (i === 0) {
-              ctx.moveTo(x, y);
-            } else {
-              ctx.lineTo(x, y);
+            ctx.fillStyle = shieldGradient;
+            ctx.beginPath();
+            ctx.arc(shipCenterX, shipCenterY, shieldRadius, 0, Math.PI * 2);
+            ctx.fill();
+          
+            // Hexagonal shield pattern
+            ctx.globalAlpha = 0.5 * strength;
+            ctx.strokeStyle = '#00ffaa';
+            ctx.lineWidth = 1.5;
+            ctx.beginPath();
+            for (let i = 0; i < 6; i++) {
+              const angle = (Math.PI * 2 * i) / 6 + time * 0.5;
+              const x = shipCenterX + Math.cos(angle) * shieldRadius;
+              const y = shipCenterY + Math.sin(angle) * shieldRadius;
+              if (i === 0) {
+                ctx.moveTo(x, y);
+              } else {
+                ctx.lineTo(x, y);
+              }
             }
-          }
-          ctx.closePath();
-          ctx.stroke();
+            ctx.closePath();
+            ctx.stroke();
           
-          // Energy ripples
-          ctx.globalAlpha = 0.4 * Math.sin(time * 3);
-          ctx.strokeStyle = '#00ff00';
-          ctx.lineWidth = 2;
-          ctx.beginPath();
-          ctx.arc(shipCenterX, shipCenterY, shieldRadius * (0.7 + Math.sin(time * 3) * 0.2), 0, Math.PI * 2);
-          ctx.stroke();
-        }
+            // Energy ripples
+            ctx.globalAlpha = 0.4 * Math.sin(time * 3);
+            ctx.strokeStyle = '#00ff00';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(shipCenterX, shipCenterY, shieldRadius * (0.7 + Math.sin(time * 3) * 0.2), 0, Math.PI * 2);
+            ctx.stroke();
+
+            // Bright rim flash where a hit was just soaked up
+            const sinceHit = gameState.shield.lastHitAt === null ? Infinity : gameState.time - gameState.shield.lastHitAt;
+            if (sinceHit < 150) {
+              ctx.globalAlpha = 1 - sinceHit / 150;
+              ctx.strokeStyle = '#ffffff';
+              ctx.lineWidth = 3;
+              ctx.beginPath();
+              ctx.arc(shipCenterX, shipCenterY, shieldRadius, 0, Math.PI * 2);
+              ctx.stroke();
+            }
+          }
         
-        ctx.restore();
-      });
+          ctx.restore();
+        });
       
-      // If multiple power-ups active, add outer ring showing all colors
-      if (gameState.activePowerUps.length > 1) {
-        ctx.save();
-        ctx.globalAlpha = 0.2;
-        ctx.lineWidth = 2;
+        // If multiple power-ups active, add outer ring showing all colors
+        if (gameState.activePowerUps.length > 1) {
+          ctx.save();
+          ctx.globalAlpha = 0.2;
+          ctx.lineWidth = 2;
         
-        gameState.activePowerUps.forEach((powerUp, index) => {
-          const colors = {
-            speed: '#00ffff',
-            fireRate: '#ff6600',
-            shield: '#00ff00'
-          };
+          gameState.activePowerUps.forEach((powerUp, index) => {
+            const colors = {
+              speed: '#00ffff',
+              fireRate: '#ff6600',
+              shield: '#00ff00'
+            };
           
-          ctx.strokeStyle = colors[powerUp.type];
-          ctx.beginPath();
-          ctx.arc(shipCenterX, shipCenterY, 40 + index * 5, 0, Math.PI * 2);
-          ctx.stroke();
-        });
+            ctx.strokeStyle = colors[powerUp.type];
+            ctx.beginPath();
+            ctx.arc(shipCenterX, shipCenterY, 40 + index * 5, 0, Math.PI * 2);
+            ctx.stroke();
+          });
         
-        ctx.restore();
-      }
+          ctx.restore();
+        }
       
-      // Draw ship image maintaining original aspect ratio
-      if (shipImageRef.current) {
-        const img = shipImageRef.current;
+        // Draw ship image maintaining original aspect ratio
+        if (shipImageRef.current) {
+          const img = shipImageRef.current;
         
-        // Use the image's natural dimensions exactly as uploaded
-        const drawWidth = img.naturalWidth;
-        const drawHeight = img.naturalHeight;
+          // Use the image's natural dimensions exactly as uploaded
+          const drawWidth = img.naturalWidth;
+          const drawHeight = img.naturalHeight;
 
-        ctx.save();
-        ctx.imageSmoothingEnabled = false;
-        ctx.translate(position.x + size.x / 2, position.y + size.y / 2);
-        ctx.drawImage(img, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
-        ctx.restore();
-      }
+          ctx.save();
+          ctx.imageSmoothingEnabled = false;
+          ctx.translate(position.x + size.x / 2, position.y + size.y / 2);
+          ctx.drawImage(img, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+          ctx.restore();
+        }
+
+        // Charge gathering at the nose - growing with the charge, flickering white once it's full
+        const { charge } = gameState.trigger;
+        if (charge > 0) {
+          const noseX = position.x + size.x;
+          const full = charge >= 1;
+          const glowRadius = 6 + charge * 24 + (full ? Math.sin(time * 8) * 3 : 0);
+
+          ctx.save();
+          ctx.globalAlpha = 0.5 + charge * 0.4;
+          const chargeGradient = ctx.createRadialGradient(noseX, shipCenterY, 0, noseX, shipCenterY, glowRadius);
+          chargeGradient.addColorStop(0, '#ffffff');
+          chargeGradient.addColorStop(0.4, full && Math.sin(time * 8) > 0 ? '#ffffff' : '#66ccff');
+          chargeGradient.addColorStop(1, 'transparent');
+          ctx.fillStyle = chargeGradient;
+          ctx.beginPath();
+          ctx.arc(noseX, shipCenterY, glowRadius, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.restore();
+        }
       
-      // Health indicator
-      const healthPercent = gameState.spaceship.health / gameState.spaceship.maxHealth;
-      ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
-      ctx.fillRect(position.x, position.y - 8, size.x * healthPercent, 4);
-    }
+        // Health indicator
+        const healthPercent = gameState.spaceship.health / gameState.spaceship.maxHealth;
+        ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
+        ctx.fillRect(position.x, position.y - 8, size.x * healthPercent, 4);
+      }
 
-    // Draw rockets (adjusted for scroll)
-    gameState.rockets.forEach(rocket => {
-      if (!rocket.active) return;
+      // Draw rockets (adjusted for scroll)
+      gameState.rockets.forEach(rocket => {
+        if (!rocket.active) return;
       
-      const screenX = rocket.position.x - gameState.scrollOffset;
+        const screenX = toScreenX(camera, rocket.position.x);
       
-      // Only draw if visible on screen
-      if (screenX < -rocket.size.x || screenX > settings.width) return;
+        // Only draw if visible on screen
+        if (screenX < -rocket.size.x || screenX > settings.width) return;
       
-      const { position, size, type } = rocket;
+        const { position, size, type } = rocket;
       
-      if (type === 'heavy') {
-        // Heavy rocket - larger with different colors
-        ctx.fillStyle = '#ff4444'; // Red body
-        ctx.fillRect(screenX, position.y, size.x, size.y);
+        if (type === 'heavy') {
+          // Heavy rocket - larger with different colors
+          ctx.fillStyle = '#ff4444'; // Red body
+          ctx.fillRect(screenX, position.y, size.x, size.y);
         
-        // Heavy rocket details
-        ctx.fillStyle = '#ffaa00'; // Orange tip
-        ctx.fillRect(screenX + 2, position.y, size.x - 4, 12);
+          // Heavy rocket details
+          ctx.fillStyle = '#ffaa00'; // Orange tip
+          ctx.fillRect(screenX + 2, position.y, size.x - 4, 12);
         
-        // Thicker exhaust trail
-        ctx.fillStyle = '#ffff00'; // Yellow exhaust
-        ctx.fillRect(screenX + 4, position.y + size.y, size.x - 8, 25);
-        ctx.fillStyle = '#ff6600'; // Orange exhaust
-        ctx.fillRect(screenX + 6, position.y + size.y + 15, size.x - 12, 20);
+          // Thicker exhaust trail
+          ctx.fillStyle = '#ffff00'; // Yellow exhaust
+          ctx.fillRect(screenX + 4, position.y + size.y, size.x - 8, 25);
+          ctx.fillStyle = '#ff6600'; // Orange exhaust
+          ctx.fillRect(screenX + 6, position.y + size.y + 15, size.x - 12, 20);
         
-        // Side details
-        ctx.fillStyle = '#666666';
-        ctx.fillRect(screenX, position.y + 20, 4, 15);
-        ctx.fillRect(screenX + size.x - 4, position.y + 20, 4, 15);
-      } else {
-        // Normal rocket
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y, size.x, size.y);
+          // Side details
+          ctx.fillStyle = '#666666';
+          ctx.fillRect(screenX, position.y + 20, 4, 15);
+          ctx.fillRect(screenX + size.x - 4, position.y + 20, 4, 15);
+        } else {
+          // Normal rocket
+          ctx.fillStyle = '#ff0000';
+          ctx.fillRect(screenX, position.y, size.x, size.y);
         
-        // Rocket tip
-        ctx.fillStyle = '#ffff00';
-        ctx.fillRect(screenX + 2, position.y, size.x - 4, 8);
-        
-        // Exhaust trail (should be at the bottom of rocket going up)
-        ctx.fillStyle = '#ff6600';
-        ctx.fillRect(screenX + 2, position.y + size.y, size.x - 4, 15);
-      }
-    });
-
-    // Draw saucers (adjusted for scroll)
-    gameState.saucers.forEach(saucer => {
-      if (!saucer.active) return;
-      
-      const screenX = saucer.position.x - gameState.scrollOffset;
-      
-      // Only draw if visible on screen
-      if (screenX < -saucer.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size } = saucer;
-      
-      // Draw saucer sprite
-      ctx.save();
-      ctx.imageSmoothingEnabled = false;
-      
-      const saucerImage = saucerImageRef.current;
-      if (saucerImage) {
-        const aspectRatio = saucerImage.width / saucerImage.height;
-        const drawWidth = size.x * 1.3;
-        const drawHeight = drawWidth / aspectRatio;
-        const offsetY = (size.y - drawHeight) / 2;
+          // Rocket tip
+          ctx.fillStyle = '#ffff00';
+          ctx.fillRect(screenX + 2, position.y, size.x - 4, 8);
         
-        ctx.drawImage(saucerImage, screenX, position.y + offsetY, drawWidth, drawHeight);
-      } else {
-        // Fallback ellipse if image not loaded
-        ctx.beginPath();
-        ctx.ellipse(screenX + size.x / 2, position.y + size.y / 2, size.x / 2, size.y / 2, 0, 0, Math.PI * 2);
-        ctx.fillStyle = '#cccccc';
-        ctx.fill();
-      }
-      
-      ctx.restore();
-    });
+          // Exhaust trail (should be at the bottom of rocket going up)
+          ctx.fillStyle = '#ff6600';
+          ctx.fillRect(screenX + 2, position.y + size.y, size.x - 4, 15);
+        }
+      });
 
-    // Draw projectiles (no scroll adjustment - they move independently)
-    gameState.projectiles.forEach(projectile => {
-      if (!projectile.active) return;
-      
-      const screenX = projectile.position.x;
-      
-      // Only draw if visible on screen
-      if (screenX < -projectile.size.x || screenX > settings.width) return;
-      
-      const { position, size, type } = projectile;
-      
-      if (type === 'bullet') {
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y, size.x, size.y);
-      } else if (type === 'spread') {
-        // Yellow spread shot bullets
-        ctx.fillStyle = '#ffff00';
-        ctx.fillRect(screenX, position.y, size.x, size.y);
-        // Glow effect
-        ctx.fillStyle = '#ffff88';
-        ctx.fillRect(screenX + 1, position.y, size.x - 2, size.y);
-      } else if (type === 'player_laser') {
-        // Player laser beam - green/cyan
-        ctx.save();
-        const laserGradient = ctx.createLinearGradient(screenX, position.y, screenX + size.x, position.y);
-        laserGradient.addColorStop(0, '#00ff88');
-        laserGradient.addColorStop(0.5, '#00ffcc');
-        laserGradient.addColorStop(1, '#00ff88');
-        ctx.fillStyle = laserGradient;
-        ctx.fillRect(screenX, position.y, size.x, size.y);
-        // Bright core
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(screenX, position.y + 1, size.x, 2);
-        ctx.restore();
-      } else if (type === 'missile') {
-        // Homing missile with fins
-        ctx.save();
-        // Missile body
-        ctx.fillStyle = '#aa4400';
-        ctx.fillRect(screenX, position.y, size.x - 4, size.y);
-        // Nose cone
-        ctx.fillStyle = '#ff6600';
-        ctx.beginPath();
-        ctx.moveTo(screenX + size.x - 4, position.y + size.y / 2);
-        ctx.lineTo(screenX + size.x, position.y);
-        ctx.lineTo(screenX + size.x, position.y + size.y);
-        ctx.closePath();
-        ctx.fill();
-        // Fins
-        ctx.fillStyle = '#666666';
-        ctx.fillRect(screenX, position.y - 2, 4, 2);
-        ctx.fillRect(screenX, position.y + size.y, 4, 2);
-        // Exhaust flame
-        const flameLen = 4 + Math.sin(Date.now() * 0.02) * 2;
-        ctx.fillStyle = '#ffff00';
-        ctx.fillRect(screenX - flameLen, position.y + 1, flameLen, size.y - 2);
-        ctx.restore();
-      } else if (type === 'bomb') {
-        ctx.fillStyle = '#ff00ff';
-        ctx.fillRect(screenX, position.y, size.x, size.y);
-        
-        // Bomb trail
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(screenX - 4, position.y + 2, 4, 4);
-      } else if (type === 'laser') {
-        // Draw alien laser - red/orange beam
-        ctx.fillStyle = '#ff3300';
-        ctx.fillRect(screenX - 1, position.y - size.y/2, size.x, size.y);
+      // Draw projectiles (adjusted for scroll)
+      gameState.projectiles.items.forEach(projectile => {
+        if (!projectile.active) return;
+      
+        const screenX = toScreenX(camera, projectile.position.x);
+      
+        // Only draw if visible on screen
+        if (screenX < -projectile.size.x || screenX > settings.width) return;
+      
+        const { position, size, type } = projectile;
+      
+        if (type === 'bullet') {
+          ctx.fillStyle = '#00ff00';
+          ctx.fillRect(screenX, position.y, size.x, size.y);
+        } else if (type === 'spread') {
+          // Yellow spread shot bullets
+          ctx.fillStyle = '#ffff00';
+          ctx.fillRect(screenX, position.y, size.x, size.y);
+          // Glow effect
+          ctx.fillStyle = '#ffff88';
+          ctx.fillRect(screenX + 1, position.y, size.x - 2, size.y);
+        } else if (type === 'player_laser') {
+          // Player laser beam - green/cyan
+          ctx.save();
+          const laserGradient = ctx.createLinearGradient(screenX, position.y, screenX + size.x, position.y);
+          laserGradient.addColorStop(0, '#00ff88');
+          laserGradient.addColorStop(0.5, '#00ffcc');
+          laserGradient.addColorStop(1, '#00ff88');
+          ctx.fillStyle = laserGradient;
+          ctx.fillRect(screenX, position.y, size.x, size.y);
+          // Bright core
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(screenX, position.y + 1, size.x, 2);
+          ctx.restore();
+        } else if (type === 'missile') {
+          // Homing missile with fins
+          ctx.save();
+          // Missile body
+          ctx.fillStyle = '#aa4400';
+          ctx.fillRect(screenX, position.y, size.x - 4, size.y);
+          // Nose cone
+          ctx.fillStyle = '#ff6600';
+          ctx.beginPath();
+          ctx.moveTo(screenX + size.x - 4, position.y + size.y / 2);
+          ctx.lineTo(screenX + size.x, position.y);
+          ctx.lineTo(screenX + size.x, position.y + size.y);
+          ctx.closePath();
+          ctx.fill();
+          // Fins
+          ctx.fillStyle = '#666666';
+          ctx.fillRect(screenX, position.y - 2, 4, 2);
+          ctx.fillRect(screenX, position.y + size.y, 4, 2);
+          // Exhaust flame
+          const flameLen = 4 + Math.sin(Date.now() * 0.02) * 2;
+          ctx.fillStyle = '#ffff00';
+          ctx.fillRect(screenX - flameLen, position.y + 1, flameLen, size.y - 2);
+          ctx.restore();
+        } else if (type === 'charge') {
+          // Charged blast - a glowing ball of plasma sized by its charge
+          ctx.save();
+          const centerX = screenX + size.x / 2;
+          const centerY = position.y + size.y / 2;
+          const blastGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, size.x / 2);
+          blastGradient.addColorStop(0, '#ffffff');
+          blastGradient.addColorStop(0.4, '#66ccff');
+          blastGradient.addColorStop(1, 'transparent');
+          ctx.fillStyle = blastGradient;
+          ctx.beginPath();
+          ctx.ellipse(centerX, centerY, size.x / 2, size.y / 2, 0, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.restore();
+        } else if (type === 'bomb') {
+          ctx.fillStyle = '#ff00ff';
+          ctx.fillRect(screenX, position.y, size.x, size.y);
         
-        // Add glow effect
-        ctx.fillStyle = '#ff6600';
-        ctx.fillRect(screenX, position.y - size.y/2 + 2, size.x - 2, size.y - 4);
+          // Bomb trail
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(screenX - 4, position.y + 2, 4, 4);
+        } else if (type === 'laser') {
+          // Draw alien laser - red/orange beam
+          ctx.fillStyle = '#ff3300';
+          ctx.fillRect(screenX - 1, position.y - size.y/2, size.x, size.y);
         
-        // Bright center
-        ctx.fillStyle = '#ffaa00';
-        ctx.fillRect(screenX + 1, position.y - size.y/2 + 4, 1, size.y - 8);
-      } else if (type === 'fire') {
-        // Draw flaming fire projectile
-        ctx.save();
+          // Add glow effect
+          ctx.fillStyle = '#ff6600';
+          ctx.fillRect(screenX, position.y - size.y/2 + 2, size.x - 2, size.y - 4);
         
-        // Outer flame
-        const fireGradient = ctx.createRadialGradient(screenX + size.x / 2, position.y + size.y / 2, 0, screenX + size.x / 2, position.y + size.y / 2, size.x);
-        fireGradient.addColorStop(0, '#ffff00');
-        fireGradient.addColorStop(0.4, '#ff6600');
-        fireGradient.addColorStop(0.7, '#ff3300');
-        fireGradient.addColorStop(1, '#ff0000');
+          // Bright center
+          ctx.fillStyle = '#ffaa00';
+          ctx.fillRect(screenX + 1, position.y - size.y/2 + 4, 1, size.y - 8);
+        } else if (type === 'fire') {
+          // Draw flaming fire projectile
+          ctx.save();
         
-        ctx.fillStyle = fireGradient;
-        ctx.beginPath();
-        ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 1.5, 0, Math.PI * 2);
-        ctx.fill();
+          // Outer flame
+          const fireGradient = ctx.createRadialGradient(screenX + size.x / 2, position.y + size.y / 2, 0, screenX + size.x / 2, position.y + size.y / 2, size.x);
+          fireGradient.addColorStop(0, '#ffff00');
+          fireGradient.addColorStop(0.4, '#ff6600');
+          fireGradient.addColorStop(0.7, '#ff3300');
+          fireGradient.addColorStop(1, '#ff0000');
         
-        // Inner core
-        ctx.fillStyle = '#ffffff';
-        ctx.beginPath();
-        ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 4, 0, Math.PI * 2);
-        ctx.fill();
+          ctx.fillStyle = fireGradient;
+          ctx.beginPath();
+          ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 1.5, 0, Math.PI * 2);
+          ctx.fill();
         
-        // Flickering particles
-        const time = Date.now() * 0.01;
-        for (let i = 0; i < 3; i++) {
-          const angle = time + i * Math.PI * 0.66;
-          const dist = 5 + Math.sin(time * 2 + i) * 3;
-          const px = screenX + size.x / 2 + Math.cos(angle) * dist;
-          const py = position.y + size.y / 2 + Math.sin(angle) * dist;
-          
-          ctx.fillStyle = '#ff6600';
+          // Inner core
+          ctx.fillStyle = '#ffffff';
           ctx.beginPath();
-          ctx.arc(px, py, 2, 0, Math.PI * 2);
+          ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 4, 0, Math.PI * 2);
           ctx.fill();
-        }
         
-        ctx.restore();
-      } else if (type === 'fireball') {
-        // Draw boss fireball - glowing orange ball
-        ctx.save();
+          // Flickering particles
+          const time = Date.now() * 0.01;
+          for (let i = 0; i < 3; i++) {
+            const angle = time + i * Math.PI * 0.66;
+            const dist = 5 + Math.sin(time * 2 + i) * 3;
+            const px = screenX + size.x / 2 + Math.cos(angle) * dist;
+            const py = position.y + size.y / 2 + Math.sin(angle) * dist;
+          
+            ctx.fillStyle = '#ff6600';
+            ctx.beginPath();
+            ctx.arc(px, py, 2, 0, Math.PI * 2);
+            ctx.fill();
+          }
         
-        // Outer glow
-        const gradient = ctx.createRadialGradient(screenX + size.x / 2, position.y + size.y / 2, 0, screenX + size.x / 2, position.y + size.y / 2, size.x);
-        gradient.addColorStop(0, '#ffff00');
-        gradient.addColorStop(0.3, '#ff6600');
-        gradient.addColorStop(0.7, '#ff3300');
-        gradient.addColorStop(1, 'transparent');
+          ctx.restore();
+        } else if (type === 'fireball') {
+          // Draw boss fireball - glowing orange ball
+          ctx.save();
         
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x, 0, Math.PI * 2);
-        ctx.fill();
+          // Outer glow
+          const gradient = ctx.createRadialGradient(screenX + size.x / 2, position.y + size.y / 2, 0, screenX + size.x / 2, position.y + size.y / 2, size.x);
+          gradient.addColorStop(0, '#ffff00');
+          gradient.addColorStop(0.3, '#ff6600');
+          gradient.addColorStop(0.7, '#ff3300');
+          gradient.addColorStop(1, 'transparent');
         
-        // Core
-        ctx.fillStyle = '#ffff00';
-        ctx.beginPath();
-        ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 2, 0, Math.PI * 2);
-        ctx.fill();
+          ctx.fillStyle = gradient;
+          ctx.beginPath();
+          ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x, 0, Math.PI * 2);
+          ctx.fill();
         
-        ctx.restore();
-      }
-    });
-
-    // Draw aliens (adjusted for scroll)
-    gameState.aliens.forEach(alien => {
-      if (!alien.active) return;
-      
-      const screenX = alien.position.x - gameState.scrollOffset;
-      
-      // Only draw if visible on screen
-      if (screenX < -alien.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size, health } = alien;
-      
-      // Draw alien body (insect-like)
-      ctx.fillStyle = '#228822';
-      ctx.fillRect(screenX + 5, position.y, size.x - 10, size.y - 5);
-      
-      // Draw alien head
-      ctx.fillStyle = '#336633';
-      ctx.fillRect(screenX + 8, position.y - 8, size.x - 16, 12);
-      
-      // Draw eyes (red)
-      ctx.fillStyle = '#ff0000';
-      ctx.fillRect(screenX + 10, position.y - 6, 3, 3);
-      ctx.fillRect(screenX + size.x - 13, position.y - 6, 3, 3);
-      
-      // Draw legs
-      ctx.fillStyle = '#114411';
-      for (let i = 0; i < 4; i++) {
-        const legX = screenX + 6 + i * 5;
-        ctx.fillRect(legX, position.y + size.y - 5, 2, 8);
-      }
-      
-      // Draw weapon (cannon)
-      ctx.fillStyle = '#444444';
-      ctx.fillRect(screenX + size.x / 2 - 2, position.y + 5, 4, 15);
-      
-      // Health bar above alien
-      if (health < alien.health) {
-        const maxHealth = 50 + Math.floor((gameState.level - 1) * 10);
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - 15, size.x, 3);
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y - 15, size.x * healthPercent, 3);
-      }
-    });
-
-    // Draw crawling aliens (adjusted for scroll)
-    gameState.crawlingAliens.forEach(crawlingAlien => {
-      if (!crawlingAlien.active) return;
-      
-      const screenX = crawlingAlien.position.x - gameState.scrollOffset;
-      
-      // Only draw if visible on screen
-      if (screenX < -crawlingAlien.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size, health } = crawlingAlien;
-      
-      // Draw critter sprite maintaining aspect ratio
-      if (critterImageRef.current) {
-        const img = critterImageRef.current;
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        const drawHeight = size.y * 2;
-        const drawWidth = drawHeight * aspectRatio;
+          // Core
+          ctx.fillStyle = '#ffff00';
+          ctx.beginPath();
+          ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 2, 0, Math.PI * 2);
+          ctx.fill();
         
-        ctx.save();
-        ctx.imageSmoothingEnabled = false;
-        ctx.drawImage(
-          img,
-          screenX + size.x / 2 - drawWidth / 2,
-          position.y + size.y - drawHeight,
-          drawWidth,
-          drawHeight
-        );
-        ctx.restore();
-      }
-      
-      // Health bar above crawling alien
-      if (health < 60 + gameState.level * 15) {
-        const maxHealth = 60 + gameState.level * 15;
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - 10, size.x, 3);
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y - 10, size.x * healthPercent, 3);
-      }
-    });
+          ctx.restore();
+        }
+      });
 
-    // Draw Dive Bombers
-    gameState.diveBombers.forEach(bomber => {
-      if (!bomber.active) return;
-      
-      const screenX = bomber.position.x - gameState.scrollOffset;
-      if (screenX < -bomber.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size, health, phase } = bomber;
-      
-      ctx.save();
-      
-      // Rotate based on dive phase
-      ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
-      if (phase === 'dive') {
-        ctx.rotate(0.4);
-      } else if (phase === 'retreat') {
-        ctx.rotate(-0.3);
-      }
-      ctx.translate(-(screenX + size.x / 2), -(position.y + size.y / 2));
-      
-      // Main body - sleek jet-like
-      ctx.fillStyle = '#cc2222';
-      ctx.beginPath();
-      ctx.moveTo(screenX + size.x, position.y + size.y / 2);
-      ctx.lineTo(screenX, position.y);
-      ctx.lineTo(screenX + 10, position.y + size.y / 2);
-      ctx.lineTo(screenX, position.y + size.y);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Wings
-      ctx.fillStyle = '#881111';
-      ctx.fillRect(screenX + 5, position.y - 8, 15, 8);
-      ctx.fillRect(screenX + 5, position.y + size.y, 15, 8);
-      
-      // Cockpit
-      ctx.fillStyle = '#ffcc00';
-      ctx.beginPath();
-      ctx.arc(screenX + size.x - 12, position.y + size.y / 2, 4, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Engine glow during dive
-      if (phase === 'dive') {
-        ctx.fillStyle = '#ff6600';
-        ctx.fillRect(screenX - 8, position.y + size.y / 2 - 3, 8, 6);
-      }
-      
-      ctx.restore();
-      
-      // Health bar
-      const maxHealth = 40 + gameState.level * 8;
-      if (health < maxHealth) {
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - 12, size.x, 3);
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y - 12, size.x * healthPercent, 3);
-      }
-    });
+      // Draw registry enemies (adjusted for scroll)
+      const enemySprites = { saucer: saucerImageRef.current, critter: critterImageRef.current };
+      ENEMY_KINDS.forEach(kind => {
+        const definition = ENEMIES[kind];
+        const enemies: EnemyTypes[EnemyKind][] = gameState[ENEMY_COLLECTIONS[kind]];
 
-    // Draw Zigzag Fighters
-    gameState.zigzagFighters.forEach(zigzag => {
-      if (!zigzag.active) return;
-      
-      const screenX = zigzag.position.x - gameState.scrollOffset;
-      if (screenX < -zigzag.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size, health, zigzagPhase } = zigzag;
-      const time = Date.now() * 0.01;
-      
-      ctx.save();
-      
-      // Slight rotation based on zigzag movement
-      ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
-      ctx.rotate(Math.sin(zigzagPhase) * 0.2);
-      ctx.translate(-(screenX + size.x / 2), -(position.y + size.y / 2));
-      
-      // Main body - hexagonal shape
-      ctx.fillStyle = '#6622aa';
-      ctx.beginPath();
-      ctx.moveTo(screenX + size.x, position.y + size.y / 2);
-      ctx.lineTo(screenX + size.x * 0.7, position.y);
-      ctx.lineTo(screenX + size.x * 0.3, position.y);
-      ctx.lineTo(screenX, position.y + size.y / 2);
-      ctx.lineTo(screenX + size.x * 0.3, position.y + size.y);
-      ctx.lineTo(screenX + size.x * 0.7, position.y + size.y);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Glowing core
-      const pulseSize = 6 + Math.sin(time) * 2;
-      ctx.fillStyle = '#ff00ff';
-      ctx.beginPath();
-      ctx.arc(screenX + size.x / 2, position.y + size.y / 2, pulseSize, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Eye
-      ctx.fillStyle = '#ffffff';
-      ctx.beginPath();
-      ctx.arc(screenX + size.x * 0.7, position.y + size.y / 2, 3, 0, Math.PI * 2);
-      ctx.fill();
-      
-      ctx.restore();
-      
-      // Health bar
-      const maxHealth = 35 + gameState.level * 6;
-      if (health < maxHealth) {
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - 10, size.x, 3);
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y - 10, size.x * healthPercent, 3);
-      }
-    });
+        enemies.forEach(enemy => {
+          if (!enemy.active) return;
 
-    // Draw Splitters
-    gameState.splitters.forEach(splitter => {
-      if (!splitter.active) return;
-      
-      const screenX = splitter.position.x - gameState.scrollOffset;
-      if (screenX < -splitter.size.x || screenX > settings.width + 50) return;
-      
-      const { position, size, health, generation } = splitter;
-      const time = Date.now() * 0.008;
-      
-      ctx.save();
-      
-      // Wobble animation
-      ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
-      ctx.rotate(Math.sin(time + position.x * 0.01) * 0.1);
-      
-      // Color based on generation
-      const colors = ['#22cc44', '#44aa22', '#668800'];
-      const baseColor = colors[generation];
-      
-      // Blob-like body (circle)
-      ctx.fillStyle = baseColor;
-      ctx.beginPath();
-      ctx.arc(0, 0, size.x / 2, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Inner pattern (shows split capability)
-      if (generation < 2) {
-        ctx.fillStyle = '#88ff88';
-        ctx.beginPath();
-        ctx.arc(-size.x / 6, 0, size.x / 6, 0, Math.PI * 2);
-        ctx.arc(size.x / 6, 0, size.x / 6, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      
-      // Eyes
-      ctx.fillStyle = '#ffffff';
-      ctx.beginPath();
-      ctx.arc(-size.x / 5, -size.y / 6, 3, 0, Math.PI * 2);
-      ctx.arc(size.x / 5, -size.y / 6, 3, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Pupils
-      ctx.fillStyle = '#000000';
-      ctx.beginPath();
-      ctx.arc(-size.x / 5 + 1, -size.y / 6, 1.5, 0, Math.PI * 2);
-      ctx.arc(size.x / 5 + 1, -size.y / 6, 1.5, 0, Math.PI * 2);
-      ctx.fill();
-      
-      ctx.restore();
-      
-      // Health bar
-      const maxHealth = generation === 0 ? 80 + gameState.level * 10 : generation === 1 ? 40 : 20;
-      if (health < maxHealth) {
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - size.y / 2 - 8, size.x, 3);
-        ctx.fillStyle = '#00ff00';
-        ctx.fillRect(screenX, position.y - size.y / 2 - 8, size.x * healthPercent, 3);
-      }
-    });
+          const screenX = toScreenX(camera, enemy.position.x);
 
-    gameState.bossRockets.forEach(boss => {
-      if (!boss.active) return;
-      
-      const screenX = boss.position.x - gameState.scrollOffset;
-      
-      // Only draw if visible on screen
-      if (screenX < -boss.size.x || screenX > settings.width + 200) return;
-      
-      const { position, size, health, maxHealth } = boss;
-      
-      // Draw massive rocket body
-      ctx.save();
-      
-      // Main body - dark metallic
-      ctx.fillStyle = '#444444';
-      ctx.fillRect(screenX, position.y, size.x, size.y);
-      
-      // Nose cone - red/orange
-      ctx.fillStyle = '#ff4400';
-      ctx.beginPath();
-      ctx.moveTo(screenX, position.y + size.y / 2);
-      ctx.lineTo(screenX - 30, position.y + size.y / 2 - 15);
-      ctx.lineTo(screenX - 30, position.y + size.y / 2 + 15);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Engine exhausts (3 streams)
-      ctx.fillStyle = '#0099ff';
-      ctx.fillRect(screenX + size.x - 15, position.y + 10, 15, 15);
-      ctx.fillRect(screenX + size.x - 15, position.y + size.y / 2 - 7, 15, 15);
-      ctx.fillRect(screenX + size.x - 15, position.y + size.y - 25, 15, 15);
-      
-      // Engine flames
-      const time = Date.now() * 0.01;
-      const flameLength = 20 + Math.sin(time) * 10;
-      ctx.fillStyle = '#ffff00';
-      ctx.fillRect(screenX + size.x, position.y + 12, flameLength, 11);
-      ctx.fillRect(screenX + size.x, position.y + size.y / 2 - 5, flameLength, 11);
-      ctx.fillRect(screenX + size.x, position.y + size.y - 23, flameLength, 11);
-      
-      // Weapon ports (3 cannons)
-      ctx.fillStyle = '#222222';
-      for (let i = 0; i < 3; i++) {
-        const portY = position.y + 20 + i * 20;
-        ctx.fillRect(screenX + 10, portY, 20, 8);
-      }
-      
-      // Boss details - rivets and panels
-      ctx.fillStyle = '#666666';
-      for (let i = 0; i < 5; i++) {
-        ctx.fillRect(screenX + 20 + i * 18, position.y + 5, 4, 4);
-        ctx.fillRect(screenX + 20 + i * 18, position.y + size.y - 9, 4, 4);
-      }
-      
-      // Health bar above boss
-      const healthPercent = health / maxHealth;
-      ctx.fillStyle = '#ff0000';
-      ctx.fillRect(screenX, position.y - 20, size.x, 8);
-      ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
-      ctx.fillRect(screenX, position.y - 20, size.x * healthPercent, 8);
-      
-      // Health text
-      ctx.fillStyle = '#ffffff';
-      ctx.font = '12px monospace';
-      ctx.textAlign = 'center';
-      ctx.fillText(`${health}/${maxHealth}`, screenX + size.x / 2, position.y - 25);
-      
-      ctx.restore();
-    });
+          // Only draw if visible on screen
+          if (screenX < -enemy.size.x || screenX > settings.width + 200) return;
 
-    // Draw MEGA BOSS
-    if (gameState.boss && gameState.boss.active) {
-      const screenX = gameState.boss.position.x - gameState.scrollOffset;
-      
-      if (screenX > -500 && screenX < settings.width + 100) {
-        const { position, size, health, maxHealth, id } = gameState.boss;
+          ENEMY_RENDERERS[definition.renderer](ctx, enemy, screenX, enemySprites);
+          drawEnemyHealthBar(ctx, definition, enemy, screenX);
+        });
+      });
+
+      // Draw MEGA BOSS
+      if (gameState.boss && gameState.boss.active) {
+        const screenX = toScreenX(camera, gameState.boss.position.x);
+      
+        if (screenX > -500 && screenX < settings.width + 100) {
+          const boss = gameState.boss;
+          const { position, size, health, maxHealth, id } = boss;
+          const script = BOSS_SCRIPTS[boss.bossType];
+          const centerX = screenX + size.x / 2;
+          const centerY = position.y + size.y / 2;
+          const now = gameState.time;
         
-        ctx.save();
+          ctx.save();
         
-        // Rotate through 3 boss sprites based on boss number
-        const bossNumber = parseInt(id.split('-').pop() || '1');
-        const bossSprites = [bossImageRef.current, boss2ImageRef.current, boss3ImageRef.current];
-        const bossImage = bossSprites[(bossNumber - 1) % 3];
+          // Rotate through 3 boss sprites based on boss number
+          const bossNumber = parseInt(id.split('-').pop() || '1');
+          const bossSprites = [bossImageRef.current, boss2ImageRef.current, boss3ImageRef.current];
+          const bossImage = bossSprites[(bossNumber - 1) % 3];
         
-        // Draw boss sprite maintaining aspect ratio
-        if (bossImage) {
-          const aspectRatio = bossImage.naturalWidth / bossImage.naturalHeight;
-          const drawHeight = size.y * 1.2;
-          const drawWidth = drawHeight * aspectRatio;
+          // Draw boss sprite maintaining aspect ratio
+          if (bossImage) {
+            const aspectRatio = bossImage.naturalWidth / bossImage.naturalHeight;
+            const drawHeight = size.y * 1.2;
+            const drawWidth = drawHeight * aspectRatio;
           
-          ctx.imageSmoothingEnabled = false;
-          ctx.drawImage(
-            bossImage,
-            screenX + size.x / 2 - drawWidth / 2,
-            position.y + size.y - drawHeight,
-            drawWidth,
-            drawHeight
-          );
-        }
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(
+              bossImage,
+              screenX + size.x / 2 - drawWidth / 2,
+              position.y + size.y - drawHeight,
+              drawWidth,
+              drawHeight
+            );
+          }
         
-        // Health bar above boss
-        const healthPercent = health / maxHealth;
-        ctx.fillStyle = '#ff0000';
-        ctx.fillRect(screenX, position.y - 30, size.x, 15);
-        ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
-        ctx.fillRect(screenX, position.y - 30, size.x * healthPercent, 15);
+          drawBossParts(ctx, boss, script, camera, now);
         
-        // Boss title
-        ctx.fillStyle = '#ffffff';
-        ctx.font = 'bold 20px monospace';
-        ctx.textAlign = 'center';
-        ctx.fillText('MEGA BOSS', screenX + size.x / 2, position.y - 40);
+          // Attack wind-up - a ring closing in on the core until it fires
+          if (boss.telegraph) {
+            const progress = 1 - Math.max(0, boss.telegraph.firesAt - now) / script.telegraphMs;
+            ctx.strokeStyle = `rgba(255, 60, 60, ${0.4 + progress * 0.6})`;
+            ctx.lineWidth = 4;
+            ctx.beginPath();
+            ctx.arc(centerX, centerY, 140 - progress * 100, 0, Math.PI * 2);
+            ctx.stroke();
+          
+            ctx.fillStyle = '#ff3c3c';
+            ctx.font = 'bold 32px monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText('!', centerX, centerY + 11);
+          }
         
-        // Health text
-        ctx.font = '14px monospace';
-        ctx.fillText(`${health}/${maxHealth}`, screenX + size.x / 2, position.y - 15);
+          // Phase transition shield
+          if (now < boss.invulnerableUntil) {
+            ctx.fillStyle = `rgba(120, 200, 255, ${0.2 + Math.sin(now * 0.02) * 0.1})`;
+            ctx.strokeStyle = 'rgba(180, 230, 255, 0.8)';
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.ellipse(centerX, centerY, size.x * 0.7, size.y * 0.6, 0, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+          }
         
-        ctx.restore();
+          // Health bar above boss
+          const healthPercent = health / maxHealth;
+          ctx.fillStyle = '#ff0000';
+          ctx.fillRect(screenX, position.y - 30, size.x, 15);
+          ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
+          ctx.fillRect(screenX, position.y - 30, size.x * healthPercent, 15);
+        
+          // Marks where the next phases kick in
+          ctx.fillStyle = '#ffffff';
+          script.phases.slice(1).forEach(phase => {
+            ctx.fillRect(screenX + size.x * phase.threshold - 1, position.y - 33, 2, 21);
+          });
+        
+          // Boss title
+          ctx.font = 'bold 20px monospace';
+          ctx.textAlign = 'center';
+          ctx.fillText(`${script.name} · PHASE ${boss.phase + 1}`, screenX + size.x / 2, position.y - 40);
+        
+          // Health text
+          ctx.font = '14px monospace';
+          ctx.fillText(`${Math.ceil(health)}/${maxHealth}`, screenX + size.x / 2, position.y - 15);
+        
+          ctx.restore();
+        }
       }
-    }
 
-    // Draw power-ups (collectibles)
-    gameState.powerUps.forEach(powerUp => {
-      if (!powerUp.active) return;
+      // Draw power-ups (collectibles)
+      gameState.powerUps.forEach(powerUp => {
+        if (!powerUp.active) return;
       
-      const screenX = powerUp.position.x - gameState.scrollOffset;
+        const screenX = toScreenX(camera, powerUp.position.x);
       
-      // Only draw if visible on screen
-      if (screenX < -powerUp.size.x || screenX > settings.width) return;
+        // Only draw if visible on screen
+        if (screenX < -powerUp.size.x || screenX > settings.width) return;
       
-      const { position, size, powerUpType } = powerUp;
-      const time = Date.now() * 0.005;
+        const { position, size, powerUpType } = powerUp;
+        const time = Date.now() * 0.005;
       
-      // Draw power-up with pulsing glow and icon
-      ctx.save();
+        // Draw power-up with pulsing glow and icon
+        ctx.save();
       
-      // Pulsing glow effect
-      const pulseSize = 5 + Math.sin(time * 3) * 3;
-      const glowGradient = ctx.createRadialGradient(
-        screenX + size.x / 2, position.y + size.y / 2, 0,
-        screenX + size.x / 2, position.y + size.y / 2, size.x / 2 + pulseSize
-      );
+        // Pulsing glow effect
+        const pulseSize = 5 + Math.sin(time * 3) * 3;
+        const glowGradient = ctx.createRadialGradient(
+          screenX + size.x / 2, position.y + size.y / 2, 0,
+          screenX + size.x / 2, position.y + size.y / 2, size.x / 2 + pulseSize
+        );
       
-      // Different colors for different power-up types
-      let color1, color2, icon;
-      if (powerUpType === 'speed') {
-        color1 = '#00ffff'; // Cyan
-        color2 = '#0088ff';
-        icon = 'S';
-      } else if (powerUpType === 'fireRate') {
-        color1 = '#ff6600'; // Orange
-        color2 = '#ff0000';
-        icon = 'F';
-      } else if (powerUpType === 'spread') {
-        color1 = '#ffff00'; // Yellow
-        color2 = '#ff8800';
-        icon = 'W'; // Wide shot
-      } else if (powerUpType === 'laser') {
-        color1 = '#00ff88'; // Cyan-green
-        color2 = '#00cc66';
-        icon = 'L';
-      } else if (powerUpType === 'missile') {
-        color1 = '#ff4400'; // Red-orange
-        color2 = '#cc2200';
-        icon = 'M';
-      } else { // shield
-        color1 = '#00ff00'; // Green
-        color2 = '#00aa00';
-        icon = 'H';
-      }
+        // Different colors for different power-up types
+        let color1, color2, icon;
+        if (powerUpType === 'speed') {
+          color1 = '#00ffff'; // Cyan
+          color2 = '#0088ff';
+          icon = 'S';
+        } else if (powerUpType === 'fireRate') {
+          color1 = '#ff6600'; // Orange
+          color2 = '#ff0000';
+          icon = 'F';
+        } else if (powerUpType === 'spread') {
+          color1 = '#ffff00'; // Yellow
+          color2 = '#ff8800';
+          icon = 'W'; // Wide shot
+        } else if (powerUpType === 'laser') {
+          color1 = '#00ff88'; // Cyan-green
+          color2 = '#00cc66';
+          icon = 'L';
+        } else if (powerUpType === 'missile') {
+          color1 = '#ff4400'; // Red-orange
+          color2 = '#cc2200';
+          icon = 'M';
+        } else { // shield
+          color1 = '#00ff00'; // Green
+          color2 = '#00aa00';
+          icon = 'H';
+        }
       
-      glowGradient.addColorStop(0, color1);
-      glowGradient.addColorStop(0.7, color2);
-      glowGradient.addColorStop(1, 'transparent');
+        glowGradient.addColorStop(0, color1);
+        glowGradient.addColorStop(0.7, color2);
+        glowGradient.addColorStop(1, 'transparent');
       
-      ctx.fillStyle = glowGradient;
-      ctx.beginPath();
-      ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 2 + pulseSize, 0, Math.PI * 2);
-      ctx.fill();
+        ctx.fillStyle = glowGradient;
+        ctx.beginPath();
+        ctx.arc(screenX + size.x / 2, position.y + size.y / 2, size.x / 2 + pulseSize, 0, Math.PI * 2);
+        ctx.fill();
       
-      // Main power-up body (rotating square)
-      ctx.save();
-      ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
-      ctx.rotate(time * 2);
-      ctx.fillStyle = color1;
-      ctx.fillRect(-size.x / 3, -size.y / 3, size.x / 1.5, size.y / 1.5);
-      ctx.strokeStyle = color2;
-      ctx.lineWidth = 2;
-      ctx.strokeRect(-size.x / 3, -size.y / 3, size.x / 1.5, size.y / 1.5);
-      ctx.restore();
+        // Main power-up body (rotating square)
+        ctx.save();
+        ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
+        ctx.rotate(time * 2);
+        ctx.fillStyle = color1;
+        ctx.fillRect(-size.x / 3, -size.y / 3, size.x / 1.5, size.y / 1.5);
+        ctx.strokeStyle = color2;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(-size.x / 3, -size.y / 3, size.x / 1.5, size.y / 1.5);
+        ctx.restore();
       
-      // Icon letter
-      ctx.fillStyle = '#ffffff';
-      ctx.font = 'bold 14px monospace';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(icon, screenX + size.x / 2, position.y + size.y / 2);
+        // Icon letter
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 14px monospace';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(icon, screenX + size.x / 2, position.y + size.y / 2);
       
-      ctx.restore();
-    });
+        ctx.restore();
+      });
 
-    // Draw explosions with particles (adjusted for scroll)
-    gameState.explosions.forEach(explosion => {
-      const screenX = explosion.position.x - gameState.scrollOffset;
+      // Draw explosion rings (adjusted for scroll)
+      gameState.explosions.forEach(explosion => {
+        const screenX = toScreenX(camera, explosion.position.x);
       
-      // Only draw if visible on screen
-      if (screenX < -200 || screenX > settings.width + 200) return;
+        // Only draw if visible on screen
+        if (screenX < -200 || screenX > settings.width + 200) return;
       
-      const { position, startTime, particles, isMegaExplosion } = explosion;
-      const elapsed = Date.now() - startTime;
-      const duration = isMegaExplosion ? 2000 : 1000; // Mega explosions last longer
-      const progress = elapsed / duration;
+        const { position, startTime, isMegaExplosion } = explosion;
+        const elapsed = gameState.time - startTime;
+        const duration = isMegaExplosion ? 2000 : 1000; // Mega explosions last longer
+        const progress = elapsed / duration;
       
-      if (progress < 1) {
-        const isMega = isMegaExplosion || false;
+        if (progress < 1) {
+          const isMega = isMegaExplosion || false;
         
-        // Draw main explosion rings
-        const maxRadius = isMega ? 100 : 30;
-        const radius = maxRadius * progress;
-        const opacity = 1 - progress;
+          // Draw main explosion rings
+          const maxRadius = isMega ? 100 : 30;
+          const radius = maxRadius * progress;
+          const opacity = 1 - progress;
         
-        ctx.save();
-        ctx.globalAlpha = opacity * (isMega ? 0.9 : 0.8);
+          ctx.save();
+          ctx.globalAlpha = opacity * (isMega ? 0.9 : 0.8);
         
-        // Explosion rings - more for mega explosions
-        const ringCount = isMega ? 8 : 4;
-        for (let i = 0; i < ringCount; i++) {
-          ctx.beginPath();
-          ctx.arc(screenX, position.y, radius + i * (isMega ? 15 : 8), 0, Math.PI * 2);
+          // Explosion rings - more for mega explosions
+          const ringCount = isMega ? 8 : 4;
+          for (let i = 0; i < ringCount; i++) {
+            ctx.beginPath();
+            ctx.arc(screenX, position.y, radius + i * (isMega ? 15 : 8), 0, Math.PI * 2);
           
-          // Enhanced colors for mega explosions
-          if (isMega) {
-            ctx.strokeStyle = i === 0 ? '#ffffff' : 
-                            i === 1 ? '#ffff00' : 
-                            i === 2 ? '#ffaa00' :
-                            i === 3 ? '#ff6600' :
-                            i === 4 ? '#ff3300' :
-                            i === 5 ? '#ff0000' : '#cc0000';
-          } else {
-            ctx.strokeStyle = i === 0 ? '#ffff00' : i === 1 ? '#ff6600' : i === 2 ? '#ff0000' : '#ffffff';
-          }
+            // Enhanced colors for mega explosions
+            if (isMega) {
+              ctx.strokeStyle = i === 0 ? '#ffffff' : 
+                              i === 1 ? '#ffff00' : 
+                              i === 2 ? '#ffaa00' :
+                              i === 3 ? '#ff6600' :
+                              i === 4 ? '#ff3300' :
+                              i === 5 ? '#ff0000' : '#cc0000';
+            } else {
+              ctx.strokeStyle = i === 0 ? '#ffff00' : i === 1 ? '#ff6600' : i === 2 ? '#ff0000' : '#ffffff';
+            }
           
-          ctx.lineWidth = isMega ? 6 - i * 0.5 : 4 - i;
-          ctx.stroke();
-        }
-        
-        // Add bright flash for mega explosions
-        if (isMega && progress < 0.3) {
-          ctx.globalAlpha = (1 - progress / 0.3) * 0.6;
-          const flashGradient = ctx.createRadialGradient(screenX, position.y, 0, screenX, position.y, radius * 2);
-          flashGradient.addColorStop(0, '#ffffff');
-          flashGradient.addColorStop(0.5, '#ffff00');
-          flashGradient.addColorStop(1, 'transparent');
-          ctx.fillStyle = flashGradient;
-          ctx.beginPath();
-          ctx.arc(screenX, position.y, radius * 2, 0, Math.PI * 2);
-          ctx.fill();
-        }
-        
-        ctx.restore();
+            ctx.lineWidth = isMega ? 6 - i * 0.5 : 4 - i;
+            ctx.stroke();
+          }
         
-        // Draw particles
-        particles.forEach(particle => {
-          const particleScreenX = particle.position.x - gameState.scrollOffset;
-          
-          // Only draw particles visible on screen
-          if (particleScreenX < -20 || particleScreenX > settings.width + 20) return;
-          
-          ctx.save();
-          ctx.globalAlpha = particle.life;
-          
-          // Enhanced particle rendering for mega explosions
-          if (isMega) {
-            // Add glow effect
-            const glowGradient = ctx.createRadialGradient(
-              particleScreenX, particle.position.y, 0,
-              particleScreenX, particle.position.y, particle.size * 2
-            );
-            glowGradient.addColorStop(0, particle.color);
-            glowGradient.addColorStop(1, 'transparent');
-            ctx.fillStyle = glowGradient;
+          // Add bright flash for mega explosions
+          if (isMega && progress < 0.3) {
+            ctx.globalAlpha = (1 - progress / 0.3) * 0.6;
+            const flashGradient = ctx.createRadialGradient(screenX, position.y, 0, screenX, position.y, radius * 2);
+            flashGradient.addColorStop(0, '#ffffff');
+            flashGradient.addColorStop(0.5, '#ffff00');
+            flashGradient.addColorStop(1, 'transparent');
+            ctx.fillStyle = flashGradient;
             ctx.beginPath();
-            ctx.arc(particleScreenX, particle.position.y, particle.size * 2, 0, Math.PI * 2);
+            ctx.arc(screenX, position.y, radius * 2, 0, Math.PI * 2);
             ctx.fill();
           }
-          
-          // Core particle
-          ctx.fillStyle = particle.color;
-          ctx.beginPath();
-          ctx.arc(particleScreenX, particle.position.y, particle.size, 0, Math.PI * 2);
-          ctx.fill();
-          
+        
           ctx.restore();
-        });
-      }
-    });
+        }
+      });
 
-    // Draw score popups
-    const now = Date.now();
-    gameState.scorePopups.forEach(popup => {
-      const popupScreenX = popup.position.x - gameState.scrollOffset;
-      
-      // Only draw if visible on screen
-      if (popupScreenX < -100 || popupScreenX > settings.width + 100) return;
+      // Draw explosion particles
+      gameState.explosionParticles.items.forEach(particle => {
+        const particleScreenX = toScreenX(camera, particle.position.x);
       
-      const elapsed = now - popup.startTime;
-      const progress = elapsed / popup.duration;
-      const alpha = 1 - progress; // Fade out
-      const yOffset = progress * 60; // Float up
+        // Only draw particles visible on screen
+        if (particleScreenX < -20 || particleScreenX > settings.width + 20) return;
       
-      if (alpha <= 0) return;
+        ctx.save();
+        ctx.globalAlpha = particle.life;
+      
+        // Enhanced particle rendering for mega explosions
+        if (particle.mega) {
+          // Add glow effect
+          const glowGradient = ctx.createRadialGradient(
+            particleScreenX, particle.position.y, 0,
+            particleScreenX, particle.position.y, particle.size * 2
+          );
+          glowGradient.addColorStop(0, particle.color);
+          glowGradient.addColorStop(1, 'transparent');
+          ctx.fillStyle = glowGradient;
+          ctx.beginPath();
+          ctx.arc(particleScreenX, particle.position.y, particle.size * 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
       
-      ctx.save();
-      ctx.globalAlpha = alpha;
-      
-      // Draw score text with glow
-      const fontSize = popup.score >= 1000 ? 24 : popup.score >= 500 ? 20 : 16;
-      ctx.font = `bold ${fontSize}px "Press Start 2P", monospace`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      
-      // Color based on score value
-      const color = popup.score >= 5000 ? '#ff0000' : 
-                    popup.score >= 1000 ? '#ff6600' : 
-                    popup.score >= 500 ? '#ffff00' : '#00ff00';
-      
-      // Glow effect
-      ctx.shadowColor = color;
-      ctx.shadowBlur = 10;
-      ctx.fillStyle = color;
-      ctx.fillText(`+${popup.score}`, popupScreenX, popup.position.y - yOffset);
-      
-      // White outline for readability
-      ctx.shadowBlur = 0;
-      ctx.strokeStyle = '#ffffff';
-      ctx.lineWidth = 1;
-      ctx.strokeText(`+${popup.score}`, popupScreenX, popup.position.y - yOffset);
+        // Core particle
+        ctx.fillStyle = particle.color;
+        ctx.beginPath();
+        ctx.arc(particleScreenX, particle.position.y, particle.size, 0, Math.PI * 2);
+        ctx.fill();
       
-      ctx.restore();
-    });
+        ctx.restore();
+      });
 
-    // Draw screen flash effect
-    if (gameState.screenFlash) {
-      const flash = gameState.screenFlash;
-      const elapsed = Date.now() - flash.startTime;
-      
-      if (elapsed <= flash.duration) {
-        const progress = elapsed / flash.duration;
-        const alpha = flash.intensity * (1 - progress); // Fade out
-        
+      // Draw score popups
+      const now = gameState.time;
+      gameState.scorePopups.items.forEach(popup => {
+        const popupScreenX = toScreenX(camera, popup.position.x);
+      
+        // Only draw if visible on screen
+        if (popupScreenX < -100 || popupScreenX > settings.width + 100) return;
+      
+        const elapsed = now - popup.startTime;
+        const progress = elapsed / popup.duration;
+        const alpha = 1 - progress; // Fade out
+        const yOffset = progress * 60; // Float up
+      
+        if (alpha <= 0) return;
+      
         ctx.save();
         ctx.globalAlpha = alpha;
-        ctx.fillStyle = flash.color;
-        ctx.fillRect(0, 0, settings.width, settings.height);
+      
+        // Draw score text with glow
+        const fontSize = popup.score >= 1000 ? 24 : popup.score >= 500 ? 20 : 16;
+        ctx.font = `bold ${fontSize}px "Press Start 2P", monospace`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+      
+        // Color based on score value
+        const color = popup.score >= 5000 ? '#ff0000' : 
+                      popup.score >= 1000 ? '#ff6600' : 
+                      popup.score >= 500 ? '#ffff00' : '#00ff00';
+      
+        // Glow effect
+        ctx.shadowColor = color;
+        ctx.shadowBlur = 10;
+        ctx.fillStyle = color;
+        ctx.fillText(`+${popup.score}`, popupScreenX, popup.position.y - yOffset);
+      
+        // White outline for readability
+        ctx.shadowBlur = 0;
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.strokeText(`+${popup.score}`, popupScreenX, popup.position.y - yOffset);
+      
         ctx.restore();
+      });
+
+      // Draw screen flash effect
+      if (gameState.screenFlash) {
+        const flash = gameState.screenFlash;
+        const elapsed = gameState.time - flash.startTime;
+      
+        if (elapsed <= flash.duration) {
+          const progress = elapsed / flash.duration;
+          const alpha = flash.intensity * (1 - progress); // Fade out
+        
+          ctx.save();
+          ctx.globalAlpha = alpha;
+          ctx.fillStyle = flash.color;
+          ctx.fillRect(0, 0, settings.width, settings.height);
+          ctx.restore();
+        }
       }
-    }
 
-    // Restore context state
-    ctx.restore();
+      // Restore context state
+      ctx.restore();
+    };
 
-  }, [gameState, settings, canvasSize]);
+    draw(store.get());
+    return store.subscribe(draw);
+  }, [store, settings, canvasSize]);
 
   return (
     <div ref={containerRef} className="w-full h-full">
@@ -1,5 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { GameState } from '@/types/game';
+import React from 'react';
+import { GameState, WeaponType } from '@/types/game';
+import { STAGES } from '@/engine/stages';
+import { MAX_WEAPON_LEVEL, WEAPON_ORDER, weaponLevel } from '@/engine/weapons';
+
+const WEAPON_CONFIG: Record<WeaponType, { bg: string; name: string; icon: string }> = {
+  normal: { bg: '#4488ff', name: 'NORMAL', icon: '•' },
+  spread: { bg: '#ffff00', name: 'SPREAD', icon: '⟨⟩' },
+  laser: { bg: '#00ffcc', name: 'LASER', icon: '═' },
+  missile: { bg: '#ff4400', name: 'MISSILE', icon: '◈' }
+};
 
 interface GameHUDProps {
   gameState: GameState;
@@ -14,25 +23,13 @@ interface GameHUDProps {
     height: number;
   };
   safeAreaEnabled?: boolean;
+  gamepadConnected?: boolean;
 }
 
-export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause, onRestart, gameAreaDimensions, safeAreaEnabled = true }) => {
+export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause, onRestart, gameAreaDimensions, safeAreaEnabled = true, gamepadConnected = false }) => {
   const healthPercent = (gameState.spaceship.health / gameState.spaceship.maxHealth) * 100;
-  const [elapsedTime, setElapsedTime] = useState(0);
-  
-  // Update elapsed time
-  useEffect(() => {
-    if (!gameState.isPlaying || gameState.isPaused || gameState.gameOver || gameState.startTime === 0) {
-      return;
-    }
-    
-    const interval = setInterval(() => {
-      const elapsed = Math.floor((Date.now() - gameState.startTime) / 1000);
-      setElapsedTime(elapsed);
-    }, 1000);
-    
-    return () => clearInterval(interval);
-  }, [gameState.isPlaying, gameState.isPaused, gameState.gameOver, gameState.startTime]);
+  // Elapsed run time on the simulation clock, so pauses don't count
+  const elapsedTime = Math.floor((gameState.time - gameState.startTime) / 1000);
   
   // Format time as MM:SS
   const formatTime = (seconds: number) => {
@@ -62,7 +59,7 @@ export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause
             SCORE: {gameState.score.toLocaleString()}
           </div>
           <div className="pixel-text text-neon-cyan">
-            LVL: {gameState.level}
+            {gameState.stage ? `STAGE ${gameState.stage.index + 1}: ${STAGES[gameState.stage.index].name}` : `LVL: ${gameState.level}`}
           </div>
           <div className="pixel-text text-neon-green">
             LIVES: {gameState.lives}
@@ -85,7 +82,12 @@ export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause
           )}
         </div>
         
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          {gamepadConnected && (
+            <div className="pixel-text text-xs sm:text-sm text-neon-green" title="Controller connected">
+              🎮
+            </div>
+          )}
           <button 
             onClick={onPause}
             className="arcade-button text-xs sm:text-sm px-2 sm:px-4 py-1 sm:py-2"
@@ -103,83 +105,63 @@ export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause
 
       {/* Status Bars */}
       <div className="flex flex-wrap gap-2 sm:gap-4">
-        {/* Active Weapon */}
-        {(() => {
-          const weaponPowerUp = gameState.activePowerUps.find(p => 
-            p.type === 'spread' || p.type === 'laser' || p.type === 'missile'
-          );
-          const weaponConfig = {
-            spread: { bg: '#ffff00', name: 'SPREAD', icon: '⟨⟩' },
-            laser: { bg: '#00ffcc', name: 'LASER', icon: '═' },
-            missile: { bg: '#ff4400', name: 'MISSILE', icon: '◈' },
-            normal: { bg: '#4488ff', name: 'NORMAL', icon: '•' }
-          };
-          const activeWeapon = weaponPowerUp?.type as 'spread' | 'laser' | 'missile' | undefined;
-          const config = activeWeapon ? weaponConfig[activeWeapon] : weaponConfig.normal;
-          const remaining = weaponPowerUp ? Math.ceil((weaponPowerUp.expiresAt - Date.now()) / 1000) : null;
-          
-          return (
-            <div className="hud-panel p-1 sm:p-2">
-              <div className="pixel-text text-[10px] sm:text-xs text-neon-purple mb-1">WEAPON</div>
-              <div 
-                className="flex items-center gap-2 px-2 py-1 rounded"
-                style={{ 
-                  backgroundColor: 'rgba(0,0,0,0.5)',
-                  border: `2px solid ${config.bg}`,
-                  boxShadow: `0 0 8px ${config.bg}40, inset 0 0 8px ${config.bg}20`
-                }}
-              >
-                <span 
-                  className="pixel-text text-sm sm:text-base font-bold"
-                  style={{ color: config.bg, textShadow: `0 0 6px ${config.bg}` }}
-                >
-                  {config.icon}
-                </span>
-                <span 
-                  className="pixel-text text-xs sm:text-sm font-bold"
-                  style={{ color: config.bg }}
+        {/* Weapon loadout - the one in hand lit up, levels as pips */}
+        <div className="hud-panel p-1 sm:p-2">
+          <div className="pixel-text text-[10px] sm:text-xs text-neon-purple mb-1">WEAPONS</div>
+          <div className="flex gap-1">
+            {WEAPON_ORDER.map(weapon => {
+              const config = WEAPON_CONFIG[weapon];
+              const level = weaponLevel(gameState.weapons, weapon);
+              const selected = gameState.weapons.selected === weapon;
+
+              return (
+                <div
+                  key={weapon}
+                  className="flex flex-col items-center gap-0.5 px-1 sm:px-2 py-0.5 rounded"
+                  style={{
+                    opacity: level > 0 ? 1 : 0.3,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    border: `${selected ? 2 : 1}px solid ${selected ? config.bg : `${config.bg}40`}`,
+                    boxShadow: selected ? `0 0 8px ${config.bg}40, inset 0 0 8px ${config.bg}20` : 'none'
+                  }}
                 >
-                  {config.name}
-                </span>
-                {remaining !== null && (
                   <div className="flex items-center gap-1">
-                    <div 
-                      className="w-12 sm:w-16 h-2 bg-space-black rounded-full overflow-hidden"
-                      style={{ border: `1px solid ${config.bg}40` }}
+                    <span
+                      className="pixel-text text-xs sm:text-sm font-bold"
+                      style={{ color: config.bg, textShadow: selected ? `0 0 6px ${config.bg}` : 'none' }}
                     >
-                      <div 
-                        className="h-full transition-all duration-200"
-                        style={{ 
-                          width: `${Math.min(100, (remaining / 15) * 100)}%`,
-                          backgroundColor: config.bg,
-                          boxShadow: `0 0 4px ${config.bg}`
-                        }}
-                      />
-                    </div>
-                    <span 
-                      className="pixel-text text-[10px] sm:text-xs"
-                      style={{ color: config.bg }}
-                    >
-                      {remaining}s
+                      {config.icon}
                     </span>
+                    {selected && (
+                      <span className="pixel-text text-[10px] sm:text-xs font-bold" style={{ color: config.bg }}>
+                        {config.name}
+                      </span>
+                    )}
                   </div>
-                )}
-              </div>
-            </div>
-          );
-        })()}
+                  {weapon !== 'normal' && (
+                    <div className="flex gap-0.5">
+                      {Array.from({ length: MAX_WEAPON_LEVEL }, (_, i) => (
+                        <div
+                          key={i}
+                          className="w-1 h-1 sm:w-1.5 sm:h-1.5"
+                          style={{ backgroundColor: i < level ? config.bg : `${config.bg}30` }}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
 
-        {/* Active Power-Ups (non-weapon) */}
-        {gameState.activePowerUps.filter(p => 
-          p.type !== 'spread' && p.type !== 'laser' && p.type !== 'missile'
-        ).length > 0 && (
+        {/* Active Power-Ups */}
+        {gameState.activePowerUps.length > 0 && (
           <div className="hud-panel p-1 sm:p-2">
             <div className="pixel-text text-[10px] sm:text-xs text-neon-yellow mb-1">POWER-UPS</div>
             <div className="flex gap-1">
-              {gameState.activePowerUps
-                .filter(p => p.type !== 'spread' && p.type !== 'laser' && p.type !== 'missile')
-                .map((powerUp, index) => {
-                const remaining = Math.ceil((powerUp.expiresAt - Date.now()) / 1000);
+              {gameState.activePowerUps.map((powerUp, index) => {
+                const remaining = Math.ceil((powerUp.expiresAt - gameState.time) / 1000);
                 const colors: Record<string, { bg: string; text: string }> = {
                   speed: { bg: '#00ffff', text: 'S' },
                   fireRate: { bg: '#ff6600', text: 'F' },
@@ -214,6 +196,46 @@ export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause
           </div>
         )}
         
+        {/* Shield Meter - while the shield power-up lasts */}
+        {gameState.shield && (() => {
+          const { points, maxPoints, broken } = gameState.shield;
+          const shieldPercent = (points / maxPoints) * 100;
+          return (
+            <div className="hud-panel p-1 sm:p-2">
+              <div className={`pixel-text text-[10px] sm:text-xs mb-1 ${broken ? 'text-danger-red danger-pulse' : 'text-neon-green'}`}>
+                {broken ? 'SHIELD DOWN' : 'SHIELD'}
+              </div>
+              <div className="w-20 sm:w-32 h-3 sm:h-4 border-2 border-neon-green bg-space-black">
+                <div 
+                  className="h-full transition-all duration-300"
+                  style={{
+                    width: `${shieldPercent}%`,
+                    background: broken ? '#00ff0050' : '#00ffaa'
+                  }}
+                />
+              </div>
+            </div>
+          );
+        })()}
+
+        {/* Charge Meter - while fire is held past its delay */}
+        {gameState.trigger.charge > 0 && (
+          <div className="hud-panel p-1 sm:p-2">
+            <div className={`pixel-text text-[10px] sm:text-xs mb-1 text-neon-cyan ${gameState.trigger.charge >= 1 ? 'danger-pulse' : ''}`}>
+              {gameState.trigger.charge >= 1 ? 'CHARGE MAX' : 'CHARGE'}
+            </div>
+            <div className="w-20 sm:w-32 h-3 sm:h-4 border-2 border-neon-cyan bg-space-black">
+              <div
+                className="h-full"
+                style={{
+                  width: `${gameState.trigger.charge * 100}%`,
+                  background: gameState.trigger.charge >= 1 ? '#ffffff' : '#66ccff'
+                }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Health Bar */}
         <div className="hud-panel p-1 sm:p-2">
           <div className="pixel-text text-[10px] sm:text-xs text-health-bar mb-1">HEALTH</div>
@@ -257,7 +279,7 @@ export const GameHUD: React.FC<GameHUDProps> = ({ gameState, playerName, onPause
               FINAL SCORE: {gameState.score.toLocaleString()}
             </div>
             <div className="pixel-text text-base sm:text-lg text-neon-cyan mb-4 sm:mb-6">
-              LEVEL REACHED: {gameState.level}
+              {gameState.stage ? `STAGE ${gameState.stage.index + 1}: ${STAGES[gameState.stage.index].name}` : `LEVEL REACHED: ${gameState.level}`}
             </div>
             <button 
               onClick={onRestart}
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { GameAction, KeyBindings, KeyBindingPreset, KEY_BINDING_PRESETS } from '@/types/game';
+import { GAME_ACTIONS, formatKey, findBindingConflict } from '@/hooks/useKeyBindings';
+
+interface KeyBindingsPanelProps {
+  keyBindings: KeyBindings;
+  onChange: (keyBindings: KeyBindings) => void;
+  onBack: () => void;
+}
+
+const PRESETS: { preset: KeyBindingPreset; label: string }[] = [
+  { preset: 'classic', label: 'CLASSIC' },
+  { preset: 'wasd', label: 'WASD + J/K' },
+  { preset: 'arrows', label: 'ARROWS + Z/X' },
+];
+
+const actionLabel = (action: GameAction) => GAME_ACTIONS.find(a => a.action === action)?.label ?? action;
+
+export const KeyBindingsPanel: React.FC<KeyBindingsPanelProps> = ({ keyBindings, onChange, onBack }) => {
+  // Slot waiting for a key press: 0 = primary, 1 = alternate
+  const [capturing, setCapturing] = useState<{ action: GameAction; slot: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Swallow the press so it doesn't also trigger whatever it's currently bound to
+      e.preventDefault();
+      e.stopPropagation();
+      setCapturing(null);
+
+      const conflict = findBindingConflict(keyBindings, e.code, capturing.action);
+      if (conflict) {
+        setMessage(`${formatKey(e.code)} IS ALREADY BOUND TO ${actionLabel(conflict)}`);
+        return;
+      }
+
+      const keys = [...keyBindings[capturing.action]];
+      keys[capturing.slot] = e.code;
+      onChange({ ...keyBindings, [capturing.action]: Array.from(new Set(keys.filter(Boolean))) });
+      setMessage(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, keyBindings, onChange]);
+
+  const clearAlternate = (action: GameAction) => {
+    onChange({ ...keyBindings, [action]: keyBindings[action].slice(0, 1) });
+  };
+
+  const renderSlot = (action: GameAction, slot: number) => {
+    const code = keyBindings[action][slot];
+    const isCapturing = capturing?.action === action && capturing.slot === slot;
+    // Highlight keys that ended up on two actions (e.g. hand-edited storage)
+    const hasConflict = !!code && findBindingConflict(keyBindings, code, action) !== null;
+
+    return (
+      <button
+        onClick={() => {
+          setMessage(null);
+          setCapturing({ action, slot });
+        }}
+        className={`arcade-button text-xs sm:text-sm px-2 py-1 w-28 ${
+          isCapturing
+            ? 'border-neon-yellow text-neon-yellow animate-pulse'
+            : hasConflict
+              ? 'border-neon-red text-neon-red'
+              : 'border-neon-cyan text-neon-cyan'
+        }`}
+      >
+        {isCapturing ? 'PRESS KEY' : code ? formatKey(code) : '—'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="hud-panel max-w-2xl w-full mx-4 relative z-10">
+      <div className="pixel-text text-4xl text-center color-splash mb-6">
+        CONTROLS
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-6">
+        {PRESETS.map(({ preset, label }) => (
+          <button
+            key={preset}
+            onClick={() => {
+              setCapturing(null);
+              setMessage(null);
+              onChange(KEY_BINDING_PRESETS[preset]);
+            }}
+            className="arcade-button text-xs sm:text-sm px-3 py-2 border-neon-purple text-neon-purple hover:bg-neon-purple hover:text-black"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {GAME_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center justify-between gap-2 border-2 border-hud-border p-2">
+            <div className="pixel-text text-sm sm:text-base text-foreground">{label}</div>
+            <div className="flex items-center gap-2">
+              {renderSlot(action, 0)}
+              {renderSlot(action, 1)}
+              <button
+                onClick={() => clearAlternate(action)}
+                disabled={keyBindings[action].length < 2}
+                className="arcade-button text-xs px-2 py-1 disabled:opacity-30"
+                title="Clear alternate key"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="pixel-text text-xs text-center mt-4 min-h-4 text-neon-red">
+        {message ?? (capturing ? 'PRESS A KEY TO BIND IT' : '')}
+      </div>
+
+      <div className="mt-4 text-center">
+        <button onClick={onBack} className="arcade-button">
+          BACK TO MENU
+        </button>
+      </div>
+    </div>
+  );
+};
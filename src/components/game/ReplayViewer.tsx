@@ -0,0 +1,138 @@
+import React, { useEffect } from 'react';
+import { GameSettings, Replay } from '@/types/game';
+import { TICK_MS } from '@/engine/simulation';
+import { STAGES } from '@/engine/stages';
+import { useReplayPlayer, ReplaySpeed } from '@/hooks/useReplayPlayer';
+import { GameCanvas } from './GameCanvas';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  settings: GameSettings;
+  onExit: () => void;
+}
+
+const SPEEDS: ReplaySpeed[] = [1, 2, 4];
+
+// Format ticks as MM:SS
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor((ticks * TICK_MS) / 1000);
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, settings, onExit }) => {
+  const {
+    gameState,
+    store,
+    tick,
+    totalTicks,
+    isPaused,
+    isFinished,
+    speed,
+    setSpeed,
+    togglePause,
+    stepFrame,
+    seek,
+    restart,
+  } = useReplayPlayer(replay);
+
+  // Keyboard controls: SPACE play/pause, arrows frame-step, ESC exit
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        if (isFinished) {
+          restart();
+        } else {
+          togglePause();
+        }
+      } else if (e.code === 'ArrowRight') {
+        stepFrame(1);
+      } else if (e.code === 'ArrowLeft') {
+        stepFrame(-1);
+      } else if (e.code === 'Escape') {
+        onExit();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isFinished, restart, togglePause, stepFrame, onExit]);
+
+  return (
+    <div className="relative w-full h-[100dvh] bg-background overflow-hidden flex flex-col touch-none">
+      <div className="starfield" />
+
+      <div className="flex-1 flex items-center justify-center w-full h-full p-0">
+        <GameCanvas store={store} settings={settings} />
+      </div>
+
+      {/* Run info */}
+      <div className="absolute top-2 left-2 right-2 z-10 hud-panel flex flex-wrap justify-between items-center gap-2 p-2 sm:p-3">
+        <div className="flex flex-wrap gap-2 sm:gap-4 text-xs sm:text-sm">
+          <div className="pixel-text text-neon-red animate-pulse">● REPLAY</div>
+          <div className="pixel-text text-score-text">
+            SCORE: {gameState.score.toLocaleString()}
+          </div>
+          <div className="pixel-text text-neon-cyan">
+            {gameState.stage ? `STAGE ${gameState.stage.index + 1}: ${STAGES[gameState.stage.index].name}` : `LVL: ${gameState.level}`}
+          </div>
+          <div className="pixel-text text-neon-green">
+            LIVES: {gameState.lives}
+          </div>
+        </div>
+        <button onClick={onExit} className="arcade-button text-xs sm:text-sm px-2 sm:px-4 py-1 sm:py-2">
+          EXIT
+        </button>
+      </div>
+
+      {/* Playback controls */}
+      <div className="absolute bottom-2 left-2 right-2 z-10 hud-panel p-2 sm:p-3 space-y-2">
+        <div className="flex items-center gap-2 sm:gap-4">
+          <div className="pixel-text text-[10px] sm:text-xs text-neon-yellow w-12">
+            {formatTicks(tick)}
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={totalTicks}
+            value={tick}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="flex-1 accent-[hsl(var(--neon-cyan))]"
+            aria-label="Replay position"
+          />
+          <div className="pixel-text text-[10px] sm:text-xs text-muted-foreground w-12 text-right">
+            {formatTicks(totalTicks)}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-2">
+          <button onClick={() => stepFrame(-1)} className="arcade-button text-xs px-2 py-1" title="Previous frame">
+            ◀|
+          </button>
+          <button
+            onClick={isFinished ? restart : togglePause}
+            className="arcade-button text-xs px-4 py-1 border-neon-green text-neon-green"
+          >
+            {isFinished ? 'REPLAY' : isPaused ? 'PLAY' : 'PAUSE'}
+          </button>
+          <button onClick={() => stepFrame(1)} className="arcade-button text-xs px-2 py-1" title="Next frame">
+            |▶
+          </button>
+          {SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`arcade-button text-xs px-2 py-1 ${
+                speed === option ? 'bg-neon-yellow text-black border-neon-yellow' : ''
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { GameState } from '@/types/game';
+import { STAGES } from '@/engine/stages';
+
+interface StageResultsProps {
+  gameState: GameState;
+  previousBest: number; // Best score on this stage before this run, 0 if never cleared
+  onNextStage?: () => void; // Missing after the last stage
+  onRetry: () => void;
+  onMenu: () => void;
+  onDownloadReplay?: () => void;
+}
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Results card shown once a campaign stage's end boss is down
+export const StageResults: React.FC<StageResultsProps> = ({ gameState, previousBest, onNextStage, onRetry, onMenu, onDownloadReplay }) => {
+  const stage = gameState.stage!;
+  const { name } = STAGES[stage.index];
+  const clearTime = (stage.clearedAt ?? gameState.time) - gameState.startTime;
+  const hullPercent = Math.round((gameState.spaceship.health / gameState.spaceship.maxHealth) * 100);
+  const isNewBest = gameState.score > previousBest;
+
+  const stats = [
+    { label: 'SCORE', value: gameState.score.toLocaleString(), color: 'text-score-text' },
+    { label: 'KILLS', value: stage.kills.toString(), color: 'text-neon-red' },
+    { label: 'CLEAR TIME', value: formatTime(clearTime), color: 'text-neon-yellow' },
+    { label: 'LIVES LEFT', value: gameState.lives.toString(), color: 'text-neon-green' },
+    { label: 'HULL', value: `${hullPercent}%`, color: 'text-neon-cyan' },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-space-black bg-opacity-80 flex items-center justify-center z-50 p-4">
+      <div className="hud-panel text-center p-4 sm:p-8 max-w-sm sm:max-w-md w-full mx-auto">
+        <div className="pixel-text text-2xl sm:text-4xl text-neon-green mb-1 sm:mb-2"
+             style={{ textShadow: '0 0 20px hsl(var(--neon-green))' }}>
+          STAGE CLEAR!
+        </div>
+        <div className="pixel-text text-sm sm:text-lg text-neon-cyan mb-4 sm:mb-6">
+          STAGE {stage.index + 1} - {name}
+        </div>
+
+        <div className="space-y-1 sm:space-y-2 mb-4 sm:mb-6">
+          {stats.map(({ label, value, color }) => (
+            <div key={label} className="flex justify-between pixel-text text-sm sm:text-base">
+              <span className="text-muted-foreground">{label}</span>
+              <span className={color}>{value}</span>
+            </div>
+          ))}
+        </div>
+
+        {isNewBest && (
+          <div className="pixel-text text-base sm:text-lg text-neon-yellow mb-4 animate-pulse">
+            ★ NEW STAGE BEST ★
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          {onNextStage ? (
+            <button onClick={onNextStage} className="arcade-button text-sm sm:text-base px-6 py-2 border-neon-green text-neon-green">
+              NEXT STAGE ▶
+            </button>
+          ) : (
+            <div className="pixel-text text-sm sm:text-base text-neon-purple mb-2">
+              CAMPAIGN COMPLETE!
+            </div>
+          )}
+          <div className="flex gap-2 justify-center">
+            <button onClick={onRetry} className="arcade-button text-xs sm:text-sm px-4 py-2">
+              RETRY
+            </button>
+            {onDownloadReplay && (
+              <button onClick={onDownloadReplay} className="arcade-button text-xs sm:text-sm px-4 py-2">
+                REPLAY ⬇
+              </button>
+            )}
+            <button onClick={onMenu} className="arcade-button text-xs sm:text-sm px-4 py-2">
+              MENU
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
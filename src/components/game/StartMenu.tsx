@@ -1,8 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { LeaderboardEntry, SaveData, Difficulty } from '@/types/game';
+import { LeaderboardEntry, SaveData, Difficulty, Replay, TouchControlSettings, KeyBindings, GameMode, CampaignProgress, GAME_VERSION } from '@/types/game';
+import { parseReplayFile } from '@/engine/replayFile';
+import { STAGES } from '@/engine/stages';
+import { useGamepadActions, GamepadAction } from '@/hooks/useGamepad';
+import { formatBinding, formatMovement } from '@/hooks/useKeyBindings';
 import { Volume2, VolumeX, Music } from 'lucide-react'
 import { WarpStarfield } from './WarpStarfield';
+import { KeyBindingsPanel } from './KeyBindingsPanel';
 
 const getCountryFlag = (countryCode: string): string => {
   const codePoints = countryCode
@@ -13,19 +18,42 @@ const getCountryFlag = (countryCode: string): string => {
 };
 
 interface StartMenuProps {
-  onStartGame: () => void;
+  onStartGame: (startLevel: number) => void;
+  onStartStage: (stage: number) => void;
   onLoadGame?: () => void;
+  onWatchReplay?: (replayId: string) => void;
+  onOpenReplay?: (replay: Replay) => void;
   hasSavedGame: boolean;
+  bestLevel: number; // Highest level reached - start levels up to it are unlocked
+  campaign: CampaignProgress; // Stages up to the first uncleared one are unlocked
   safeAreaEnabled: boolean;
   onSafeAreaToggle: (enabled: boolean) => void;
+  workerSimulation: boolean; // Run the simulation on a worker thread
+  onWorkerSimulationToggle: (enabled: boolean) => void;
   difficulty: Difficulty;
   onDifficultyChange: (difficulty: Difficulty) => void;
   musicEnabled: boolean;
   onMusicToggle: (enabled: boolean) => void;
   soundEnabled: boolean;
   onSoundToggle: (enabled: boolean) => void;
+  touchControls?: TouchControlSettings; // Only passed on touch devices
+  onTouchControlsChange?: (controls: TouchControlSettings) => void;
+  keyBindings: KeyBindings;
+  onKeyBindingsChange: (keyBindings: KeyBindings) => void;
 }
 
+const TOUCH_OPACITIES = [0.4, 0.6, 0.8, 1];
+const TOUCH_SIZES: { scale: number; label: string }[] = [
+  { scale: 0.8, label: 'S' },
+  { scale: 1, label: 'M' },
+  { scale: 1.25, label: 'L' },
+];
+
+// Next option after `current`, wrapping around
+const cycle = <T,>(options: T[], current: T): T => {
+  return options[(options.indexOf(current) + 1) % options.length];
+};
+
 const DIFFICULTY_CONFIG: Record<Difficulty, { label: string; color: string; description: string }> = {
   easy: { label: 'EASY', color: 'neon-green', description: '1.5x Health • Slower Spawns' },
   normal: { label: 'NORMAL', color: 'neon-yellow', description: 'Balanced Experience' },
@@ -34,21 +62,48 @@ const DIFFICULTY_CONFIG: Record<Difficulty, { label: string; color: string; desc
 
 export const StartMenu: React.FC<StartMenuProps> = ({ 
   onStartGame, 
+  onStartStage,
   onLoadGame, 
+  onWatchReplay,
+  onOpenReplay,
   hasSavedGame,
+  bestLevel,
+  campaign,
   safeAreaEnabled,
   onSafeAreaToggle,
+  workerSimulation,
+  onWorkerSimulationToggle,
   difficulty,
   onDifficultyChange,
   musicEnabled,
   onMusicToggle,
   soundEnabled,
-  onSoundToggle
+  onSoundToggle,
+  touchControls,
+  onTouchControlsChange,
+  keyBindings,
+  onKeyBindingsChange
 }) => {
   const [showLeaderboard, setShowLeaderboard] = useState(false);
   const [showHowToPlay, setShowHowToPlay] = useState(false);
+  const [showControls, setShowControls] = useState(false);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [replayIds, setReplayIds] = useState<Set<string>>(new Set());
   const [selectedLevel, setSelectedLevel] = useState(1);
+  // Never start past the unlocked levels, even if the selection was made before a reset
+  const startLevel = Math.min(selectedLevel, bestLevel);
+  const [mode, setMode] = useState<GameMode>('endless');
+  const [selectedStage, setSelectedStage] = useState(0);
+  const lastUnlockedStage = Math.min(campaign.stagesCleared, STAGES.length - 1);
+  const startStage = Math.min(selectedStage, lastUnlockedStage);
+
+  const handleStart = () => {
+    if (mode === 'campaign') {
+      onStartStage(startStage);
+    } else {
+      onStartGame(startLevel);
+    }
+  };
 
   useEffect(() => {
     // Load leaderboard from localStorage
@@ -56,8 +111,70 @@ export const StartMenu: React.FC<StartMenuProps> = ({
     if (savedLeaderboard) {
       setLeaderboard(JSON.parse(savedLeaderboard));
     }
+
+    // Only offer WATCH for replays that actually made it into storage
+    const savedReplays = localStorage.getItem('spaceship-replays');
+    if (savedReplays) {
+      setReplayIds(new Set(Object.keys(JSON.parse(savedReplays))));
+    }
   }, []);
 
+  // Gamepad menu navigation: d-pad/stick moves focus through the buttons, A presses, B backs out, Start plays
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useGamepadActions((action: GamepadAction) => {
+    const menu = menuRef.current;
+    if (!menu) return;
+
+    const focusables = Array.from(menu.querySelectorAll<HTMLElement>('button:not([disabled]), a[href]'));
+    const index = focusables.indexOf(document.activeElement as HTMLElement);
+
+    if (action === 'up' || action === 'left') {
+      focusables[index <= 0 ? focusables.length - 1 : index - 1]?.focus();
+    } else if (action === 'down' || action === 'right') {
+      focusables[(index + 1) % focusables.length]?.focus();
+    } else if (action === 'confirm') {
+      if (index >= 0) {
+        focusables[index].click();
+      } else {
+        focusables[0]?.focus();
+      }
+    } else if (action === 'back') {
+      setShowLeaderboard(false);
+      setShowHowToPlay(false);
+      setShowControls(false);
+    } else if (action === 'start' && !showLeaderboard && !showHowToPlay && !showControls) {
+      handleStart();
+    }
+  });
+
+  // Replay files shared by other players can be dropped anywhere on the menu
+  const [isDraggingReplay, setIsDraggingReplay] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const handleReplayDragOver = (e: React.DragEvent) => {
+    if (!onOpenReplay || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingReplay(true);
+  };
+
+  const handleReplayDrop = async (e: React.DragEvent) => {
+    if (!onOpenReplay) return;
+    e.preventDefault();
+    setIsDraggingReplay(false);
+
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+
+    const result = parseReplayFile(await file.text(), `file-${Date.now()}`);
+    if ('replay' in result) {
+      setReplayError(null);
+      onOpenReplay(result.replay);
+    } else {
+      setReplayError(result.error);
+    }
+  };
+
   const handleLevelSelect = (level: number) => {
     setSelectedLevel(level);
   };
@@ -87,7 +204,7 @@ export const StartMenu: React.FC<StartMenuProps> = ({
 
   if (showLeaderboard) {
     return (
-      <div className="fixed inset-0 bg-background flex items-center justify-center z-50">
+      <div ref={menuRef} className="fixed inset-0 bg-background flex items-center justify-center z-50">
         <WarpStarfield />
         <div className="aurora">
           <div className="aurora-layer-1" />
@@ -123,13 +240,28 @@ export const StartMenu: React.FC<StartMenuProps> = ({
                       {entry.name}
                     </div>
                   </div>
-                  <div className="text-right">
-                    <div className="pixel-text text-lg text-score-text">
-                      {entry.score.toLocaleString()}
-                    </div>
-                    <div className="pixel-text text-sm text-neon-cyan">
-                      Level {entry.level}
+                  <div className="flex items-center gap-3">
+                    <div className="text-right">
+                      <div className="pixel-text text-lg text-score-text">
+                        {entry.score.toLocaleString()}
+                      </div>
+                      <div className="pixel-text text-sm text-neon-cyan">
+                        Level {entry.level}
+                      </div>
+                      {entry.startLevel && (
+                        <div className="pixel-text text-xs text-neon-orange" title={`Started on level ${entry.startLevel}`}>
+                          ▶ FROM LV {entry.startLevel}
+                        </div>
+                      )}
                     </div>
+                    {onWatchReplay && entry.replayId && replayIds.has(entry.replayId) && (
+                      <button
+                        onClick={() => onWatchReplay(entry.replayId!)}
+                        className="arcade-button text-xs px-2 py-1"
+                      >
+                        WATCH
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
@@ -153,9 +285,28 @@ export const StartMenu: React.FC<StartMenuProps> = ({
     );
   }
 
+  if (showControls) {
+    return (
+      <div ref={menuRef} className="fixed inset-0 bg-background flex items-center justify-center z-50">
+        <WarpStarfield />
+        <div className="aurora">
+          <div className="aurora-layer-1" />
+          <div className="aurora-layer-2" />
+          <div className="aurora-layer-3" />
+        </div>
+        {renderAnimatedSpaceships()}
+        <KeyBindingsPanel
+          keyBindings={keyBindings}
+          onChange={onKeyBindingsChange}
+          onBack={() => setShowControls(false)}
+        />
+      </div>
+    );
+  }
+
   if (showHowToPlay) {
     return (
-      <div className="fixed inset-0 bg-background flex items-center justify-center z-50">
+      <div ref={menuRef} className="fixed inset-0 bg-background flex items-center justify-center z-50">
         <WarpStarfield />
         <div className="aurora">
           <div className="aurora-layer-1" />
@@ -172,10 +323,12 @@ export const StartMenu: React.FC<StartMenuProps> = ({
             <div className="border-2 border-neon-cyan p-4">
               <div className="pixel-text text-xl text-neon-cyan mb-4">CONTROLS:</div>
               <div className="pixel-text text-sm text-foreground space-y-2">
-                <div>↑↓←→ or WASD - Move Spaceship</div>
-                <div>SPACE - Shoot Bullets</div>
-                <div>B - Drop Bombs</div>
-                <div>P - Pause Game</div>
+                <div>{formatMovement(keyBindings)} - Move Spaceship</div>
+                <div>{formatBinding(keyBindings, 'fire')} - Shoot Bullets</div>
+                <div>Hold {formatBinding(keyBindings, 'fire')} - Charge a Piercing Blast</div>
+                <div>{formatBinding(keyBindings, 'bomb')} - Drop Bombs</div>
+                <div>{formatBinding(keyBindings, 'cycleWeapon')} - Switch Weapon</div>
+                <div>{formatBinding(keyBindings, 'pause')} - Pause Game</div>
               </div>
             </div>
             <div className="border-2 border-neon-purple p-4">
@@ -219,8 +372,21 @@ export const StartMenu: React.FC<StartMenuProps> = ({
   }
 
   return (
-    <div className="fixed inset-0 bg-background flex items-center justify-center z-50 overflow-hidden">
+    <div
+      ref={menuRef}
+      className="fixed inset-0 bg-background flex items-center justify-center z-50 overflow-hidden"
+      onDragOver={handleReplayDragOver}
+      onDragLeave={() => setIsDraggingReplay(false)}
+      onDrop={handleReplayDrop}
+    >
       <WarpStarfield />
+      {isDraggingReplay && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/70 pointer-events-none">
+          <div className="hud-panel pixel-text text-2xl text-neon-cyan px-8 py-6">
+            DROP REPLAY TO WATCH
+          </div>
+        </div>
+      )}
       <div className="aurora">
         <div className="aurora-layer-1" />
         <div className="aurora-layer-2" />
@@ -261,6 +427,14 @@ export const StartMenu: React.FC<StartMenuProps> = ({
            }} />
       
       <div className="relative z-10 text-center w-full max-w-xl mx-auto px-4">
+        {replayError && (
+          <div className="hud-panel mb-4 p-2 flex items-center justify-between gap-2">
+            <div className="pixel-text text-xs sm:text-sm text-neon-red">{replayError}</div>
+            <button onClick={() => setReplayError(null)} className="arcade-button text-xs px-2 py-1">
+              OK
+            </button>
+          </div>
+        )}
         {/* Massive 80s Game Title with crazy effects */}
         <div className="mb-4 sm:mb-6 animate-pulse">
           <div 
@@ -309,7 +483,7 @@ export const StartMenu: React.FC<StartMenuProps> = ({
             <div className="space-y-2 sm:space-y-3 md:space-y-4">
               {/* HUGE START BUTTON */}
               <button
-                onClick={onStartGame}
+                onClick={handleStart}
                 className="arcade-button text-xl sm:text-2xl md:text-3xl w-full py-3 sm:py-4 md:py-5 border-3 sm:border-4 md:border-5 border-neon-yellow hover:bg-neon-yellow font-black tracking-widest transform hover:scale-105 transition-all duration-200"
                 style={{
                   boxShadow: '0 0 30px hsl(var(--neon-yellow)), inset 0 0 15px rgba(255,255,0,0.2)',
@@ -346,29 +520,82 @@ export const StartMenu: React.FC<StartMenuProps> = ({
                 ★★ HIGH SCORES ★★
               </button>
 
-              {/* Level Dropdown - 80s style */}
+              {/* Mode Selector - 80s style */}
+              <div className="grid grid-cols-2 gap-2 pt-1 sm:pt-2">
+                {(['endless', 'campaign'] as GameMode[]).map((option) => {
+                  const isSelected = mode === option;
+                  return (
+                    <button
+                      key={option}
+                      onClick={() => setMode(option)}
+                      className={`arcade-button text-sm sm:text-base py-2 sm:py-3 border-2 sm:border-3 font-black tracking-wider transition-all ${
+                        isSelected 
+                          ? 'border-neon-purple bg-neon-purple text-black' 
+                          : 'border-neon-purple text-neon-purple hover:bg-neon-purple hover:text-black'
+                      }`}
+                      style={{
+                        boxShadow: isSelected 
+                          ? '0 0 25px hsl(var(--neon-purple)), inset 0 0 10px rgba(0,0,0,0.3)' 
+                          : '0 0 10px hsl(var(--neon-purple))',
+                        textShadow: isSelected ? 'none' : '0 0 8px hsl(var(--neon-purple))'
+                      }}
+                    >
+                      {option.toUpperCase()}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Level / Stage Dropdown - 80s style */}
               <div className="pt-1 sm:pt-2">
                 <label className="pixel-text text-base sm:text-lg md:text-xl text-neon-purple block mb-1 sm:mb-2 font-black tracking-wider"
                        style={{
                          textShadow: '0 0 15px hsl(var(--neon-purple)), 1px 1px 0 black'
                        }}>
-                  ⚙ STARTING LEVEL ⚙
+                  {mode === 'campaign' ? '⚙ STAGE ⚙' : '⚙ STARTING LEVEL ⚙'}
                 </label>
-                <select
-                  value={selectedLevel}
-                  onChange={(e) => setSelectedLevel(Number(e.target.value))}
-                  className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-background border-3 sm:border-4 border-neon-purple text-neon-purple pixel-text text-base sm:text-lg md:text-xl hover:bg-neon-purple hover:text-black transition-all cursor-pointer font-black"
-                  style={{
-                    boxShadow: '0 0 20px hsl(var(--neon-purple)), inset 0 0 8px rgba(255,0,255,0.2)',
-                    textShadow: '0 0 8px hsl(var(--neon-purple))'
-                  }}
-                >
-                  {Array.from({ length: 100 }, (_, i) => i + 1).map((level) => (
-                    <option key={level} value={level} className="bg-background text-foreground">
-                      Level {level}
+                {mode === 'campaign' ? (
+                  <select
+                    value={startStage}
+                    onChange={(e) => setSelectedStage(Number(e.target.value))}
+                    className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-background border-3 sm:border-4 border-neon-purple text-neon-purple pixel-text text-base sm:text-lg md:text-xl hover:bg-neon-purple hover:text-black transition-all cursor-pointer font-black"
+                    style={{
+                      boxShadow: '0 0 20px hsl(var(--neon-purple)), inset 0 0 8px rgba(255,0,255,0.2)',
+                      textShadow: '0 0 8px hsl(var(--neon-purple))'
+                    }}
+                  >
+                    {STAGES.map((stage, index) => (
+                      <option
+                        key={stage.name}
+                        value={index}
+                        disabled={index > lastUnlockedStage}
+                        className={`bg-background ${index > lastUnlockedStage ? 'text-muted-foreground' : 'text-foreground'}`}
+                      >
+                        {index > lastUnlockedStage ? '🔒 ' : ''}Stage {index + 1} - {stage.name}
+                        {campaign.bestScores[index] ? ` (best ${campaign.bestScores[index].toLocaleString()})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <select
+                    value={startLevel}
+                    onChange={(e) => handleLevelSelect(Number(e.target.value))}
+                    className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-background border-3 sm:border-4 border-neon-purple text-neon-purple pixel-text text-base sm:text-lg md:text-xl hover:bg-neon-purple hover:text-black transition-all cursor-pointer font-black"
+                    style={{
+                      boxShadow: '0 0 20px hsl(var(--neon-purple)), inset 0 0 8px rgba(255,0,255,0.2)',
+                      textShadow: '0 0 8px hsl(var(--neon-purple))'
+                    }}
+                  >
+                    {Array.from({ length: bestLevel }, (_, i) => i + 1).map((level) => (
+                      <option key={level} value={level} className="bg-background text-foreground">
+                        Level {level}
+                      </option>
+                    ))}
+                    <option disabled className="bg-background text-muted-foreground">
+                      🔒 Level {bestLevel + 1}+ - reach it to unlock
                     </option>
-                  ))}
-                </select>
+                  </select>
+                )}
               </div>
 
               {/* Difficulty Selector - 80s style */}
@@ -425,7 +652,7 @@ export const StartMenu: React.FC<StartMenuProps> = ({
           </div>
         </div>
 
-        {/* Audio Controls & Safe Area Toggle - 80s style */}
+        {/* Audio Controls, Safe Area & Worker Toggles - 80s style */}
         <div className="flex flex-col sm:flex-row justify-center gap-2 sm:gap-3 mb-3 sm:mb-4 flex-wrap">
           <button
             onClick={() => onMusicToggle(!musicEnabled)}
@@ -471,14 +698,69 @@ export const StartMenu: React.FC<StartMenuProps> = ({
           >
             📱 SAFE AREA: {safeAreaEnabled ? 'ON' : 'OFF'}
           </button>
+          <button
+            onClick={() => onWorkerSimulationToggle(!workerSimulation)}
+            className={`arcade-button text-sm sm:text-base px-3 sm:px-4 py-2 border-2 sm:border-3 flex items-center justify-center gap-2 font-black transform hover:scale-105 transition-all ${
+              workerSimulation 
+                ? 'border-neon-orange text-neon-orange hover:bg-neon-orange hover:text-black' 
+                : 'border-muted-foreground text-muted-foreground hover:bg-muted-foreground hover:text-black'
+            }`}
+            style={{
+              boxShadow: workerSimulation ? '0 0 15px hsl(var(--neon-orange))' : '0 0 8px hsl(var(--muted-foreground))',
+              textShadow: workerSimulation ? '0 0 8px hsl(var(--neon-orange))' : 'none'
+            }}
+          >
+            🧵 WORKER SIM: {workerSimulation ? 'ON' : 'OFF'}
+          </button>
+          <button
+            onClick={() => setShowControls(true)}
+            className="arcade-button text-sm sm:text-base px-3 sm:px-4 py-2 border-2 sm:border-3 flex items-center justify-center gap-2 font-black transform hover:scale-105 transition-all border-neon-yellow text-neon-yellow hover:bg-neon-yellow hover:text-black"
+            style={{
+              boxShadow: '0 0 15px hsl(var(--neon-yellow))',
+              textShadow: '0 0 8px hsl(var(--neon-yellow))'
+            }}
+          >
+            ⌨ CONTROLS
+          </button>
         </div>
 
+        {/* Touch control settings */}
+        {touchControls && onTouchControlsChange && (
+          <div className="flex flex-col sm:flex-row justify-center gap-2 sm:gap-3 mb-3 sm:mb-4 flex-wrap">
+            <button
+              onClick={() => onTouchControlsChange({ ...touchControls, autoFire: !touchControls.autoFire })}
+              className={`arcade-button text-sm sm:text-base px-3 sm:px-4 py-2 border-2 sm:border-3 font-black ${
+                touchControls.autoFire
+                  ? 'border-neon-red text-neon-red hover:bg-neon-red hover:text-black'
+                  : 'border-muted-foreground text-muted-foreground hover:bg-muted-foreground hover:text-black'
+              }`}
+            >
+              🕹 AUTO-FIRE: {touchControls.autoFire ? 'ON' : 'OFF'}
+            </button>
+            <button
+              onClick={() => onTouchControlsChange({ ...touchControls, opacity: cycle(TOUCH_OPACITIES, touchControls.opacity) })}
+              className="arcade-button text-sm sm:text-base px-3 sm:px-4 py-2 border-2 sm:border-3 font-black border-neon-cyan text-neon-cyan hover:bg-neon-cyan hover:text-black"
+            >
+              OPACITY: {Math.round(touchControls.opacity * 100)}%
+            </button>
+            <button
+              onClick={() => onTouchControlsChange({
+                ...touchControls,
+                scale: cycle(TOUCH_SIZES.map(size => size.scale), touchControls.scale),
+              })}
+              className="arcade-button text-sm sm:text-base px-3 sm:px-4 py-2 border-2 sm:border-3 font-black border-neon-cyan text-neon-cyan hover:bg-neon-cyan hover:text-black"
+            >
+              SIZE: {TOUCH_SIZES.find(size => size.scale === touchControls.scale)?.label ?? 'M'}
+            </button>
+          </div>
+        )}
+
         {/* Footer Credits with glow */}
         <div className="pixel-text text-xs sm:text-sm text-muted-foreground px-2"
              style={{
                textShadow: '0 0 10px rgba(255,255,255,0.3)'
              }}>
-          Created with ❤️ by AJ Batac (@ajbatac) - <Link to="/changelog" className="text-neon-yellow hover:text-neon-cyan transition-colors" style={{ textShadow: '0 0 10px hsl(var(--neon-yellow))' }}>v1.2.0</Link> (<Link to="/changelog" className="text-neon-cyan hover:text-neon-yellow transition-colors" style={{ textShadow: '0 0 10px hsl(var(--neon-cyan))' }}>changelog</Link>)
+          Created with ❤️ by AJ Batac (@ajbatac) - <Link to="/changelog" className="text-neon-yellow hover:text-neon-cyan transition-colors" style={{ textShadow: '0 0 10px hsl(var(--neon-yellow))' }}>v{GAME_VERSION}</Link> (<Link to="/changelog" className="text-neon-cyan hover:text-neon-yellow transition-colors" style={{ textShadow: '0 0 10px hsl(var(--neon-cyan))' }}>changelog</Link>)
         </div>
       </div>
     </div>
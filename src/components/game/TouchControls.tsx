@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TouchControlSettings } from '@/types/game';
+import { SimInput, IDLE_INPUT } from '@/engine/simulation';
+import { InputSource } from '@/hooks/useGameEngine';
+
+interface TouchControlsProps {
+  settings: TouchControlSettings;
+  safeAreaEnabled: boolean;
+  setInputSource: (name: string, source: InputSource | null) => void;
+}
+
+const JOYSTICK_RADIUS = 60; // px at scale 1
+const JOYSTICK_DEADZONE = 0.15;
+const BUTTON_SIZE = 80; // px at scale 1
+
+type TouchButton = 'fire' | 'bomb' | 'cycleWeapon';
+
+interface JoystickState {
+  base: { x: number; y: number };
+  knob: { x: number; y: number };
+}
+
+// Floating joystick on the left half (appears wherever the thumb lands), fire, bomb and weapon switch on the right
+export const TouchControls: React.FC<TouchControlsProps> = ({ settings, safeAreaEnabled, setInputSource }) => {
+  const inputRef = useRef<SimInput>({ ...IDLE_INPUT });
+  const joystickPointerRef = useRef<number | null>(null);
+  const [joystick, setJoystick] = useState<JoystickState | null>(null);
+  const [firePressed, setFirePressed] = useState(false);
+  const [bombPressed, setBombPressed] = useState(false);
+  const [cyclePressed, setCyclePressed] = useState(false);
+
+  const radius = JOYSTICK_RADIUS * settings.scale;
+  const buttonSize = BUTTON_SIZE * settings.scale;
+  const inset = (side: string) => safeAreaEnabled ? `max(1rem, env(safe-area-inset-${side}))` : '1rem';
+
+  // Auto-fire taps the trigger on every other read rather than holding it down, which would charge a
+  // blast instead of shooting - holding FIRE still charges one
+  const autoFireTapRef = useRef(false);
+
+  useEffect(() => {
+    setInputSource('touch', () => {
+      autoFireTapRef.current = !autoFireTapRef.current;
+      return {
+        ...inputRef.current,
+        fire: inputRef.current.fire || (settings.autoFire && autoFireTapRef.current),
+      };
+    });
+    return () => setInputSource('touch', null);
+  }, [setInputSource, settings.autoFire]);
+
+  const handleJoystickDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (joystickPointerRef.current !== null) return;
+    joystickPointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    setJoystick({ base: point, knob: point });
+  };
+
+  const handleJoystickMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== joystickPointerRef.current || !joystick) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const dx = e.clientX - rect.left - joystick.base.x;
+    const dy = e.clientY - rect.top - joystick.base.y;
+    const distance = Math.hypot(dx, dy);
+    const clamped = distance > radius ? radius / distance : 1;
+    const knob = { x: joystick.base.x + dx * clamped, y: joystick.base.y + dy * clamped };
+
+    const strength = Math.min(1, distance / radius);
+    const axis = strength < JOYSTICK_DEADZONE ? 0 : 1 / radius;
+    inputRef.current = {
+      ...inputRef.current,
+      moveX: (knob.x - joystick.base.x) * axis,
+      moveY: (knob.y - joystick.base.y) * axis,
+    };
+    setJoystick({ ...joystick, knob });
+  };
+
+  const handleJoystickUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== joystickPointerRef.current) return;
+    joystickPointerRef.current = null;
+    inputRef.current = { ...inputRef.current, moveX: 0, moveY: 0 };
+    setJoystick(null);
+  };
+
+  const setButton = (button: TouchButton, pressed: boolean) => {
+    inputRef.current = { ...inputRef.current, [button]: pressed };
+    if (button === 'fire') {
+      setFirePressed(pressed);
+    } else if (button === 'bomb') {
+      setBombPressed(pressed);
+    } else {
+      setCyclePressed(pressed);
+    }
+  };
+
+  const buttonHandlers = (button: TouchButton) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLButtonElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setButton(button, true);
+    },
+    onPointerUp: () => setButton(button, false),
+    onPointerCancel: () => setButton(button, false),
+  });
+
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none select-none touch-none" style={{ opacity: settings.opacity }}>
+      {/* Joystick zone - below the HUD bar so its buttons stay tappable */}
+      <div
+        className="absolute left-0 bottom-0 w-1/2 h-3/4 pointer-events-auto"
+        onPointerDown={handleJoystickDown}
+        onPointerMove={handleJoystickMove}
+        onPointerUp={handleJoystickUp}
+        onPointerCancel={handleJoystickUp}
+      >
+        {joystick && (
+          <>
+            <div
+              className="absolute rounded-full border-2 border-neon-cyan"
+              style={{
+                backgroundColor: 'hsl(var(--neon-cyan) / 0.1)',
+                left: joystick.base.x - radius,
+                top: joystick.base.y - radius,
+                width: radius * 2,
+                height: radius * 2,
+                boxShadow: '0 0 15px hsl(var(--neon-cyan))',
+              }}
+            />
+            <div
+              className="absolute rounded-full bg-neon-cyan"
+              style={{
+                left: joystick.knob.x - radius * 0.4,
+                top: joystick.knob.y - radius * 0.4,
+                width: radius * 0.8,
+                height: radius * 0.8,
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Action buttons */}
+      <div
+        className="absolute flex items-end gap-4 pointer-events-auto"
+        style={{ right: inset('right'), bottom: inset('bottom') }}
+      >
+        <button
+          {...buttonHandlers('cycleWeapon')}
+          className="rounded-full border-2 border-neon-cyan pixel-text text-neon-cyan"
+          style={{
+            width: buttonSize * 0.6,
+            height: buttonSize * 0.6,
+            fontSize: 10 * settings.scale,
+            backgroundColor: cyclePressed ? 'hsl(var(--neon-cyan) / 0.4)' : 'rgba(0, 0, 0, 0.4)',
+          }}
+        >
+          WPN
+        </button>
+        <button
+          {...buttonHandlers('bomb')}
+          className="rounded-full border-2 border-neon-orange pixel-text text-neon-orange"
+          style={{
+            width: buttonSize * 0.75,
+            height: buttonSize * 0.75,
+            fontSize: 12 * settings.scale,
+            backgroundColor: bombPressed ? 'hsl(var(--neon-orange) / 0.4)' : 'rgba(0, 0, 0, 0.4)',
+          }}
+        >
+          BOMB
+        </button>
+        <button
+          {...buttonHandlers('fire')}
+          className="rounded-full border-2 border-neon-red pixel-text text-neon-red"
+          style={{
+            width: buttonSize,
+            height: buttonSize,
+            fontSize: 14 * settings.scale,
+            backgroundColor: firePressed || settings.autoFire ? 'hsl(var(--neon-red) / 0.4)' : 'rgba(0, 0, 0, 0.4)',
+          }}
+        >
+          {settings.autoFire ? 'AUTO' : 'FIRE'}
+        </button>
+      </div>
+    </div>
+  );
+};
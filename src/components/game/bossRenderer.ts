@@ -0,0 +1,107 @@
+import { Boss, BossPart, Camera } from '@/types/game';
+import { BossScript, partCenter } from '@/engine/bosses';
+import { worldToScreen } from '@/engine/camera';
+
+// Mega boss parts drawn over the sprite - damage shows as heat and sparks, destroyed parts as wrecks
+
+const drawTentacle = (
+  ctx: CanvasRenderingContext2D,
+  part: BossPart,
+  coreX: number,
+  coreY: number,
+  tipX: number,
+  tipY: number,
+  now: number
+) => {
+  const healthPercent = part.health / part.maxHealth;
+
+  if (part.health <= 0) {
+    // Severed stump, a third of the way out
+    ctx.strokeStyle = '#3a1a3a';
+    ctx.lineWidth = 10;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(coreX, coreY);
+    ctx.lineTo(coreX + (tipX - coreX) * 0.35, coreY + (tipY - coreY) * 0.35);
+    ctx.stroke();
+    return;
+  }
+
+  ctx.strokeStyle = healthPercent > 0.5 ? '#7a2a8a' : '#9a3a5a';
+  ctx.lineWidth = 10;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(coreX, coreY);
+  ctx.quadraticCurveTo(
+    (coreX + tipX) / 2 + Math.sin(now * 0.004 + part.anchor.y) * 15,
+    (coreY + tipY) / 2,
+    tipX,
+    tipY
+  );
+  ctx.stroke();
+
+  // Pod at the tip shrinks and reddens as it's shot up
+  ctx.fillStyle = healthPercent > 0.5 ? '#ff44cc' : '#ff8844';
+  ctx.beginPath();
+  ctx.arc(tipX, tipY, (part.size.x / 2) * (0.6 + healthPercent * 0.4), 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const drawTurret = (ctx: CanvasRenderingContext2D, part: BossPart, x: number, y: number, now: number) => {
+  const { size } = part;
+  const healthPercent = part.health / part.maxHealth;
+
+  if (part.health <= 0) {
+    // Blackened wreck with a wisp of smoke
+    ctx.fillStyle = '#2a2a2a';
+    ctx.fillRect(x - size.x / 2, y - size.y / 4, size.x, size.y / 2);
+    ctx.fillStyle = `rgba(120, 120, 120, ${0.3 + Math.sin(now * 0.01) * 0.15})`;
+    ctx.beginPath();
+    ctx.arc(x, y - size.y / 2 - ((now * 0.03) % 20), 8, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  ctx.fillStyle = healthPercent > 0.5 ? '#6a7a8a' : '#8a5a4a';
+  ctx.fillRect(x - size.x / 2, y - size.y / 2, size.x, size.y);
+  ctx.fillStyle = '#333333';
+  ctx.fillRect(x - size.x / 2 - 20, y - 5, 24, 10); // Barrel, facing the player
+
+  // Sparks once it's badly damaged
+  if (healthPercent <= 0.5 && Math.sin(now * 0.05 + y) > 0.6) {
+    ctx.fillStyle = '#ffcc33';
+    ctx.fillRect(x + Math.sin(now * 0.13) * size.x / 3, y + Math.cos(now * 0.17) * size.y / 3, 4, 4);
+  }
+};
+
+export const drawBossParts = (ctx: CanvasRenderingContext2D, boss: Boss, script: BossScript, camera: Camera, now: number) => {
+  const { x: coreX, y: coreY } = worldToScreen(camera, {
+    x: boss.position.x + boss.size.x / 2,
+    y: boss.position.y + boss.size.y / 2,
+  });
+
+  ctx.save();
+
+  boss.parts.forEach(part => {
+    const { x, y } = worldToScreen(camera, partCenter(boss, part));
+    if (part.kind === 'tentacle') {
+      drawTentacle(ctx, part, coreX, coreY, x, y, now);
+    } else {
+      drawTurret(ctx, part, x, y, now);
+    }
+  });
+
+  // Core weak point - pulses faster the more hurt the boss is
+  const { size } = script.core;
+  const healthPercent = boss.health / boss.maxHealth;
+  const pulse = 0.5 + Math.sin(now * (0.005 + (1 - healthPercent) * 0.015)) * 0.3;
+  const glow = ctx.createRadialGradient(coreX, coreY, 0, coreX, coreY, size.y / 2);
+  glow.addColorStop(0, `rgba(255, 240, 120, ${pulse})`);
+  glow.addColorStop(1, 'rgba(255, 80, 0, 0)');
+  ctx.fillStyle = glow;
+  ctx.beginPath();
+  ctx.ellipse(coreX, coreY, size.x / 2, size.y / 2, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+};
@@ -0,0 +1,312 @@
+import { Saucer, Alien, CrawlingAlien, BossRocket, DiveBomber, ZigzagFighter, Splitter } from '@/types/game';
+import { EnemyDefinition, EnemyRenderer, EnemyTypes, EnemyKind } from '@/engine/enemies';
+
+export interface EnemySprites {
+  saucer: HTMLImageElement | null;
+  critter: HTMLImageElement | null;
+}
+
+type Enemy = EnemyTypes[EnemyKind];
+
+// Draws the body at its screen position - health bars are drawn on top by drawEnemyHealthBar
+type EnemyRenderFn = (ctx: CanvasRenderingContext2D, enemy: Enemy, screenX: number, sprites: EnemySprites) => void;
+
+const drawSaucer = (ctx: CanvasRenderingContext2D, saucer: Saucer, screenX: number, sprites: EnemySprites) => {
+  const { position, size } = saucer;
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+
+  const saucerImage = sprites.saucer;
+  if (saucerImage) {
+    const aspectRatio = saucerImage.width / saucerImage.height;
+    const drawWidth = size.x * 1.3;
+    const drawHeight = drawWidth / aspectRatio;
+    const offsetY = (size.y - drawHeight) / 2;
+
+    ctx.drawImage(saucerImage, screenX, position.y + offsetY, drawWidth, drawHeight);
+  } else {
+    // Fallback ellipse if image not loaded
+    ctx.beginPath();
+    ctx.ellipse(screenX + size.x / 2, position.y + size.y / 2, size.x / 2, size.y / 2, 0, 0, Math.PI * 2);
+    ctx.fillStyle = '#cccccc';
+    ctx.fill();
+  }
+
+  ctx.restore();
+};
+
+const drawInsect = (ctx: CanvasRenderingContext2D, alien: Alien, screenX: number) => {
+  const { position, size } = alien;
+
+  // Draw alien body (insect-like)
+  ctx.fillStyle = '#228822';
+  ctx.fillRect(screenX + 5, position.y, size.x - 10, size.y - 5);
+
+  // Draw alien head
+  ctx.fillStyle = '#336633';
+  ctx.fillRect(screenX + 8, position.y - 8, size.x - 16, 12);
+
+  // Draw eyes (red)
+  ctx.fillStyle = '#ff0000';
+  ctx.fillRect(screenX + 10, position.y - 6, 3, 3);
+  ctx.fillRect(screenX + size.x - 13, position.y - 6, 3, 3);
+
+  // Draw legs
+  ctx.fillStyle = '#114411';
+  for (let i = 0; i < 4; i++) {
+    const legX = screenX + 6 + i * 5;
+    ctx.fillRect(legX, position.y + size.y - 5, 2, 8);
+  }
+
+  // Draw weapon (cannon)
+  ctx.fillStyle = '#444444';
+  ctx.fillRect(screenX + size.x / 2 - 2, position.y + 5, 4, 15);
+};
+
+const drawCritter = (ctx: CanvasRenderingContext2D, crawlingAlien: CrawlingAlien, screenX: number, sprites: EnemySprites) => {
+  const { position, size } = crawlingAlien;
+
+  // Draw critter sprite maintaining aspect ratio
+  if (sprites.critter) {
+    const img = sprites.critter;
+    const aspectRatio = img.naturalWidth / img.naturalHeight;
+    const drawHeight = size.y * 2;
+    const drawWidth = drawHeight * aspectRatio;
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(
+      img,
+      screenX + size.x / 2 - drawWidth / 2,
+      position.y + size.y - drawHeight,
+      drawWidth,
+      drawHeight
+    );
+    ctx.restore();
+  }
+};
+
+const drawRocketBoss = (ctx: CanvasRenderingContext2D, boss: BossRocket, screenX: number) => {
+  const { position, size } = boss;
+
+  ctx.save();
+
+  // Main body - dark metallic
+  ctx.fillStyle = '#444444';
+  ctx.fillRect(screenX, position.y, size.x, size.y);
+
+  // Nose cone - red/orange
+  ctx.fillStyle = '#ff4400';
+  ctx.beginPath();
+  ctx.moveTo(screenX, position.y + size.y / 2);
+  ctx.lineTo(screenX - 30, position.y + size.y / 2 - 15);
+  ctx.lineTo(screenX - 30, position.y + size.y / 2 + 15);
+  ctx.closePath();
+  ctx.fill();
+
+  // Engine exhausts (3 streams)
+  ctx.fillStyle = '#0099ff';
+  ctx.fillRect(screenX + size.x - 15, position.y + 10, 15, 15);
+  ctx.fillRect(screenX + size.x - 15, position.y + size.y / 2 - 7, 15, 15);
+  ctx.fillRect(screenX + size.x - 15, position.y + size.y - 25, 15, 15);
+
+  // Engine flames
+  const time = Date.now() * 0.01;
+  const flameLength = 20 + Math.sin(time) * 10;
+  ctx.fillStyle = '#ffff00';
+  ctx.fillRect(screenX + size.x, position.y + 12, flameLength, 11);
+  ctx.fillRect(screenX + size.x, position.y + size.y / 2 - 5, flameLength, 11);
+  ctx.fillRect(screenX + size.x, position.y + size.y - 23, flameLength, 11);
+
+  // Weapon ports (3 cannons)
+  ctx.fillStyle = '#222222';
+  for (let i = 0; i < 3; i++) {
+    const portY = position.y + 20 + i * 20;
+    ctx.fillRect(screenX + 10, portY, 20, 8);
+  }
+
+  // Boss details - rivets and panels
+  ctx.fillStyle = '#666666';
+  for (let i = 0; i < 5; i++) {
+    ctx.fillRect(screenX + 20 + i * 18, position.y + 5, 4, 4);
+    ctx.fillRect(screenX + 20 + i * 18, position.y + size.y - 9, 4, 4);
+  }
+
+  ctx.restore();
+};
+
+const drawJet = (ctx: CanvasRenderingContext2D, bomber: DiveBomber, screenX: number) => {
+  const { position, size, phase } = bomber;
+
+  ctx.save();
+
+  // Rotate based on dive phase
+  ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
+  if (phase === 'dive') {
+    ctx.rotate(0.4);
+  } else if (phase === 'retreat') {
+    ctx.rotate(-0.3);
+  }
+  ctx.translate(-(screenX + size.x / 2), -(position.y + size.y / 2));
+
+  // Main body - sleek jet-like
+  ctx.fillStyle = '#cc2222';
+  ctx.beginPath();
+  ctx.moveTo(screenX + size.x, position.y + size.y / 2);
+  ctx.lineTo(screenX, position.y);
+  ctx.lineTo(screenX + 10, position.y + size.y / 2);
+  ctx.lineTo(screenX, position.y + size.y);
+  ctx.closePath();
+  ctx.fill();
+
+  // Wings
+  ctx.fillStyle = '#881111';
+  ctx.fillRect(screenX + 5, position.y - 8, 15, 8);
+  ctx.fillRect(screenX + 5, position.y + size.y, 15, 8);
+
+  // Cockpit
+  ctx.fillStyle = '#ffcc00';
+  ctx.beginPath();
+  ctx.arc(screenX + size.x - 12, position.y + size.y / 2, 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Engine glow during dive
+  if (phase === 'dive') {
+    ctx.fillStyle = '#ff6600';
+    ctx.fillRect(screenX - 8, position.y + size.y / 2 - 3, 8, 6);
+  }
+
+  ctx.restore();
+};
+
+const drawHexFighter = (ctx: CanvasRenderingContext2D, zigzag: ZigzagFighter, screenX: number) => {
+  const { position, size, zigzagPhase } = zigzag;
+  const time = Date.now() * 0.01;
+
+  ctx.save();
+
+  // Slight rotation based on zigzag movement
+  ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
+  ctx.rotate(Math.sin(zigzagPhase) * 0.2);
+  ctx.translate(-(screenX + size.x / 2), -(position.y + size.y / 2));
+
+  // Main body - hexagonal shape
+  ctx.fillStyle = '#6622aa';
+  ctx.beginPath();
+  ctx.moveTo(screenX + size.x, position.y + size.y / 2);
+  ctx.lineTo(screenX + size.x * 0.7, position.y);
+  ctx.lineTo(screenX + size.x * 0.3, position.y);
+  ctx.lineTo(screenX, position.y + size.y / 2);
+  ctx.lineTo(screenX + size.x * 0.3, position.y + size.y);
+  ctx.lineTo(screenX + size.x * 0.7, position.y + size.y);
+  ctx.closePath();
+  ctx.fill();
+
+  // Glowing core
+  const pulseSize = 6 + Math.sin(time) * 2;
+  ctx.fillStyle = '#ff00ff';
+  ctx.beginPath();
+  ctx.arc(screenX + size.x / 2, position.y + size.y / 2, pulseSize, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Eye
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(screenX + size.x * 0.7, position.y + size.y / 2, 3, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+};
+
+const drawBlob = (ctx: CanvasRenderingContext2D, splitter: Splitter, screenX: number) => {
+  const { position, size, generation } = splitter;
+  const time = Date.now() * 0.008;
+
+  ctx.save();
+
+  // Wobble animation
+  ctx.translate(screenX + size.x / 2, position.y + size.y / 2);
+  ctx.rotate(Math.sin(time + position.x * 0.01) * 0.1);
+
+  // Color based on generation
+  const colors = ['#22cc44', '#44aa22', '#668800'];
+  const baseColor = colors[generation];
+
+  // Blob-like body (circle)
+  ctx.fillStyle = baseColor;
+  ctx.beginPath();
+  ctx.arc(0, 0, size.x / 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Inner pattern (shows split capability)
+  if (generation < 2) {
+    ctx.fillStyle = '#88ff88';
+    ctx.beginPath();
+    ctx.arc(-size.x / 6, 0, size.x / 6, 0, Math.PI * 2);
+    ctx.arc(size.x / 6, 0, size.x / 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Eyes
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.arc(-size.x / 5, -size.y / 6, 3, 0, Math.PI * 2);
+  ctx.arc(size.x / 5, -size.y / 6, 3, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Pupils
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  ctx.arc(-size.x / 5 + 1, -size.y / 6, 1.5, 0, Math.PI * 2);
+  ctx.arc(size.x / 5 + 1, -size.y / 6, 1.5, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.restore();
+};
+
+export const ENEMY_RENDERERS: Record<EnemyRenderer, EnemyRenderFn> = {
+  saucer: drawSaucer,
+  insect: drawInsect,
+  critter: drawCritter,
+  rocketBoss: drawRocketBoss,
+  jet: drawJet,
+  hexFighter: drawHexFighter,
+  blob: drawBlob,
+};
+
+// Small bars only show once the enemy is hurt; large ones (mini-bosses) always show, with a readout
+export const drawEnemyHealthBar = (
+  ctx: CanvasRenderingContext2D,
+  definition: EnemyDefinition,
+  enemy: Enemy,
+  screenX: number
+) => {
+  // Enemies from saves made before they tracked max health get no bar
+  if (definition.healthBar === 'none' || !('health' in enemy) || !enemy.maxHealth) return;
+
+  const { position, size, health, maxHealth } = enemy;
+  const healthPercent = health / maxHealth;
+
+  if (definition.healthBar === 'small') {
+    if (health >= maxHealth) return;
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(screenX, position.y - 12, size.x, 3);
+    ctx.fillStyle = '#00ff00';
+    ctx.fillRect(screenX, position.y - 12, size.x * healthPercent, 3);
+    return;
+  }
+
+  ctx.save();
+  ctx.fillStyle = '#ff0000';
+  ctx.fillRect(screenX, position.y - 20, size.x, 8);
+  ctx.fillStyle = healthPercent > 0.5 ? '#00ff00' : healthPercent > 0.25 ? '#ffff00' : '#ff0000';
+  ctx.fillRect(screenX, position.y - 20, size.x * healthPercent, 8);
+
+  // Health text
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '12px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(`${health}/${maxHealth}`, screenX + size.x / 2, position.y - 25);
+  ctx.restore();
+};
@@ -0,0 +1,53 @@
+import { TerrainTheme } from '@/types/game';
+
+// Terrain palettes - endless runs always use nebula, campaign stages pick their own
+
+export interface TerrainLayerColors {
+  top: string;
+  bottom: string;
+  stroke: string;
+}
+
+export interface TerrainPalette {
+  sky: string;
+  background: TerrainLayerColors;
+  middle: TerrainLayerColors;
+  foreground: TerrainLayerColors;
+  flames: [string, string, string]; // Small, medium and tall
+  flameTip: string;
+}
+
+export const TERRAIN_THEMES: Record<TerrainTheme, TerrainPalette> = {
+  nebula: {
+    sky: '#000003',
+    background: { top: '#1a1a2e', bottom: '#16213e', stroke: '#3a3a5c' },
+    middle: { top: '#2d2d44', bottom: '#1a1a2e', stroke: '#4a4a6a' },
+    foreground: { top: '#0f0f1a', bottom: '#000000', stroke: '#2a2a3a' },
+    flames: ['#ff6600', '#ff8800', '#ffaa00'],
+    flameTip: '#ffff00',
+  },
+  desert: {
+    sky: '#0a0503',
+    background: { top: '#4a3422', bottom: '#2e1f14', stroke: '#6a4a30' },
+    middle: { top: '#6a4a2a', bottom: '#3a2816', stroke: '#8a6a40' },
+    foreground: { top: '#2a1a0c', bottom: '#0a0603', stroke: '#5a3a1a' },
+    flames: ['#cc5500', '#dd7722', '#eeaa44'],
+    flameTip: '#ffe0a0',
+  },
+  glacier: {
+    sky: '#00030a',
+    background: { top: '#1e2e44', bottom: '#14203a', stroke: '#3a5a7c' },
+    middle: { top: '#3a5470', bottom: '#1e2e44', stroke: '#6a8aaa' },
+    foreground: { top: '#0e1a2a', bottom: '#000208', stroke: '#4a6a8a' },
+    flames: ['#66ccff', '#88ddff', '#bbeeff'],
+    flameTip: '#ffffff',
+  },
+  inferno: {
+    sky: '#080000',
+    background: { top: '#3a1010', bottom: '#240808', stroke: '#6a2020' },
+    middle: { top: '#5a1a0a', bottom: '#3a0c06', stroke: '#8a3010' },
+    foreground: { top: '#1a0404', bottom: '#000000', stroke: '#aa3300' },
+    flames: ['#ff3300', '#ff5500', '#ff8800'],
+    flameTip: '#ffdd00',
+  },
+};
@@ -0,0 +1,138 @@
+import { GameObject, GameState, Projectile } from '@/types/game';
+import { createRng } from '@/engine/random';
+import { ENEMIES, ENEMY_KINDS, ENEMY_COLLECTIONS } from '@/engine/enemies';
+import { DEFAULT_SETTINGS, createInitialState, stepInPlace } from '@/engine/simulation';
+import { spawnProjectile } from '@/engine/pools';
+import { buildGrid, checkCollision, queryGrid } from '@/engine/broadphase';
+
+// Stress scenario for the collision code - a screen full of enemies and hundreds of bullets in flight.
+// Used by the /benchmark dev page
+
+export interface BenchmarkOptions {
+  bullets: number;
+  enemiesPerKind: number;
+  seed?: number;
+}
+
+export interface StepTiming {
+  ticks: number;
+  averageMs: number;
+  worstMs: number;
+}
+
+export interface CollisionTiming {
+  allPairsMs: number; // Per pass, every projectile against every enemy
+  gridMs: number; // Per pass, grids built and queried
+  allPairsTests: number; // Pair checks per pass the all-pairs loops make
+  overlaps: number; // Pairs actually touching - both approaches find the same ones
+}
+
+const BENCHMARK_LEVEL = 10; // Every enemy kind unlocked
+
+export const createBenchmarkState = ({ bullets, enemiesPerKind, seed = 1 }: BenchmarkOptions): GameState => {
+  const state: GameState = { ...createInitialState('normal', seed, BENCHMARK_LEVEL), isPlaying: true };
+  const settings = DEFAULT_SETTINGS;
+  const rng = createRng(seed);
+  const nextId = (prefix: string) => `${prefix}-${state.nextId++}`;
+
+  // Enemies scattered over the right three quarters of the screen
+  ENEMY_KINDS.forEach(kind => {
+    const enemies = state[ENEMY_COLLECTIONS[kind]] as GameObject[];
+    for (let i = 0; i < enemiesPerKind; i++) {
+      const enemy = ENEMIES[kind].create({
+        state,
+        settings,
+        rng,
+        now: state.time,
+        nextId,
+        slot: { y: 0, offsetX: 0 },
+      });
+      if (!enemy) continue;
+      enemy.position = {
+        x: state.camera.x + settings.width * 0.25 + rng.next() * settings.width * 0.7,
+        y: 60 + rng.next() * (settings.height - 200),
+      };
+      enemies.push(enemy);
+    }
+  });
+
+  // Bullets spread over the whole screen, all flying right
+  for (let i = 0; i < bullets; i++) {
+    spawnProjectile(state, {
+      position: { x: state.camera.x + rng.next() * settings.width, y: rng.next() * settings.height },
+      velocity: { x: settings.bulletSpeed, y: 0 },
+      size: { x: 8, y: 2 },
+      damage: 25,
+      type: 'bullet',
+    });
+  }
+
+  return state;
+};
+
+// Whole simulation steps from the scenario, firing all the way, with the ship kept alive. Stepped in
+// place the way the game loop does, on one copy of the scenario, so the timing is the tick and not a
+// clone of the state
+export const timeSteps = (scenario: GameState, ticks: number): StepTiming => {
+  const state = structuredClone(scenario);
+  let total = 0;
+  let worstMs = 0;
+
+  for (let i = 0; i < ticks; i++) {
+    const start = performance.now();
+    stepInPlace(state, { moveX: 0, moveY: 0, fire: true, bomb: false, cycleWeapon: false });
+    const elapsed = performance.now() - start;
+    total += elapsed;
+    worstMs = Math.max(worstMs, elapsed);
+    state.spaceship.health = state.spaceship.maxHealth;
+    state.lives = 3;
+  }
+
+  return { ticks, averageMs: total / ticks, worstMs };
+};
+
+// The collision broadphase on its own against the all-pairs loops it replaced, on the scenario's
+// first frame. Nothing is resolved - both just find the overlapping pairs
+export const timeCollisions = (scenario: GameState, passes: number): CollisionTiming => {
+  const projectiles = scenario.projectiles.items;
+  const collections = ENEMY_KINDS.map(kind => scenario[ENEMY_COLLECTIONS[kind]] as GameObject[]);
+
+  let allPairsTests = 0;
+  let allPairsHits = 0;
+  const allPairsStart = performance.now();
+  for (let pass = 0; pass < passes; pass++) {
+    collections.forEach(enemies => {
+      projectiles.forEach((projectile: Projectile) => {
+        enemies.forEach(enemy => {
+          allPairsTests++;
+          if (checkCollision(projectile, enemy)) allPairsHits++;
+        });
+      });
+    });
+  }
+  const allPairsMs = (performance.now() - allPairsStart) / passes;
+
+  let gridOverlaps = 0;
+  const gridStart = performance.now();
+  for (let pass = 0; pass < passes; pass++) {
+    const grids = collections.map(enemies => buildGrid(enemies));
+    grids.forEach(grid => {
+      projectiles.forEach(projectile => {
+        gridOverlaps += queryGrid(grid, projectile).length;
+      });
+    });
+  }
+  const gridMs = (performance.now() - gridStart) / passes;
+
+  // Both have to agree on what's touching, or the comparison means nothing
+  if (gridOverlaps !== allPairsHits) {
+    throw new Error(`Broadphase found ${gridOverlaps / passes} overlaps, all-pairs found ${allPairsHits / passes}`);
+  }
+
+  return {
+    allPairsMs,
+    gridMs,
+    allPairsTests: allPairsTests / passes,
+    overlaps: gridOverlaps / passes,
+  };
+};
@@ -0,0 +1,288 @@
+import { GameState, Boss, BossPart, BossPartKind, BossAttackKind, Projectile, ProjectileSpec, Vector2 } from '@/types/game';
+import { Rng } from '@/engine/random';
+import { LevelCurve, evaluateCurve } from '@/engine/enemies';
+
+// Boss scripts - how tough each mega boss is, how it moves, which parts can be shot off it and which
+// attacks it cycles through as its health drops. The simulation runs them and the canvas reads the
+// phase/telegraph/part state
+
+export interface BossPhase {
+  threshold: number; // Starts once health falls to this fraction of max (1 for the opening phase)
+  attacks: BossAttackKind[]; // Cycled in order
+  fireRate: number; // ms between the end of one attack and the wind-up of the next
+  trackingSpeed: number; // Max px per tick when following the player vertically
+}
+
+export interface BossPartDefinition {
+  kind: BossPartKind;
+  anchor: Vector2; // Hitbox center relative to the boss center
+  size: Vector2;
+  health: number; // A blaster shot does 25 damage, before the multiplier
+  damageMultiplier: number; // Scales the damage of every shot that hits it
+  score: number; // Awarded when it's destroyed
+  attacks: BossAttackKind[]; // Fired from this part - lost once every part carrying them is destroyed
+}
+
+export interface BossScript {
+  name: string;
+  health: LevelCurve; // Core health, before the difficulty multiplier
+  core: { size: Vector2; damageMultiplier: number }; // Weak point at the boss center - the only place the boss itself takes damage
+  entrySpeed: number; // px per tick while sliding in from the right edge
+  telegraphMs: number; // Wind-up shown before every attack
+  transitionMs: number; // Invulnerable while switching phase
+  parts: BossPartDefinition[];
+  phases: BossPhase[];
+}
+
+export interface BossAttackContext {
+  state: GameState;
+  boss: Boss;
+  rng: Rng;
+  now: number;
+  origin: Vector2; // Muzzle - the core, or a surviving part carrying the attack
+  target: Vector2; // Ship position
+}
+
+const CORE = { size: { x: 90, y: 120 }, damageMultiplier: 2 };
+
+// `count` tentacles evenly around the core, lashing from their tips
+const tentacleRing = (count: number, length: number, health: number): BossPartDefinition[] => {
+  return Array.from({ length: count }, (_, i) => ({
+    kind: 'tentacle' as const,
+    anchor: { x: Math.cos((Math.PI * 2 * i) / count) * length, y: Math.sin((Math.PI * 2 * i) / count) * length },
+    size: { x: 36, y: 36 },
+    health,
+    damageMultiplier: 1,
+    score: 250,
+    attacks: ['tentacleLash'],
+  }));
+};
+
+// Gun pods above and below the core, sharing one attack
+const turretPair = (attack: BossAttackKind, health: number): BossPartDefinition[] => {
+  return [-150, 150].map(y => ({
+    kind: 'turret' as const,
+    anchor: { x: -70, y },
+    size: { x: 50, y: 44 },
+    health,
+    damageMultiplier: 1.5,
+    score: 500,
+    attacks: [attack],
+  }));
+};
+
+// Indexed by Boss.bossType - the spawn interval cycles through them
+export const BOSS_SCRIPTS: BossScript[] = [
+  {
+    name: 'INFERNO',
+    health: { base: 2500, perLevel: 250, from: 1 },
+    core: CORE,
+    entrySpeed: 0.3,
+    telegraphMs: 600,
+    transitionMs: 1500,
+    parts: [...tentacleRing(6, 100, 200), ...turretPair('wave', 375)],
+    phases: [
+      { threshold: 1, attacks: ['fireballs'], fireRate: 1200, trackingSpeed: 1.2 },
+      { threshold: 0.66, attacks: ['fireballs', 'wave'], fireRate: 1000, trackingSpeed: 1.4 },
+      { threshold: 0.33, attacks: ['fireballs', 'tentacleLash', 'burst'], fireRate: 800, trackingSpeed: 1.8 },
+    ],
+  },
+  {
+    name: 'VORTEX',
+    health: { base: 2500, perLevel: 250, from: 1 },
+    core: CORE,
+    entrySpeed: 0.3,
+    telegraphMs: 500,
+    transitionMs: 1500,
+    parts: [...tentacleRing(6, 100, 200), ...turretPair('spread', 375)],
+    phases: [
+      { threshold: 1, attacks: ['spiral'], fireRate: 1200, trackingSpeed: 1.2 },
+      { threshold: 0.66, attacks: ['spiral', 'spread'], fireRate: 1000, trackingSpeed: 1.4 },
+      { threshold: 0.33, attacks: ['spiral', 'tentacleLash', 'burst'], fireRate: 800, trackingSpeed: 1.8 },
+    ],
+  },
+  {
+    name: 'TIDE',
+    health: { base: 2750, perLevel: 250, from: 1 },
+    core: CORE,
+    entrySpeed: 0.25,
+    telegraphMs: 600,
+    transitionMs: 1500,
+    parts: [...tentacleRing(6, 110, 250), ...turretPair('missiles', 375)],
+    phases: [
+      { threshold: 1, attacks: ['wave'], fireRate: 1200, trackingSpeed: 1 },
+      { threshold: 0.66, attacks: ['wave', 'missiles'], fireRate: 1000, trackingSpeed: 1.2 },
+      { threshold: 0.33, attacks: ['wave', 'tentacleLash', 'spiral'], fireRate: 850, trackingSpeed: 1.8 },
+    ],
+  },
+  {
+    name: 'HAILSTORM',
+    health: { base: 2500, perLevel: 300, from: 1 },
+    core: CORE,
+    entrySpeed: 0.3,
+    telegraphMs: 700,
+    transitionMs: 1500,
+    parts: [...tentacleRing(6, 100, 200), ...turretPair('missiles', 450)],
+    phases: [
+      { threshold: 1, attacks: ['spread'], fireRate: 1200, trackingSpeed: 1.2 },
+      { threshold: 0.66, attacks: ['spread', 'fireballs'], fireRate: 1050, trackingSpeed: 1.4 },
+      { threshold: 0.33, attacks: ['spread', 'tentacleLash', 'missiles'], fireRate: 850, trackingSpeed: 1.8 },
+    ],
+  },
+  {
+    name: 'HUNTER',
+    health: { base: 3000, perLevel: 300, from: 1 },
+    core: CORE,
+    entrySpeed: 0.35,
+    telegraphMs: 600,
+    transitionMs: 1800,
+    parts: [...tentacleRing(6, 110, 250), ...turretPair('missiles', 500)],
+    phases: [
+      { threshold: 1, attacks: ['missiles'], fireRate: 1200, trackingSpeed: 1.4 },
+      { threshold: 0.66, attacks: ['missiles', 'spread'], fireRate: 1000, trackingSpeed: 1.6 },
+      { threshold: 0.33, attacks: ['missiles', 'tentacleLash', 'burst'], fireRate: 800, trackingSpeed: 2 },
+    ],
+  },
+  {
+    name: 'NOVA',
+    health: { base: 3000, perLevel: 300, from: 1 },
+    core: CORE,
+    entrySpeed: 0.3,
+    telegraphMs: 800,
+    transitionMs: 1800,
+    parts: [...tentacleRing(6, 110, 250), ...turretPair('spiral', 450)],
+    phases: [
+      { threshold: 1, attacks: ['burst'], fireRate: 1300, trackingSpeed: 1 },
+      { threshold: 0.66, attacks: ['burst', 'spiral'], fireRate: 1100, trackingSpeed: 1.2 },
+      { threshold: 0.33, attacks: ['burst', 'tentacleLash', 'wave'], fireRate: 900, trackingSpeed: 1.8 },
+    ],
+  },
+];
+
+export const bossHealthAt = (script: BossScript, level: number, difficultyMultiplier: number): number => {
+  return Math.round(evaluateCurve(script.health, level) * difficultyMultiplier);
+};
+
+export const createParts = (script: BossScript): BossPart[] => {
+  return script.parts.map(part => ({
+    kind: part.kind,
+    anchor: { ...part.anchor },
+    offset: { ...part.anchor },
+    size: { ...part.size },
+    health: part.health,
+    maxHealth: part.health,
+  }));
+};
+
+// Tentacles sway around their anchor, turrets stay put
+export const swayParts = (boss: Boss, now: number) => {
+  boss.parts.forEach((part, i) => {
+    if (part.kind !== 'tentacle') return;
+    const sway = Math.sin(now * 0.003 + i) * 0.3;
+    part.offset = {
+      x: part.anchor.x * Math.cos(sway) - part.anchor.y * Math.sin(sway),
+      y: part.anchor.x * Math.sin(sway) + part.anchor.y * Math.cos(sway),
+    };
+  });
+};
+
+// Center of a part in world space
+export const partCenter = (boss: Boss, part: BossPart): Vector2 => ({
+  x: boss.position.x + boss.size.x / 2 + part.offset.x,
+  y: boss.position.y + boss.size.y / 2 + part.offset.y,
+});
+
+// World-space hitbox of a part, in the shape checkCollision takes
+export const partHitbox = (boss: Boss, part: BossPart) => {
+  const center = partCenter(boss, part);
+  return {
+    position: { x: center.x - part.size.x / 2, y: center.y - part.size.y / 2 },
+    size: part.size,
+  };
+};
+
+export const coreHitbox = (boss: Boss, script: BossScript) => ({
+  position: {
+    x: boss.position.x + (boss.size.x - script.core.size.x) / 2,
+    y: boss.position.y + (boss.size.y - script.core.size.y) / 2,
+  },
+  size: script.core.size,
+});
+
+// Phase the boss should be in at its current health
+export const phaseForHealth = (script: BossScript, health: number, maxHealth: number): number => {
+  const fraction = health / maxHealth;
+  let phase = 0;
+  script.phases.forEach((p, i) => {
+    if (fraction <= p.threshold) phase = i;
+  });
+  return phase;
+};
+
+// Surviving parts an attack fires from. Empty for attacks no part carries - those come from the core
+export const attackSources = (boss: Boss, script: BossScript, attack: BossAttackKind): BossPart[] => {
+  return boss.parts.filter((part, i) => part.health > 0 && script.parts[i].attacks.includes(attack));
+};
+
+// Attacks carried by parts drop out of the rotation once every such part is destroyed
+export const canUseAttack = (boss: Boss, script: BossScript, attack: BossAttackKind): boolean => {
+  const carried = script.parts.some(part => part.attacks.includes(attack));
+  return !carried || attackSources(boss, script, attack).length > 0;
+};
+
+const shot = (
+  position: Vector2,
+  angle: number,
+  speed: number,
+  size: number,
+  damage: number,
+  type: Projectile['type']
+): ProjectileSpec => ({
+  position: { ...position },
+  velocity: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+  size: { x: size, y: size },
+  damage,
+  type,
+});
+
+const angleTo = (from: Vector2, to: Vector2) => Math.atan2(to.y - from.y, to.x - from.x);
+
+export const BOSS_ATTACKS: Record<BossAttackKind, (ctx: BossAttackContext) => ProjectileSpec[]> = {
+  // Five fireballs loosely aimed at the player
+  fireballs: ctx => Array.from({ length: 5 }, () => {
+    const angle = angleTo(ctx.origin, ctx.target) + (ctx.rng.next() - 0.5) * 1.2;
+    const speed = 2 + ctx.rng.next() * 2;
+    const position = { x: ctx.origin.x, y: ctx.origin.y + (ctx.rng.next() - 0.5) * 100 };
+    return shot(position, angle, speed, 20, 40, 'fireball');
+  }),
+  // Rotating ring of eight lasers
+  spiral: ctx => Array.from({ length: 8 }, (_, i) => {
+    const angle = (Math.PI * 2 * i) / 8 + ctx.now * 0.003;
+    return shot(ctx.origin, angle, 3, 8, 35, 'laser');
+  }),
+  // Six shots weaving around the player's direction
+  wave: ctx => Array.from({ length: 6 }, (_, i) => {
+    const angle = angleTo(ctx.origin, ctx.target) + Math.sin(ctx.now * 0.005 + i) * 0.8;
+    return shot(ctx.origin, angle, 2.5, 15, 38, 'fireball');
+  }),
+  // Ten-shot fan centred on the player
+  spread: ctx => Array.from({ length: 10 }, (_, i) => {
+    const angle = angleTo(ctx.origin, ctx.target) + (i - 4.5) * 0.3;
+    return shot(ctx.origin, angle, 3.5, 12, 30, 'laser');
+  }),
+  // Four heavy shots from a column around the muzzle
+  missiles: ctx => Array.from({ length: 4 }, (_, i) => {
+    const position = { x: ctx.origin.x, y: ctx.origin.y - 105 + i * 70 };
+    return shot(position, angleTo(position, ctx.target), 2, 18, 45, 'fire');
+  }),
+  // Twelve shots in every direction
+  burst: ctx => Array.from({ length: 12 }, (_, i) => {
+    const angle = (Math.PI * 2 * i) / 12;
+    return shot(ctx.origin, angle, 2 + ctx.rng.next(), 16, 35, 'fireball');
+  }),
+  // One aimed shot from the tip of every tentacle still attached
+  tentacleLash: ctx => ctx.boss.parts.filter(part => part.kind === 'tentacle' && part.health > 0).map(tentacle => {
+    const tip = partCenter(ctx.boss, tentacle);
+    return shot(tip, angleTo(tip, ctx.target), 4, 10, 30, 'laser');
+  }),
+};
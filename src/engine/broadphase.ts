@@ -0,0 +1,99 @@
+import { Vector2 } from '@/types/game';
+
+// Uniform grid broadphase. Colliders are bucketed by the cells they cover, so a query only
+// tests the handful of colliders near it instead of everything on the field
+
+export interface Collider {
+  position: Vector2;
+  size: Vector2;
+}
+
+export interface GridEntry<T> {
+  item: T;
+  bounds: Collider;
+  order: number; // Insertion order - queries hand candidates back in it
+}
+
+export interface SpatialGrid<T> {
+  cellSize: number;
+  cells: Map<number, GridEntry<T>[]>;
+  count: number;
+}
+
+// Larger than most enemies, so they rarely span more than four cells
+export const CELL_SIZE = 96;
+
+// Axis-aligned bounding box overlap
+export const checkCollision = (obj1: Collider, obj2: Collider): boolean => {
+  return (
+    obj1.position.x < obj2.position.x + obj2.size.x &&
+    obj1.position.x + obj1.size.x > obj2.position.x &&
+    obj1.position.y < obj2.position.y + obj2.size.y &&
+    obj1.position.y + obj1.size.y > obj2.position.y
+  );
+};
+
+// Rows stay well under 65536 cells, so a row-major number is a unique key
+const cellKey = (column: number, row: number) => column * 65536 + row;
+
+const cellRange = (grid: SpatialGrid<unknown>, bounds: Collider) => ({
+  left: Math.floor(bounds.position.x / grid.cellSize),
+  right: Math.floor((bounds.position.x + bounds.size.x) / grid.cellSize),
+  top: Math.floor(bounds.position.y / grid.cellSize),
+  bottom: Math.floor((bounds.position.y + bounds.size.y) / grid.cellSize),
+});
+
+export const createGrid = <T>(cellSize = CELL_SIZE): SpatialGrid<T> => ({
+  cellSize,
+  cells: new Map(),
+  count: 0,
+});
+
+export const insertIntoGrid = <T>(grid: SpatialGrid<T>, item: T, bounds: Collider) => {
+  const entry = { item, bounds, order: grid.count++ };
+  const { left, right, top, bottom } = cellRange(grid, bounds);
+  for (let column = left; column <= right; column++) {
+    for (let row = top; row <= bottom; row++) {
+      const key = cellKey(column, row);
+      const cell = grid.cells.get(key);
+      if (cell) {
+        cell.push(entry);
+      } else {
+        grid.cells.set(key, [entry]);
+      }
+    }
+  }
+};
+
+// Grid over `items`, each placed at the bounds `toBounds` gives it - its own position and size unless told otherwise
+export const buildGrid = <T>(
+  items: T[],
+  toBounds: (item: NoInfer<T>) => Collider = item => item as Collider,
+  cellSize = CELL_SIZE
+): SpatialGrid<T> => {
+  const grid = createGrid<T>(cellSize);
+  items.forEach(item => insertIntoGrid(grid, item, toBounds(item)));
+  return grid;
+};
+
+// Everything whose bounds overlap `area`, in the order it went into the grid - the same order an
+// all-pairs loop over the original array would have met them in
+export const queryGrid = <T>(grid: SpatialGrid<T>, area: Collider): T[] => {
+  const { left, right, top, bottom } = cellRange(grid, area);
+  const hits: GridEntry<T>[] = [];
+
+  for (let column = left; column <= right; column++) {
+    for (let row = top; row <= bottom; row++) {
+      const cell = grid.cells.get(cellKey(column, row));
+      if (!cell) continue;
+      for (const entry of cell) {
+        if (!hits.includes(entry) && checkCollision(area, entry.bounds)) {
+          hits.push(entry);
+        }
+      }
+    }
+  }
+
+  if (hits.length > 1) hits.sort((a, b) => a.order - b.order);
+  return hits.map(entry => entry.item);
+};
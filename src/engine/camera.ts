@@ -0,0 +1,90 @@
+import { Camera, GameSettings, Vector2 } from '@/types/game';
+
+// The view onto the world. Everything in the game state lives in world space - the camera is the one
+// place that maps it to the screen, and it carries the shake and zoom the canvas applies on top
+
+export const createCamera = (): Camera => ({ x: 0, shake: null, zoom: null });
+
+export const worldToScreen = (camera: Camera, point: Vector2): Vector2 => ({ x: point.x - camera.x, y: point.y });
+
+export const screenToWorld = (camera: Camera, point: Vector2): Vector2 => ({ x: point.x + camera.x, y: point.y });
+
+// Screen x of world x `x`, on a layer scrolling `depth` times as fast as the world - terrain layers parallax
+export const toScreenX = (camera: Camera, x: number, depth = 1): number => x - camera.x * depth;
+
+// The other way - x on that layer of screen x `x`
+export const fromScreenX = (camera: Camera, x: number, depth = 1): number => x + camera.x * depth;
+
+// Scroll the camera along and let effects that have run their course expire
+export const advanceCamera = (camera: Camera, distance: number, now: number) => {
+  camera.x += distance;
+  if (camera.shake && now - camera.shake.startTime > camera.shake.duration) {
+    camera.shake = null;
+  }
+  if (camera.zoom && now - camera.zoom.startTime > camera.zoom.duration) {
+    camera.zoom = null;
+  }
+};
+
+// A stronger shake takes over from a weaker one still running
+export const shakeCamera = (camera: Camera, intensity: number, duration: number, now: number) => {
+  if (!camera.shake || intensity > camera.shake.intensity) {
+    camera.shake = { intensity, duration, startTime: now };
+  }
+};
+
+// Punch in on a world position - a bigger zoom takes over from a smaller one still running
+export const zoomCamera = (camera: Camera, scale: number, duration: number, center: Vector2, now: number) => {
+  if (!camera.zoom || scale > camera.zoom.scale) {
+    camera.zoom = { scale, startTime: now, duration, centerX: center.x, centerY: center.y };
+  }
+};
+
+// What the canvas applies on top of the scroll this frame
+export interface CameraView {
+  shake: Vector2; // Screen offset
+  zoom: number; // 1 = no zoom
+  zoomCenter: Vector2; // Screen point the zoom closes in on
+}
+
+export const cameraView = (camera: Camera, now: number, settings: GameSettings): CameraView => {
+  const view: CameraView = {
+    shake: { x: 0, y: 0 },
+    zoom: 1,
+    zoomCenter: { x: settings.width / 2, y: settings.height / 2 },
+  };
+
+  if (camera.shake) {
+    const { intensity, duration, startTime } = camera.shake;
+    const elapsed = now - startTime;
+
+    if (elapsed <= duration) {
+      const currentIntensity = intensity * (1 - elapsed / duration); // Linear decay
+
+      // Use sine waves with different frequencies for smooth, natural shake
+      view.shake = {
+        x: Math.sin(elapsed * 0.03) * currentIntensity * 15,
+        y: Math.cos(elapsed * 0.04) * currentIntensity * 10,
+      };
+    }
+  }
+
+  if (camera.zoom) {
+    const { scale, duration, startTime, centerX, centerY } = camera.zoom;
+    const elapsed = now - startTime;
+
+    if (elapsed <= duration) {
+      // Ease-out curve for smooth zoom in, then quick zoom out
+      const progress = elapsed / duration;
+      const easeOut = 1 - Math.pow(1 - progress, 3); // Cubic ease-out for zoom-in
+      const easeBack = progress < 0.3
+        ? easeOut // Zoom in for first 30%
+        : 1 - ((progress - 0.3) / 0.7); // Zoom out for remaining 70%
+
+      view.zoom = 1 + (scale - 1) * Math.max(0, easeBack);
+      view.zoomCenter = worldToScreen(camera, { x: centerX, y: centerY });
+    }
+  }
+
+  return view;
+};
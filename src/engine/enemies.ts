@@ -0,0 +1,474 @@
+import {
+  GameState,
+  GameSettings,
+  Projectile,
+  SpawnTimers,
+  Saucer,
+  Alien,
+  CrawlingAlien,
+  BossRocket,
+  DiveBomber,
+  ZigzagFighter,
+  Splitter,
+  Flight,
+  Maneuver,
+  Vector2,
+} from '@/types/game';
+import { Rng } from '@/engine/random';
+import { startFlight } from '@/engine/flightPaths';
+
+// Enemy registry - when each enemy shows up, how tough it is, what it's worth and how it shoots.
+// The simulation spawns from it and the canvas draws from it, so rebalancing is a one-place edit
+
+export interface EnemyTypes {
+  saucer: Saucer;
+  alien: Alien;
+  crawlingAlien: CrawlingAlien;
+  bossRocket: BossRocket;
+  diveBomber: DiveBomber;
+  zigzagFighter: ZigzagFighter;
+  splitter: Splitter;
+}
+
+export type EnemyKind = keyof EnemyTypes;
+
+// Spawn order - also the order they're drawn in
+export const ENEMY_KINDS: EnemyKind[] = ['saucer', 'alien', 'crawlingAlien', 'bossRocket', 'diveBomber', 'zigzagFighter', 'splitter'];
+
+// GameState array holding each kind
+export const ENEMY_COLLECTIONS = {
+  saucer: 'saucers',
+  alien: 'aliens',
+  crawlingAlien: 'crawlingAliens',
+  bossRocket: 'bossRockets',
+  diveBomber: 'diveBombers',
+  zigzagFighter: 'zigzagFighters',
+  splitter: 'splitters',
+} as const satisfies Record<EnemyKind, keyof GameState>;
+
+// base + (level - from) * perLevel
+export interface LevelCurve {
+  base: number;
+  perLevel?: number;
+  from?: number;
+}
+
+// min(max, base + floor((level - from) / every)) - how many can be alive at once
+export interface CapCurve {
+  base: number;
+  every?: number; // Levels per extra slot - constant when omitted
+  from?: number;
+  max: number;
+}
+
+// aimed: one shot straight at the target, velocity from the normalized offset
+// spread: `count` shots fanned `spread` radians apart, all at once
+// burst: like spread, but queued `interval` ms apart
+export type FirePattern = 'aimed' | 'spread' | 'burst';
+
+export interface EnemyFire {
+  pattern: FirePattern;
+  rate: LevelCurve & { random?: number }; // ms between volleys, plus up to `random` ms rolled at spawn
+  speed: number;
+  damage: LevelCurve;
+  projectile: Projectile['type'];
+  size: { x: number; y: number };
+  range?: number; // Holds fire while the target is further away than this
+  count?: number;
+  spread?: number;
+  stagger?: number; // Vertical gap between the muzzles of one volley
+  interval?: number;
+}
+
+// Drawing routine in the canvas - enemies can share one
+export type EnemyRenderer = 'saucer' | 'insect' | 'critter' | 'rocketBoss' | 'jet' | 'hexFighter' | 'blob';
+
+// Where a scripted wave puts one member of its formation. Ground enemies pick their own spot
+export interface FormationSlot {
+  y: number;
+  offsetX: number; // Added to the usual off-screen spawn x
+  path?: { maneuvers: Maneuver[]; offset: Vector2 }; // Flown before the enemy's own movement takes over
+}
+
+export interface SpawnContext {
+  state: GameState;
+  settings: GameSettings;
+  rng: Rng;
+  now: number;
+  nextId: (prefix: string) => string;
+  slot?: FormationSlot; // Timer spawns roll their own height
+}
+
+export interface EnemyDefinition<K extends EnemyKind = EnemyKind> {
+  kind: K;
+  unlockLevel: number;
+  spawnTimer: keyof SpawnTimers;
+  spawnInterval: LevelCurve & { min: number }; // ms, before the difficulty spawn rate multiplier
+  cap: CapCurve;
+  countsTowardCap?: (enemy: EnemyTypes[K]) => boolean; // Everything alive counts when omitted
+  health: LevelCurve | null; // Null dies to any hit
+  score: { shot: number; bomb: number };
+  rewards: { ammo: number; bombs: number };
+  ignores: Projectile['type'][]; // Projectiles that pass straight through (mostly enemy fire)
+  fire: EnemyFire;
+  renderer: EnemyRenderer;
+  healthBar: 'none' | 'small' | 'large';
+  // Build one at its spawn point, or null if there's nowhere to put it this time
+  create: (ctx: SpawnContext) => EnemyTypes[K] | null;
+}
+
+export const evaluateCurve = (curve: LevelCurve, level: number): number => {
+  return curve.base + (level - (curve.from ?? 0)) * (curve.perLevel ?? 0);
+};
+
+export const capAt = (cap: CapCurve, level: number): number => {
+  const extra = cap.every ? Math.floor((level - (cap.from ?? 0)) / cap.every) : 0;
+  return Math.min(cap.max, cap.base + extra);
+};
+
+export const healthAt = (definition: EnemyDefinition, level: number): number => {
+  return definition.health ? evaluateCurve(definition.health, level) : 1;
+};
+
+// Rolled once, when the enemy spawns
+export const rollFireRate = (fire: EnemyFire, level: number, rng: Rng): number => {
+  const base = evaluateCurve(fire.rate, level);
+  return fire.rate.random ? base + rng.next() * fire.rate.random : base;
+};
+
+// Spawn height - the formation slot's, or rolled when spawning on a timer
+const spawnHeight = (ctx: SpawnContext, roll: () => number): number => ctx.slot ? ctx.slot.y : roll();
+
+// Off-screen spawn x, `margin` past the right edge
+const spawnX = ({ state, settings, slot }: SpawnContext, margin: number): number => {
+  return state.camera.x + settings.width + margin + (slot?.offsetX ?? 0);
+};
+
+// The slot's flight path, spread into a new flying enemy
+const slotFlight = ({ slot }: SpawnContext): { flight?: Flight } => {
+  return slot?.path ? { flight: startFlight(slot.path.maneuvers, slot.path.offset) } : {};
+};
+
+// Terrain points between `from` and `to` screen widths past the left edge of the view
+const terrainAhead = ({ state, settings }: SpawnContext, layer: 'middle' | 'foreground', from: number, to: number) => {
+  return state.terrain[layer].filter(point =>
+    point.x >= state.camera.x + settings.width * from &&
+    point.x <= state.camera.x + settings.width * to
+  );
+};
+
+export const ENEMIES: { [K in EnemyKind]: EnemyDefinition<K> } = {
+  saucer: {
+    kind: 'saucer',
+    unlockLevel: 2,
+    spawnTimer: 'lastSaucerSpawn',
+    spawnInterval: { base: 10000, perLevel: -400, from: 1, min: 4000 },
+    cap: { base: 0, every: 2, max: 4 },
+    health: null,
+    score: { shot: 200, bomb: 300 },
+    rewards: { ammo: 100, bombs: 5 },
+    ignores: ['laser'],
+    fire: {
+      pattern: 'aimed',
+      rate: { base: 2000, random: 1000 },
+      speed: 7,
+      damage: { base: 20, perLevel: 2 },
+      projectile: 'laser',
+      size: { x: 3, y: 12 },
+    },
+    renderer: 'saucer',
+    healthBar: 'none',
+    create: (ctx) => {
+      const { state, settings, rng, now, nextId } = ctx;
+      const id = nextId('saucer');
+      const spawnY = spawnHeight(ctx, () => 100 + rng.next() * (settings.height - 300)); // Random Y position in upper area
+      const targetY = state.spaceship.position.y + (rng.next() - 0.5) * 200; // Drift towards ship area
+
+      return {
+        id,
+        position: { x: spawnX(ctx, 100), y: spawnY }, // Off the right edge
+        velocity: { x: -1 - rng.next() * 0.5, y: 0 }, // Slow leftward movement
+        size: { x: 60, y: 25 }, // Ellipse dimensions
+        active: true,
+        targetY,
+        driftSpeed: 0.5 + rng.next() * 0.3,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.saucer.fire, state.level, rng),
+        ...slotFlight(ctx),
+      };
+    },
+  },
+
+  alien: {
+    kind: 'alien',
+    unlockLevel: 2,
+    spawnTimer: 'lastAlienSpawn',
+    spawnInterval: { base: 15000, perLevel: -600, from: 1, min: 6000 },
+    cap: { base: 1, every: 3, max: 4 },
+    health: { base: 50, perLevel: 10 },
+    score: { shot: 250, bomb: 400 },
+    rewards: { ammo: 100, bombs: 5 },
+    ignores: ['laser'],
+    fire: {
+      pattern: 'aimed',
+      rate: { base: 1500, random: 1000 },
+      speed: 6,
+      damage: { base: 15, perLevel: 2 },
+      projectile: 'laser',
+      size: { x: 3, y: 12 },
+      range: 600,
+    },
+    renderer: 'insect',
+    healthBar: 'small',
+    create: (ctx) => {
+      const { state, rng, now, nextId } = ctx;
+      // Stands on the middle terrain layer
+      const visibleTerrain = terrainAhead(ctx, 'middle', 0.3, 1.8);
+      if (visibleTerrain.length === 0) return null;
+
+      const spawnPoint = visibleTerrain[Math.floor(rng.next() * visibleTerrain.length)];
+      const health = healthAt(ENEMIES.alien, state.level);
+      return {
+        id: nextId('alien'),
+        position: { x: spawnPoint.x, y: spawnPoint.y - 40 }, // Above ground level
+        velocity: { x: 0, y: 0 },
+        size: { x: 30, y: 35 },
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.alien.fire, state.level, rng),
+        health,
+        maxHealth: health,
+      };
+    },
+  },
+
+  crawlingAlien: {
+    kind: 'crawlingAlien',
+    unlockLevel: 3,
+    spawnTimer: 'lastCrawlingAlienSpawn',
+    spawnInterval: { base: 15000, perLevel: -500, from: 1, min: 6000 },
+    cap: { base: 1, every: 3, from: 2, max: 3 },
+    health: { base: 60, perLevel: 15 },
+    score: { shot: 300, bomb: 450 },
+    rewards: { ammo: 100, bombs: 5 },
+    ignores: ['fire'],
+    fire: {
+      pattern: 'aimed',
+      rate: { base: 2000, random: 1000 },
+      speed: 4,
+      damage: { base: 50 },
+      projectile: 'fire',
+      size: { x: 15, y: 15 },
+      range: 700,
+    },
+    renderer: 'critter',
+    healthBar: 'small',
+    create: (ctx) => {
+      const { state, rng, now, nextId } = ctx;
+      // Crawls along the foreground terrain
+      const visibleTerrain = terrainAhead(ctx, 'foreground', 0.5, 1.5);
+      if (visibleTerrain.length === 0) return null;
+
+      const spawnPoint = visibleTerrain[Math.floor(rng.next() * visibleTerrain.length)];
+      const health = healthAt(ENEMIES.crawlingAlien, state.level);
+      return {
+        id: nextId('crawling-alien'),
+        position: { x: spawnPoint.x, y: spawnPoint.y - 25 },
+        velocity: { x: 0, y: 0 },
+        size: { x: 35, y: 20 },
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.crawlingAlien.fire, state.level, rng),
+        health,
+        maxHealth: health,
+        targetX: state.spaceship.position.x,
+        moveSpeed: 0.8 + rng.next() * 0.4,
+      };
+    },
+  },
+
+  bossRocket: {
+    kind: 'bossRocket',
+    unlockLevel: 4,
+    spawnTimer: 'lastBossSpawn',
+    spawnInterval: { base: 25000, perLevel: -2000, from: 4, min: 10000 },
+    cap: { base: 1, max: 1 }, // Only one at a time
+    health: { base: 20 }, // Takes 1 per hit, whatever hits it
+    score: { shot: 1000, bomb: 1000 },
+    rewards: { ammo: 200, bombs: 10 },
+    ignores: ['laser'],
+    fire: {
+      pattern: 'spread',
+      rate: { base: 800 },
+      speed: 4,
+      damage: { base: 30 },
+      projectile: 'laser',
+      size: { x: 6, y: 6 },
+      count: 3,
+      spread: 0.25,
+      stagger: 20,
+    },
+    renderer: 'rocketBoss',
+    healthBar: 'large',
+    create: (ctx) => {
+      const { state, settings, rng, now, nextId } = ctx;
+      const id = nextId('boss');
+      const spawnY = spawnHeight(ctx, () => settings.height / 2 + (rng.next() - 0.5) * 200); // Center-ish vertical position
+      const health = healthAt(ENEMIES.bossRocket, state.level);
+
+      return {
+        id,
+        position: { x: spawnX(ctx, 200), y: spawnY }, // Off the right edge
+        velocity: { x: -0.5, y: 0 }, // Slow leftward movement
+        size: { x: 120, y: 80 }, // Massive size
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.bossRocket.fire, state.level, rng),
+        health,
+        maxHealth: health,
+        ...slotFlight(ctx),
+      };
+    },
+  },
+
+  diveBomber: {
+    kind: 'diveBomber',
+    unlockLevel: 5,
+    spawnTimer: 'lastDiveBomberSpawn',
+    spawnInterval: { base: 12000, perLevel: -500, from: 5, min: 5000 },
+    cap: { base: 1, every: 3, from: 4, max: 2 },
+    health: { base: 40, perLevel: 8 },
+    score: { shot: 350, bomb: 500 },
+    rewards: { ammo: 80, bombs: 3 },
+    ignores: ['laser', 'fire', 'fireball'],
+    fire: {
+      pattern: 'aimed',
+      rate: { base: 1500 },
+      speed: 5,
+      damage: { base: 30 },
+      projectile: 'fire',
+      size: { x: 8, y: 8 },
+    },
+    renderer: 'jet',
+    healthBar: 'small',
+    create: (ctx) => {
+      const { state, rng, now, nextId } = ctx;
+      const id = nextId('divebomber');
+      const spawnY = spawnHeight(ctx, () => 50 + rng.next() * 100); // Spawn high
+      const health = healthAt(ENEMIES.diveBomber, state.level);
+
+      return {
+        id,
+        position: { x: spawnX(ctx, 50), y: spawnY },
+        velocity: { x: -2, y: 0 },
+        size: { x: 45, y: 25 },
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.diveBomber.fire, state.level, rng),
+        health,
+        maxHealth: health,
+        phase: 'approach',
+        diveStartY: spawnY,
+        diveTargetY: state.spaceship.position.y,
+        ...slotFlight(ctx),
+      };
+    },
+  },
+
+  zigzagFighter: {
+    kind: 'zigzagFighter',
+    unlockLevel: 6,
+    spawnTimer: 'lastZigzagFighterSpawn',
+    spawnInterval: { base: 10000, perLevel: -400, from: 6, min: 4000 },
+    cap: { base: 1, every: 3, from: 5, max: 3 },
+    health: { base: 35, perLevel: 6 },
+    score: { shot: 280, bomb: 400 },
+    rewards: { ammo: 60, bombs: 2 },
+    ignores: ['laser', 'fire', 'fireball'],
+    fire: {
+      pattern: 'burst',
+      rate: { base: 1200, perLevel: -30 },
+      speed: 6,
+      damage: { base: 20 },
+      projectile: 'laser',
+      size: { x: 5, y: 5 },
+      count: 3,
+      spread: 0.2,
+      interval: 80,
+    },
+    renderer: 'hexFighter',
+    healthBar: 'small',
+    create: (ctx) => {
+      const { state, settings, rng, now, nextId } = ctx;
+      const id = nextId('zigzag');
+      const spawnY = spawnHeight(ctx, () => 100 + rng.next() * (settings.height - 300));
+      const health = healthAt(ENEMIES.zigzagFighter, state.level);
+
+      return {
+        id,
+        position: { x: spawnX(ctx, 30), y: spawnY },
+        velocity: { x: -1.5, y: 0 },
+        size: { x: 35, y: 30 },
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.zigzagFighter.fire, state.level, rng),
+        health,
+        maxHealth: health,
+        zigzagPhase: 0,
+        zigzagAmplitude: 60 + rng.next() * 40,
+        zigzagSpeed: 0.05 + rng.next() * 0.03,
+        ...slotFlight(ctx),
+      };
+    },
+  },
+
+  splitter: {
+    kind: 'splitter',
+    unlockLevel: 7,
+    spawnTimer: 'lastSplitterSpawn',
+    spawnInterval: { base: 15000, perLevel: -600, from: 7, min: 6000 },
+    cap: { base: 1, every: 4, from: 6, max: 2 },
+    countsTowardCap: splitter => splitter.generation === 0, // Children don't hold up new spawns
+    health: { base: 80, perLevel: 10 },
+    score: { shot: 200, bomb: 200 }, // Per generation left - a full-size kill is worth 3x
+    rewards: { ammo: 50, bombs: 2 },
+    ignores: ['laser', 'fire', 'fireball'],
+    fire: {
+      pattern: 'spread',
+      rate: { base: 2000 },
+      speed: 4,
+      damage: { base: 25 }, // +5 per generation
+      projectile: 'fireball',
+      size: { x: 10, y: 10 },
+      count: 1,
+      spread: 0,
+    },
+    renderer: 'blob',
+    healthBar: 'small',
+    create: (ctx) => {
+      const { state, settings, rng, now, nextId } = ctx;
+      const id = nextId('splitter');
+      const spawnY = spawnHeight(ctx, () => 150 + rng.next() * (settings.height - 400));
+      const health = healthAt(ENEMIES.splitter, state.level);
+
+      return {
+        id,
+        position: { x: spawnX(ctx, 40), y: spawnY },
+        velocity: { x: -1, y: (rng.next() - 0.5) * 0.5 },
+        size: { x: 50, y: 50 },
+        active: true,
+        lastFireTime: now,
+        fireRate: rollFireRate(ENEMIES.splitter.fire, state.level, rng),
+        health,
+        maxHealth: health,
+        generation: 0,
+        ...slotFlight(ctx),
+      };
+    },
+  },
+};
+
+// Points for a kill, before the combo multiplier
+export const killScore = (definition: EnemyDefinition, projectile: Projectile): number => {
+  return projectile.type === 'bomb' ? definition.score.bomb : definition.score.shot;
+};
@@ -0,0 +1,56 @@
+import { PowerUp, Projectile, UpgradeableWeapon, WeaponType } from '@/types/game';
+import { EnemyKind } from '@/engine/enemies';
+
+// What the simulation reports happening during a tick. Audio, the HUD and stats listen for these
+// instead of working it out by comparing states
+
+// Rockets from the terrain, a shot-off boss part and the mega boss itself aren't registry enemies
+export type KilledEnemy = EnemyKind | 'rocket' | 'bossPart' | 'megaBoss';
+
+export type GameEvent =
+  | { type: 'shotFired'; weapon: Projectile['type'] }
+  | { type: 'enemyKilled'; enemy: KilledEnemy; score: number }
+  | { type: 'playerHit'; damage: number } // Damage that got through to the hull
+  | { type: 'shieldHit'; absorbed: number; pointsLeft: number }
+  | { type: 'shieldBroken' }
+  | { type: 'shieldRestored' } // Back up after breaking
+  | { type: 'lifeLost'; livesLeft: number }
+  | { type: 'powerUpCollected'; powerUp: PowerUp['powerUpType'] }
+  | { type: 'weaponUpgraded'; weapon: UpgradeableWeapon; level: number }
+  | { type: 'weaponSwitched'; weapon: WeaponType }
+  | { type: 'bossSpawned'; bossType: number }
+  | { type: 'bossDefeated'; bossType: number }
+  | { type: 'levelUp'; level: number }
+  | { type: 'comboMilestone'; count: number; multiplier: number };
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type EmitEvent = (event: GameEvent) => void;
+
+export interface GameEventBus {
+  emit: EmitEvent;
+  // Returns the unsubscribe function
+  on: <T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void) => () => void;
+}
+
+// The game's runner collects what each batch of ticks emits and hands it on here once the batch is done,
+// on the main thread or back from the worker alike, so handlers never run mid-tick. They see the state as
+// the batch left it and mustn't change it
+export const createEventBus = (): GameEventBus => {
+  const handlers = new Map<GameEventType, Set<(event: GameEvent) => void>>();
+
+  return {
+    emit: event => handlers.get(event.type)?.forEach(handler => handler(event)),
+    on: (type, handler) => {
+      const forType = handlers.get(type) ?? new Set();
+      handlers.set(type, forType);
+      const listener = handler as (event: GameEvent) => void;
+      forType.add(listener);
+      return () => {
+        forType.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,150 @@
+import { Camera, Flight, GameObject, Maneuver, Vector2 } from '@/types/game';
+import { screenToWorld, worldToScreen } from '@/engine/camera';
+
+// Flight paths and formations for scripted waves. A path is a list of maneuvers flown back to back
+// in screen space, relative to the camera, so a formation keeps its shape while the terrain scrolls underneath it
+
+// stream: one after another through the same point
+// column: stacked vertically
+// line: side by side, one behind the other
+// vee: a V pointing at the player
+// circle: a ring around the formation center
+export type Formation = 'stream' | 'column' | 'line' | 'vee' | 'circle';
+
+export type FlightPathName = 'swoopHold' | 'loop' | 'orbit' | 'weave';
+
+const FORMATION_SPACING = 60;
+
+// Offset of member `i` of `count` from the formation's center
+export const formationOffset = (formation: Formation, i: number, count: number): Vector2 => {
+  const fromMiddle = i - (count - 1) / 2;
+  switch (formation) {
+    case 'column':
+      return { x: 0, y: fromMiddle * FORMATION_SPACING };
+    case 'line':
+      return { x: i * FORMATION_SPACING * 1.5, y: 0 };
+    case 'vee':
+      return { x: Math.abs(fromMiddle) * FORMATION_SPACING, y: fromMiddle * FORMATION_SPACING };
+    case 'circle': {
+      const radius = Math.max(FORMATION_SPACING, (count * FORMATION_SPACING) / (2 * Math.PI));
+      const angle = (i / count) * Math.PI * 2;
+      return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+    }
+    default:
+      return { x: 0, y: 0 };
+  }
+};
+
+// Positions are where the formation center goes - each member flies to its own offset from it.
+// Most paths end with the formation on screen, where it breaks up and each enemy attacks its own way
+export const FLIGHT_PATHS: Record<FlightPathName, Maneuver[]> = {
+  // Sweep in to a station and sit there a moment
+  swoopHold: [
+    { kind: 'swoopIn', duration: 1800, to: { x: 800, y: 300 }, bulge: 100 },
+    { kind: 'hold', duration: 2500 },
+  ],
+  // Loop-the-loop on the way in
+  loop: [
+    { kind: 'bezier', duration: 2200, controls: [{ x: -700, y: 0 }, { x: 100, y: 300 }, { x: -450, y: 40 }] },
+  ],
+  // Swoop to the middle of the screen and circle it before breaking off
+  orbit: [
+    { kind: 'swoopIn', duration: 1500, to: { x: 750, y: 380 }, bulge: -80 },
+    { kind: 'orbit', duration: 4500, center: { x: 750, y: 380 }, turns: 1.5 },
+  ],
+  // Slow wide weave right across the screen
+  weave: [
+    { kind: 'sine', duration: 12000, velocity: { x: -150, y: 0 }, amplitude: 90, period: 2000 },
+  ],
+};
+
+export const startFlight = (maneuvers: Maneuver[], offset: Vector2): Flight => ({
+  maneuvers,
+  leg: 0,
+  elapsed: 0,
+  from: null,
+  offset,
+});
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// Screen position `t` ms into a maneuver that started at `from`
+const maneuverPosition = (maneuver: Maneuver, from: Vector2, offset: Vector2, t: number): Vector2 => {
+  const u = Math.min(1, t / maneuver.duration);
+
+  switch (maneuver.kind) {
+    case 'bezier': {
+      // The start point is the origin, so its term drops out
+      const [c1, c2, c3] = maneuver.controls;
+      const b = 3 * (1 - u) * (1 - u) * u;
+      const c = 3 * (1 - u) * u * u;
+      const d = u * u * u;
+      return {
+        x: from.x + b * c1.x + c * c2.x + d * c3.x,
+        y: from.y + b * c1.y + c * c2.y + d * c3.y,
+      };
+    }
+    case 'sine': {
+      const seconds = t / 1000;
+      return {
+        x: from.x + maneuver.velocity.x * seconds,
+        y: from.y + maneuver.velocity.y * seconds + Math.sin((t / maneuver.period) * Math.PI * 2) * maneuver.amplitude,
+      };
+    }
+    case 'orbit': {
+      const dx = from.x - maneuver.center.x;
+      const dy = from.y - maneuver.center.y;
+      const radius = Math.sqrt(dx * dx + dy * dy);
+      const angle = Math.atan2(dy, dx) + u * maneuver.turns * Math.PI * 2;
+      return {
+        x: maneuver.center.x + Math.cos(angle) * radius,
+        y: maneuver.center.y + Math.sin(angle) * radius,
+      };
+    }
+    case 'swoopIn': {
+      const to = { x: maneuver.to.x + offset.x, y: maneuver.to.y + offset.y };
+      const eased = easeOutCubic(u);
+      // Bow out sideways from the straight line, most in the middle of the swoop
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const length = Math.sqrt(dx * dx + dy * dy) || 1;
+      const bow = Math.sin(eased * Math.PI) * maneuver.bulge;
+      return {
+        x: from.x + dx * eased - (dy / length) * bow,
+        y: from.y + dy * eased + (dx / length) * bow,
+      };
+    }
+    default:
+      return { ...from };
+  }
+};
+
+// Moves `enemy` along its flight path. Returns false once there's no path left to fly,
+// leaving the enemy to its own movement
+export const followFlight = (enemy: GameObject & { flight?: Flight }, camera: Camera, dt: number): boolean => {
+  const { flight } = enemy;
+  if (!flight) return false;
+
+  if (!flight.from) {
+    flight.from = worldToScreen(camera, enemy.position);
+  }
+
+  flight.elapsed += dt;
+  // Carry the overshoot into the next leg, starting where the last one ended
+  while (flight.leg < flight.maneuvers.length && flight.elapsed >= flight.maneuvers[flight.leg].duration) {
+    const maneuver = flight.maneuvers[flight.leg];
+    flight.from = maneuverPosition(maneuver, flight.from, flight.offset, maneuver.duration);
+    flight.elapsed -= maneuver.duration;
+    flight.leg++;
+  }
+
+  if (flight.leg >= flight.maneuvers.length) {
+    enemy.position = screenToWorld(camera, flight.from);
+    delete enemy.flight;
+    return false;
+  }
+
+  const position = maneuverPosition(flight.maneuvers[flight.leg], flight.from, flight.offset, flight.elapsed);
+  enemy.position = screenToWorld(camera, position);
+  return true;
+};
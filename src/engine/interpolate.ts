@@ -0,0 +1,57 @@
+import { GameState, Vector2 } from '@/types/game';
+import { ENEMY_COLLECTIONS, ENEMY_KINDS } from '@/engine/enemies';
+
+// Frames between two simulation snapshots, for when they arrive from the worker at their own pace
+// rather than one per frame. Only positions, the scroll and the clock are blended - everything else
+// is taken from the newer snapshot
+
+// Anything that moved further than this between snapshots jumped (a respawn, a recycled id) - don't slide it
+const JUMP_DISTANCE = 200;
+
+interface Moving {
+  id: string | number;
+  position: Vector2;
+}
+
+// The view a fraction `alpha` (0 to 1) of the way from `from` to `to`
+export const interpolateState = (from: GameState, to: GameState, alpha: number): GameState => {
+  if (from === to || alpha >= 1) {
+    return to;
+  }
+
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+
+  const between = <T extends Moving>(before: T | undefined, after: T): T => {
+    if (!before) {
+      return after;
+    }
+    const dx = after.position.x - before.position.x;
+    const dy = after.position.y - before.position.y;
+    if (dx * dx + dy * dy > JUMP_DISTANCE * JUMP_DISTANCE) {
+      return after;
+    }
+    return { ...after, position: { x: lerp(before.position.x, after.position.x), y: lerp(before.position.y, after.position.y) } };
+  };
+
+  // Matched up by id - ones new in `to` appear where they are
+  const slide = <T extends Moving>(before: T[], after: T[]): T[] => {
+    const byId = new Map(before.map(item => [item.id, item]));
+    return after.map(item => between(byId.get(item.id), item));
+  };
+
+  const view: GameState = {
+    ...to,
+    time: lerp(from.time, to.time),
+    camera: { ...to.camera, x: lerp(from.camera.x, to.camera.x) },
+    spaceship: between(from.spaceship, to.spaceship),
+    projectiles: { ...to.projectiles, items: slide(from.projectiles.items, to.projectiles.items) },
+    rockets: slide(from.rockets, to.rockets),
+    powerUps: slide(from.powerUps, to.powerUps),
+    boss: to.boss && from.boss?.id === to.boss.id ? between(from.boss, to.boss) : to.boss,
+  };
+  ENEMY_KINDS.forEach(kind => {
+    const collection = ENEMY_COLLECTIONS[kind];
+    Object.assign(view, { [collection]: slide<Moving>(from[collection], to[collection]) });
+  });
+  return view;
+};
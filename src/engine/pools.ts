@@ -0,0 +1,113 @@
+import { ExplosionParticle, GameState, Pool, Pooled, PoolCaps, Projectile, ProjectileSpec, ScorePopup, TrailParticle, Vector2 } from '@/types/game';
+
+// Pools for the short-lived objects the game churns through every frame. Released objects wait on a
+// spare list and get written over by later spawns instead of being left to the garbage collector.
+// Spare lists live here rather than in the state, so they're never cloned or saved
+
+export type PoolName = keyof PoolCaps;
+
+interface PoolItems {
+  projectiles: Projectile;
+  trailParticles: TrailParticle;
+  explosionParticles: ExplosionParticle;
+  scorePopups: ScorePopup;
+}
+
+const vector = (): Vector2 => ({ x: 0, y: 0 });
+
+const CREATE: { [K in PoolName]: () => PoolItems[K] } = {
+  projectiles: () => ({ id: 0, position: vector(), velocity: vector(), size: vector(), active: false, damage: 0, type: 'bullet', homing: 0, pierced: null }),
+  trailParticles: () => ({ id: 0, x: 0, y: 0, size: 0, alpha: 0, color: '', life: 0 }),
+  explosionParticles: () => ({ id: 0, position: vector(), velocity: vector(), size: 0, color: '', life: 0, mega: false, startTime: 0 }),
+  scorePopups: () => ({ id: 0, position: vector(), score: 0, startTime: 0, duration: 0 }),
+};
+
+const spares: { [K in PoolName]: PoolItems[K][] } = {
+  projectiles: [],
+  trailParticles: [],
+  explosionParticles: [],
+  scorePopups: [],
+};
+
+export const createPool = <T extends Pooled>(cap: number): Pool<T> => ({ items: [], cap, nextId: 0 });
+
+const poolOf = <K extends PoolName>(state: GameState, name: K) => state[name] as Pool<PoolItems[K]>;
+
+// A live object for the caller to fill in, with a fresh id. At the cap, the oldest live one is recycled
+const acquire = <K extends PoolName>(state: GameState, name: K): PoolItems[K] => {
+  const pool = poolOf(state, name);
+  const item = pool.items.length >= pool.cap
+    ? pool.items.shift()
+    : spares[name].pop() ?? CREATE[name]();
+  item.id = pool.nextId++;
+  pool.items.push(item);
+  return item;
+};
+
+// Keep the live objects `keep` says to, in order, and release the rest to the spare list.
+// `keep` may update each object as it goes, like a filter callback. Nothing may spawn into the pool meanwhile
+export const sweep = <K extends PoolName>(state: GameState, name: K, keep: (item: PoolItems[K]) => boolean) => {
+  const pool = poolOf(state, name);
+  const spare = spares[name];
+  let kept = 0;
+  for (let i = 0; i < pool.items.length; i++) {
+    const item = pool.items[i];
+    if (keep(item)) {
+      pool.items[kept++] = item;
+    } else if (spare.length < pool.cap) {
+      spare.push(item);
+    }
+  }
+  pool.items.length = kept;
+};
+
+const copyVector = (to: Vector2, from: Vector2) => {
+  to.x = from.x;
+  to.y = from.y;
+};
+
+export const spawnProjectile = (state: GameState, spec: ProjectileSpec): Projectile => {
+  const projectile = acquire(state, 'projectiles');
+  copyVector(projectile.position, spec.position);
+  copyVector(projectile.velocity, spec.velocity);
+  copyVector(projectile.size, spec.size);
+  projectile.active = true;
+  projectile.damage = spec.damage;
+  projectile.type = spec.type;
+  projectile.homing = spec.homing ?? 0;
+  projectile.pierced = spec.pierced ? [...spec.pierced] : null;
+  return projectile;
+};
+
+export const spawnTrailParticle = (state: GameState, spec: Omit<TrailParticle, 'id'>): TrailParticle => {
+  return Object.assign(acquire(state, 'trailParticles'), spec);
+};
+
+export const spawnExplosionParticle = (
+  state: GameState,
+  position: Vector2,
+  velocity: Vector2,
+  size: number,
+  color: string,
+  mega: boolean,
+  startTime: number
+): ExplosionParticle => {
+  const particle = acquire(state, 'explosionParticles');
+  copyVector(particle.position, position);
+  copyVector(particle.velocity, velocity);
+  particle.size = size;
+  particle.color = color;
+  particle.life = 1.0;
+  particle.mega = mega;
+  particle.startTime = startTime;
+  return particle;
+};
+
+export const spawnScorePopup = (state: GameState, position: Vector2, score: number, startTime: number, duration: number): ScorePopup => {
+  const popup = acquire(state, 'scorePopups');
+  copyVector(popup.position, position);
+  popup.score = score;
+  popup.startTime = startTime;
+  popup.duration = duration;
+  return popup;
+};
@@ -0,0 +1,29 @@
+// Source of randomness for the simulation
+export interface Rng {
+  next(): number; // [0, 1)
+}
+
+export interface SeededRng extends Rng {
+  readonly state: number;
+}
+
+// mulberry32 - small, fast and plenty for gameplay. Its whole state is one uint32,
+// so it can live in GameState and be saved, cloned and resumed like any other field
+export const createRng = (state: number): SeededRng => {
+  let s = state >>> 0;
+
+  return {
+    next() {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return s;
+    },
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,37 @@
+import { SimInput } from '@/engine/simulation';
+
+// Axes are quantized to 1/127 steps and both live play and playback feed the decoded
+// value to the simulation, so a replay sees exactly the input the player's run did
+const AXIS_STEPS = 127;
+const FIRE_BIT = 1 << 16;
+const BOMB_BIT = 1 << 17;
+const CYCLE_BIT = 1 << 18;
+
+const packAxis = (value: number): number => {
+  return Math.round(Math.max(-1, Math.min(1, value)) * AXIS_STEPS) + AXIS_STEPS;
+};
+
+const unpackAxis = (packed: number): number => {
+  return (packed - AXIS_STEPS) / AXIS_STEPS;
+};
+
+// Pack one tick of input into an integer: moveX in bits 0-7, moveY in 8-15, then fire, bomb and weapon switch
+export const encodeInput = (input: SimInput): number => {
+  return (
+    packAxis(input.moveX) |
+    (packAxis(input.moveY) << 8) |
+    (input.fire ? FIRE_BIT : 0) |
+    (input.bomb ? BOMB_BIT : 0) |
+    (input.cycleWeapon ? CYCLE_BIT : 0)
+  );
+};
+
+export const decodeInput = (code: number): SimInput => {
+  return {
+    moveX: unpackAxis(code & 0xff),
+    moveY: unpackAxis((code >> 8) & 0xff),
+    fire: (code & FIRE_BIT) !== 0,
+    bomb: (code & BOMB_BIT) !== 0,
+    cycleWeapon: (code & CYCLE_BIT) !== 0,
+  };
+};
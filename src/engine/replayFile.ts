@@ -0,0 +1,174 @@
+import { Difficulty, DIFFICULTY_PRESETS, GameSettings, GAME_VERSION, Replay } from '@/types/game';
+import { DEFAULT_SETTINGS, ENGINE_VERSION } from '@/engine/simulation';
+import { STAGES } from '@/engine/stages';
+
+// Shareable replay file. Inputs are run-length encoded, since most ticks repeat the one before
+export const REPLAY_FORMAT = 'galaxy-guard-replay';
+export const REPLAY_FORMAT_VERSION = 1;
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  formatVersion: number;
+  gameVersion: string; // Informational - engineVersion decides compatibility
+  engineVersion: number;
+  seed: number;
+  difficulty: Difficulty;
+  startLevel?: number; // Missing on files recorded before level select - those started on level 1
+  stage?: number; // Campaign stage index - missing on endless runs
+  settings: GameSettings;
+  score: number;
+  level: number;
+  date: string;
+  ticks: number;
+  inputs: number[]; // Flat [code, count, code, count, ...] runs
+  checksum: string; // Over the final score and the input stream
+}
+
+export type ReplayFileResult = { replay: Replay } | { error: string };
+
+export const encodeRuns = (inputs: number[]): number[] => {
+  const runs: number[] = [];
+  for (const code of inputs) {
+    if (runs.length > 0 && runs[runs.length - 2] === code) {
+      runs[runs.length - 1]++;
+    } else {
+      runs.push(code, 1);
+    }
+  }
+  return runs;
+};
+
+export const decodeRuns = (runs: number[]): number[] => {
+  const inputs: number[] = [];
+  for (let i = 0; i < runs.length; i += 2) {
+    for (let n = 0; n < runs[i + 1]; n++) {
+      inputs.push(runs[i]);
+    }
+  }
+  return inputs;
+};
+
+// FNV-1a - not cryptographic, just enough to catch truncated or hand-edited files
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// The start level only joins the checksum when it isn't 1, and the stage only for campaign runs, so
+// older files still verify - and older builds reject runs they would play back from the wrong start
+const computeChecksum = (seed: number, score: number, ticks: number, runs: number[], startLevel: number, stage?: number): string => {
+  const level = startLevel === 1 ? '' : `:${startLevel}`;
+  const campaign = stage === undefined ? '' : `:stage${stage}`;
+  return fnv1a(`${seed}:${score}:${ticks}${level}${campaign}:${runs.join(',')}`);
+};
+
+export const createReplayFile = (replay: Replay): ReplayFile => {
+  const runs = encodeRuns(replay.inputs);
+  return {
+    format: REPLAY_FORMAT,
+    formatVersion: REPLAY_FORMAT_VERSION,
+    gameVersion: GAME_VERSION,
+    engineVersion: ENGINE_VERSION,
+    seed: replay.seed,
+    difficulty: replay.difficulty,
+    startLevel: replay.startLevel,
+    stage: replay.stage,
+    settings: DEFAULT_SETTINGS,
+    score: replay.score,
+    level: replay.level,
+    date: replay.date,
+    ticks: replay.inputs.length,
+    inputs: runs,
+    checksum: computeChecksum(replay.seed, replay.score, replay.inputs.length, runs, replay.startLevel, replay.stage),
+  };
+};
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+// Settings added since a file was written are missing from it - it was recorded before they existed,
+// under what are still their defaults. Nested settings like the pool caps compare by value
+const sameSettings = (a: GameSettings, b: GameSettings): boolean => {
+  return (Object.keys(b) as (keyof GameSettings)[]).every(
+    key => a[key] === undefined || JSON.stringify(a[key]) === JSON.stringify(b[key])
+  );
+};
+
+// Check a parsed file and turn it back into a playable replay
+export const readReplayFile = (data: unknown, id: string): ReplayFileResult => {
+  if (typeof data !== 'object' || data === null) {
+    return { error: 'Not a replay file' };
+  }
+
+  const file = data as Partial<ReplayFile>;
+  if (file.format !== REPLAY_FORMAT) {
+    return { error: 'Not a replay file' };
+  }
+  if (file.formatVersion !== REPLAY_FORMAT_VERSION) {
+    return { error: `Unsupported replay format v${file.formatVersion}` };
+  }
+  if (file.engineVersion !== ENGINE_VERSION) {
+    return {
+      error: `Recorded on game v${file.gameVersion ?? '?'} (engine ${file.engineVersion}) - this version can't play it back`,
+    };
+  }
+  if (
+    !isInteger(file.seed) || !isInteger(file.score) || !isInteger(file.level) || !isInteger(file.ticks) ||
+    typeof file.date !== 'string' || typeof file.checksum !== 'string' ||
+    !file.difficulty || !(file.difficulty in DIFFICULTY_PRESETS) ||
+    !file.settings || !Array.isArray(file.inputs) || file.inputs.length % 2 !== 0 ||
+    !file.inputs.every(value => isInteger(value) && value >= 0)
+  ) {
+    return { error: 'Replay file is malformed' };
+  }
+  const startLevel = file.startLevel ?? 1;
+  if (!isInteger(startLevel) || startLevel < 1) {
+    return { error: 'Replay file is malformed' };
+  }
+  if (file.stage !== undefined && (!isInteger(file.stage) || !STAGES[file.stage])) {
+    return { error: 'Replay file is malformed' };
+  }
+  if (!sameSettings(file.settings, DEFAULT_SETTINGS)) {
+    return { error: 'Replay was recorded with different game settings' };
+  }
+  if (computeChecksum(file.seed, file.score, file.ticks, file.inputs, startLevel, file.stage) !== file.checksum) {
+    return { error: 'Replay checksum mismatch - the file is corrupted or was edited' };
+  }
+
+  // Check run lengths add up before expanding them
+  let runTicks = 0;
+  for (let i = 1; i < file.inputs.length; i += 2) {
+    runTicks += file.inputs[i];
+  }
+  if (runTicks !== file.ticks) {
+    return { error: 'Replay file is malformed' };
+  }
+
+  const inputs = decodeRuns(file.inputs);
+
+  return {
+    replay: {
+      id,
+      seed: file.seed,
+      difficulty: file.difficulty,
+      startLevel,
+      stage: file.stage,
+      inputs,
+      score: file.score,
+      level: file.level,
+      date: file.date,
+    },
+  };
+};
+
+// Parse the text of a dropped or stored file
+export const parseReplayFile = (text: string, id: string): ReplayFileResult => {
+  try {
+    return readReplayFile(JSON.parse(text), id);
+  } catch {
+    return { error: 'Not a replay file' };
+  }
+};
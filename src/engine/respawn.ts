@@ -0,0 +1,67 @@
+import { ActivePowerUp, GameState, RespawnSettings, ShipStatus, Vector2 } from '@/types/game';
+import { EmitEvent } from '@/engine/events';
+import { screenToWorld } from '@/engine/camera';
+import { loseWeaponLevels } from '@/engine/weapons';
+
+// Losing a life. The ship blows up and is out of play for a moment, then flies back in from the left
+// edge under its own steam and stays invulnerable for a while after - the player never comes back
+// straight into whatever killed them
+
+// Where the ship starts, and flies back in to after losing a life - a screen position
+export const SHIP_SPAWN: Vector2 = { x: 100, y: 300 };
+
+// Which active power-ups go down with the ship. The shield is lost; the speed and fire-rate boosts are
+// only on a timer, so they carry on running it out. Weapons lose a level each
+export const LOST_ON_DEATH: Record<ActivePowerUp['type'], boolean> = {
+  speed: false,
+  fireRate: false,
+  shield: true,
+};
+
+export const createShipStatus = (): ShipStatus => ({ phase: 'alive', phaseStart: 0, invulnerableUntil: 0 });
+
+// Flying and under the player's control
+export const shipInPlay = (state: GameState): boolean => state.shipStatus.phase === 'alive';
+
+// In play and past its invulnerability
+export const shipVulnerable = (state: GameState, now: number): boolean =>
+  shipInPlay(state) && now >= state.shipStatus.invulnerableUntil;
+
+// Take a life and start the death sequence - the caller blows the ship up
+export const destroyShip = (state: GameState, now: number, emit: EmitEvent) => {
+  state.lives--;
+  emit({ type: 'lifeLost', livesLeft: state.lives });
+  state.shipStatus = { ...state.shipStatus, phase: 'dead', phaseStart: now };
+  state.spaceship.velocity = { x: 0, y: 0 };
+  state.activePowerUps = state.activePowerUps.filter(p => !LOST_ON_DEATH[p.type]);
+  loseWeaponLevels(state.weapons);
+};
+
+// Move the death sequence along: once the wreck has burned out the game is over or the ship flies back
+// in, and invulnerability runs from the start of the fly-in until a while after it ends
+export const updateRespawn = (state: GameState, now: number, settings: RespawnSettings) => {
+  const { spaceship } = state;
+
+  if (state.shipStatus.phase === 'dead' && now - state.shipStatus.phaseStart >= settings.deathDelay) {
+    if (state.lives <= 0) {
+      state.gameOver = true;
+      return;
+    }
+    spaceship.health = spaceship.maxHealth;
+    state.shipStatus = {
+      phase: 'flyingIn',
+      phaseStart: now,
+      invulnerableUntil: now + settings.flyInDuration + settings.invulnerability,
+    };
+  }
+
+  if (state.shipStatus.phase === 'flyingIn') {
+    const progress = Math.min(1, (now - state.shipStatus.phaseStart) / settings.flyInDuration);
+    const eased = 1 - Math.pow(1 - progress, 3); // Fast in, settling onto the spawn point
+    const startX = -spaceship.size.x;
+    spaceship.position = screenToWorld(state.camera, { x: startX + (SHIP_SPAWN.x - startX) * eased, y: SHIP_SPAWN.y });
+    if (progress >= 1) {
+      state.shipStatus = { ...state.shipStatus, phase: 'alive', phaseStart: now };
+    }
+  }
+};
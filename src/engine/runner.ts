@@ -0,0 +1,76 @@
+import { GameState } from '@/types/game';
+import { decodeInput } from '@/engine/replay';
+import { TickBatch, stepManyInPlace } from '@/engine/simulation';
+import type { FromWorker, ToWorker } from '@/engine/simulation.worker';
+
+// Runs the live game's ticks - on the main thread, or in a dedicated worker so a slow frame
+// there can't hold up the simulation. Either way the results come back through `onAdvanced`
+
+export interface Advanced extends TickBatch {
+  state: GameState;
+  code: number; // Encoded input the batch ran on
+}
+
+export interface SimulationRunner {
+  threaded: boolean; // Results arrive a little later, so the canvas interpolates between them
+  load: (state: GameState) => void; // Carry on from this state - results still due for the old one are dropped
+  advance: (ticks: number, code: number) => void;
+  dispose: () => void;
+}
+
+// Steps the state it was loaded with in place - the store's own state, so there's nothing to copy
+export const createLocalRunner = (onAdvanced: (result: Advanced) => void): SimulationRunner => {
+  let state: GameState | null = null;
+
+  return {
+    threaded: false,
+    load: next => {
+      state = next;
+    },
+    advance: (ticks, code) => {
+      if (state) {
+        onAdvanced({ ...stepManyInPlace(state, decodeInput(code), ticks), state, code });
+      }
+    },
+    dispose: () => {
+      state = null;
+    },
+  };
+};
+
+// Null where workers aren't available - the caller falls back to the local runner
+export const createWorkerRunner = (onAdvanced: (result: Advanced) => void): SimulationRunner | null => {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  let generation = 0;
+  let last: GameState | null = null;
+
+  worker.addEventListener('message', ({ data }: MessageEvent<FromWorker>) => {
+    if (data.generation !== generation || !last) {
+      return;
+    }
+    const { state, fromTick, ticks, code, events } = data;
+    last = {
+      ...state,
+      terrain: state.terrain ?? last.terrain,
+      trees: state.trees ?? last.trees,
+    };
+    onAdvanced({ state: last, fromTick, ticks, code, events });
+  });
+
+  const post = (message: ToWorker) => worker.postMessage(message);
+
+  return {
+    threaded: true,
+    load: state => {
+      generation++;
+      last = state;
+      post({ type: 'load', state, generation });
+    },
+    advance: (ticks, code) => post({ type: 'advance', ticks, code }),
+    dispose: () => worker.terminate(),
+  };
+};
@@ -0,0 +1,71 @@
+import { GameState } from '@/types/game';
+import { EmitEvent } from '@/engine/events';
+
+// The shield power-up. Picking it up raises a barrier with its own hit points that takes damage
+// before the hull does. Breaking it drops it completely; it recharges after a quiet spell and comes
+// back up once full. It all goes when the power-up runs out
+
+export const SHIELD_POINTS = 100;
+
+// A while after the last hit before it starts recharging, then this many points a tick
+const RECHARGE_DELAY = 2500;
+const RECHARGE_PER_TICK = 0.5;
+
+// Everything that can hurt the ship
+export type Hazard = 'projectile' | 'rocket' | 'saucer' | 'edge' | 'tree' | 'scrape' | 'crash';
+
+// Which hazards the shield stops. It takes the wear of scraping along the ground, but flying into a tree
+// or nose-first into the terrain is a crash, shield or not
+export const SHIELD_BLOCKS: Record<Hazard, boolean> = {
+  projectile: true,
+  rocket: true,
+  saucer: true,
+  edge: true,
+  tree: false,
+  scrape: true,
+  crash: false,
+};
+
+// Up at full strength - a second pickup while it's up (or broken) refills it
+export const raiseShield = (state: GameState) => {
+  state.shield = { points: SHIELD_POINTS, maxPoints: SHIELD_POINTS, broken: false, lastHitAt: null };
+};
+
+// Let the shield take what it can of a hit. Returns the damage left over for the hull
+export const absorbHit = (state: GameState, hazard: Hazard, damage: number, now: number, emit: EmitEvent): number => {
+  const shield = state.shield;
+  if (!shield || shield.broken || !SHIELD_BLOCKS[hazard]) {
+    return damage;
+  }
+
+  const absorbed = Math.min(shield.points, damage);
+  shield.points -= absorbed;
+  shield.lastHitAt = now;
+  emit({ type: 'shieldHit', absorbed, pointsLeft: shield.points });
+  if (shield.points <= 0) {
+    shield.broken = true;
+    emit({ type: 'shieldBroken' });
+  }
+  return damage - absorbed;
+};
+
+// Recharge, and drop the shield once its power-up has expired
+export const updateShield = (state: GameState, now: number, emit: EmitEvent) => {
+  const shield = state.shield;
+  if (!shield) {
+    return;
+  }
+  if (!state.activePowerUps.some(p => p.type === 'shield')) {
+    state.shield = null;
+    return;
+  }
+
+  if (shield.points >= shield.maxPoints || (shield.lastHitAt !== null && now - shield.lastHitAt < RECHARGE_DELAY)) {
+    return;
+  }
+  shield.points = Math.min(shield.maxPoints, shield.points + RECHARGE_PER_TICK);
+  if (shield.broken && shield.points >= shield.maxPoints) {
+    shield.broken = false;
+    emit({ type: 'shieldRestored' });
+  }
+};
@@ -0,0 +1,2249 @@
+import { GameState, GameSettings, GameObject, PowerUp, ProjectileSpec, TerrainPoint, TerrainLayers, Splitter, Vector2, Boss, StageState, Difficulty, DIFFICULTY_PRESETS } from '@/types/game';
+import { Rng, createRng, randomSeed } from '@/engine/random';
+import {
+  ENEMIES,
+  ENEMY_KINDS,
+  ENEMY_COLLECTIONS,
+  EnemyDefinition,
+  EnemyFire,
+  SpawnContext,
+  evaluateCurve,
+  capAt,
+  killScore,
+} from '@/engine/enemies';
+import {
+  BOSS_SCRIPTS,
+  BOSS_ATTACKS,
+  bossHealthAt,
+  createParts,
+  swayParts,
+  partCenter,
+  partHitbox,
+  coreHitbox,
+  phaseForHealth,
+  attackSources,
+  canUseAttack,
+} from '@/engine/bosses';
+import { STAGES, StageBoss, stageSchedule } from '@/engine/stages';
+import { followFlight } from '@/engine/flightPaths';
+import { buildGrid, checkCollision, insertIntoGrid, queryGrid } from '@/engine/broadphase';
+import { advanceCamera, createCamera, fromScreenX, screenToWorld, shakeCamera, toScreenX, worldToScreen, zoomCamera } from '@/engine/camera';
+import { FOREGROUND_DEPTH, groundContact, groundImpact } from '@/engine/terrain';
+import { EmitEvent, GameEvent, KilledEnemy } from '@/engine/events';
+import { createPool, spawnExplosionParticle, spawnProjectile, spawnScorePopup, spawnTrailParticle, sweep } from '@/engine/pools';
+import { Hazard, absorbHit, raiseShield, updateShield } from '@/engine/shield';
+import { affordableCharge, canHit, chargedBlast, createLoadout, cycleWeapon, isUpgradeableWeapon, spendShot, upgradeWeapon, weaponLevel, weaponVolley } from '@/engine/weapons';
+import { SHIP_SPAWN, createShipStatus, destroyShip, shipInPlay, shipVulnerable, updateRespawn } from '@/engine/respawn';
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  width: 1200,
+  height: 800,
+  scrollSpeed: 2,
+  spaceshipSpeed: 5,
+  bulletSpeed: 8,
+  rocketLaunchFrequency: 1200, // milliseconds - more frequent
+  rocketSpeed: 4,
+  poolCaps: {
+    projectiles: 2000,
+    trailParticles: 50,
+    explosionParticles: 2000,
+    scorePopups: 32,
+  },
+  respawn: {
+    deathDelay: 1500,
+    flyInDuration: 800,
+    invulnerability: 2000,
+  },
+};
+
+// Player input for a single tick. Axes are in [-1, 1] so analog sources can drive them directly
+export interface SimInput {
+  moveX: number;
+  moveY: number;
+  fire: boolean;
+  bomb: boolean;
+  cycleWeapon: boolean;
+}
+
+export const IDLE_INPUT: SimInput = { moveX: 0, moveY: 0, fire: false, bomb: false, cycleWeapon: false };
+
+// Bump whenever a change alters simulation results - replays recorded on another version won't play back the same
+export const ENGINE_VERSION = 11;
+
+// Fixed simulation tick. Everything moves per tick, so game speed doesn't depend on frame rate
+export const TICK_MS = 1000 / 60;
+
+// Held fire repeats like a keyboard's auto-repeat: a pause after the first shot, then a steady stream
+const FIRE_REPEAT_DELAY = 500;
+const FIRE_REPEAT_INTERVAL = 35;
+
+// Fire held past CHARGE_DELAY builds up a blast instead of repeating, full CHARGE_TIME later
+const CHARGE_DELAY = 300;
+const CHARGE_TIME = 1200;
+
+// Coming down on the terrain steeper than this, and faster than a drift, is a crash - anything gentler scrapes
+const CRASH_ANGLE = Math.PI / 4;
+const CRASH_SPEED = 2; // Pixels a tick into the ground
+
+// Scraping along the ground wears this much off the hull every SCRAPE_INTERVAL
+const SCRAPE_DAMAGE = 8;
+const SCRAPE_INTERVAL = 250;
+
+// Generate infinite terrain segments with improved detail. The seed shifts the noise phase so every run gets its own landscape
+const generateTerrainSegment = (seed: number, startX: number, segmentWidth: number = 1200): TerrainLayers => {
+  const points = Math.floor(segmentWidth / 15); // More detail - points every 15px instead of 30px
+  
+  const background: TerrainPoint[] = [];
+  const middle: TerrainPoint[] = [];
+  const foreground: TerrainPoint[] = [];
+  
+  for (let i = 0; i < points; i++) {
+    const x = startX + i * 15;
+    const seedOffset = x * 0.001 + (seed % 1000); // Use x position as seed for consistent terrain
+    
+    // Background terrain (higher, visual only) - more variation
+    background.push({
+      x,
+      y: 300 + Math.sin(seedOffset * 0.5) * 30 + Math.sin(seedOffset * 2) * 10 + Math.sin(seedOffset * 5) * 5,
+    });
+    
+    // Middle terrain (solid, affects gameplay) - more variation
+    middle.push({
+      x,
+      y: 450 + Math.sin(seedOffset * 0.8) * 40 + Math.sin(seedOffset * 3) * 15 + Math.sin(seedOffset * 6) * 8,
+    });
+    
+    // Foreground terrain (lowest, the ground the ship collides with) - more variation
+    foreground.push({
+      x,
+      y: 520 + Math.sin(seedOffset * 1.2) * 25 + Math.sin(seedOffset * 4) * 10 + Math.sin(seedOffset * 7) * 6,
+    });
+  }
+  
+  return { background, middle, foreground };
+};
+
+// Optimized explosion particles - fewer particles for better performance. They go with the explosion starting at `startTime`
+const spawnExplosionParticles = (state: GameState, rng: Rng, startTime: number, centerX: number, centerY: number, particleCount: number = 6, isMega: boolean = false) => {
+  const colors = ['#ffff00', '#ff6600', '#ff0000'];
+  const center = { x: centerX, y: centerY };
+  
+  for (let i = 0; i < particleCount; i++) {
+    const angle = (Math.PI * 2 * i) / particleCount;
+    const speed = isMega ? 3 + rng.next() * 4 : 2 + rng.next() * 2;
+    const velocity = {
+      x: Math.cos(angle) * speed,
+      y: Math.sin(angle) * speed
+    };
+    
+    spawnExplosionParticle(state, center, velocity, isMega ? 4 + rng.next() * 3 : 2, colors[i % colors.length], isMega, startTime);
+  }
+};
+
+// Initial terrain generation
+const generateInitialTerrain = (seed: number): TerrainLayers => {
+  return generateTerrainSegment(seed, 0, 3600); // Start with 3 segments
+};
+
+// Ids come from a counter in the state so a run produces the same ids every time
+const nextId = (state: GameState, prefix: string): string => {
+  return `${prefix}-${state.nextId++}`;
+};
+
+// Spawn one of a kind if it's unlocked, its timer has run out and there's room under its cap
+const spawnEnemy = (definition: EnemyDefinition, ctx: SpawnContext, spawnRateMultiplier: number) => {
+  const { state, now } = ctx;
+  if (state.level < definition.unlockLevel) return;
+
+  const interval = Math.max(
+    definition.spawnInterval.min,
+    evaluateCurve(definition.spawnInterval, state.level) / spawnRateMultiplier
+  );
+  const enemies = state[ENEMY_COLLECTIONS[definition.kind]] as GameObject[];
+  const alive = definition.countsTowardCap ? enemies.filter(definition.countsTowardCap as (enemy: GameObject) => boolean).length : enemies.length;
+  if (now - state.spawnTimers[definition.spawnTimer] <= interval || alive >= capAt(definition.cap, state.level)) return;
+
+  const enemy = definition.create(ctx);
+  if (enemy) {
+    enemies.push(enemy);
+    state.spawnTimers[definition.spawnTimer] = now;
+  }
+};
+
+// Mega boss sliding in from the right edge. `label` ends the id - the canvas picks the sprite from it
+const createMegaBoss = (state: GameState, settings: GameSettings, now: number, bossType: number, healthScale: number, label: number): Boss => {
+  const script = BOSS_SCRIPTS[bossType];
+  const health = bossHealthAt(script, state.level, DIFFICULTY_PRESETS[state.difficulty].bossHealthMultiplier * healthScale);
+
+  return {
+    id: `${nextId(state, 'mega-boss')}-${label}`,
+    position: { 
+      x: state.camera.x + settings.width + 50,
+      y: settings.height / 2 - 200
+    },
+    velocity: { x: -script.entrySpeed, y: 0 },
+    size: { x: 250, y: 400 },
+    active: true,
+    lastFireTime: now,
+    fireRate: script.phases[0].fireRate,
+    health,
+    maxHealth: health,
+    parts: createParts(script),
+    bossType,
+    phase: 0,
+    invulnerableUntil: 0,
+    attackIndex: 0,
+    telegraph: null
+  };
+};
+
+// Time after the end boss goes down before the results card, so the death explosions play out
+const STAGE_OUTRO_MS = 3000;
+
+// Campaign: release the stage's waves and bosses as the stage clock reaches them
+const runStage = (stage: StageState, ctx: SpawnContext, emit: EmitEvent) => {
+  const { state, settings, now } = ctx;
+  const definition = STAGES[stage.index];
+  const stageTime = now - state.startTime;
+
+  const schedule = stageSchedule(stage.index);
+  while (stage.nextSpawn < schedule.length && schedule[stage.nextSpawn].at <= stageTime) {
+    const { enemy, slot } = schedule[stage.nextSpawn++];
+    const created = ENEMIES[enemy].create({ ...ctx, slot });
+    if (created) {
+      (state[ENEMY_COLLECTIONS[enemy]] as GameObject[]).push(created);
+    }
+  }
+
+  // A boss is over once it's gone from the field
+  if (stage.midBoss === 'active' && !state.boss) stage.midBoss = 'defeated';
+  if (stage.endBoss === 'active' && !state.boss) {
+    stage.endBoss = 'defeated';
+    stage.clearedAt = now;
+  }
+
+  const bringIn = (boss: StageBoss) => {
+    if (state.boss || stageTime < boss.at) return false;
+    state.boss = createMegaBoss(state, settings, now, boss.script, boss.healthScale, boss.script + 1);
+    emit({ type: 'bossSpawned', bossType: boss.script });
+    return true;
+  };
+  if (stage.midBoss === 'waiting' && bringIn(definition.midBoss)) stage.midBoss = 'active';
+  if (stage.endBoss === 'waiting' && stage.midBoss === 'defeated' && bringIn(definition.endBoss)) stage.endBoss = 'active';
+
+  if (stage.clearedAt !== null && now - stage.clearedAt >= STAGE_OUTRO_MS) {
+    stage.complete = true;
+  }
+};
+
+// One volley of an enemy's fire pattern. Shots leave from `muzzle`,
+// aimed along the line from `aimFrom` to `target`. Returns false if the target is out of range
+const fireVolley = (
+  state: GameState,
+  fire: EnemyFire,
+  muzzle: Vector2,
+  aimFrom: Vector2,
+  target: Vector2,
+  damage: number,
+  now: number
+): boolean => {
+  const dx = target.x - aimFrom.x;
+  const dy = target.y - aimFrom.y;
+
+  if (fire.pattern === 'aimed') {
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (fire.range !== undefined && distance >= fire.range) return false;
+
+    spawnProjectile(state, {
+      position: muzzle,
+      velocity: { x: (dx / distance) * fire.speed, y: (dy / distance) * fire.speed },
+      size: fire.size,
+      damage,
+      type: fire.projectile,
+    });
+    return true;
+  }
+
+  const count = fire.count ?? 1;
+  const middle = (count - 1) / 2;
+  for (let i = 0; i < count; i++) {
+    const angle = Math.atan2(dy, dx) + (i - middle) * (fire.spread ?? 0);
+    const projectile: ProjectileSpec = {
+      position: { x: muzzle.x, y: muzzle.y + (i - middle) * (fire.stagger ?? 0) },
+      velocity: { x: Math.cos(angle) * fire.speed, y: Math.sin(angle) * fire.speed },
+      size: { ...fire.size },
+      damage,
+      type: fire.projectile,
+    };
+
+    if (fire.pattern === 'burst') {
+      state.pendingProjectiles.push({ fireAt: now + i * (fire.interval ?? 0), projectile });
+    } else {
+      spawnProjectile(state, projectile);
+    }
+  }
+  return true;
+};
+
+// Spawn power-up with 25% chance (increased for weapon variety)
+const maybeSpawnPowerUp = (state: GameState, rng: Rng, x: number, y: number) => {
+  if (rng.next() < 0.25) { // 25% chance
+    const types: ('speed' | 'fireRate' | 'shield' | 'spread' | 'laser' | 'missile')[] = 
+      ['speed', 'fireRate', 'shield', 'spread', 'laser', 'missile'];
+    const type = types[Math.floor(rng.next() * types.length)];
+    
+    state.powerUps.push({
+      id: nextId(state, 'powerup'),
+      position: { x, y },
+      velocity: { x: 0, y: 1.5 }, // Fall slowly
+      size: { x: 25, y: 25 },
+      active: true,
+      powerUpType: type
+    });
+  }
+};
+
+// Fires on the press. Held on, the gun charges a blast and holds its fire, only as far as the ammunition
+// can pay for - without enough for the smallest blast it auto-repeats instead. The fire rate boost
+// fires every tick while held and never charges
+const shouldFire = (state: GameState, fire: boolean, rapid: boolean, now: number): boolean => {
+  const { trigger } = state;
+  if (!fire) {
+    trigger.fireHeldSince = null;
+    return false;
+  }
+  if (trigger.fireHeldSince === null) {
+    trigger.fireHeldSince = now;
+    return true;
+  }
+  if (rapid) {
+    trigger.charge = 0;
+    return true;
+  }
+  const built = Math.min(1, (now - trigger.fireHeldSince - CHARGE_DELAY) / CHARGE_TIME);
+  trigger.charge = Math.max(0, Math.min(built, affordableCharge(state.spaceship.ammunition)));
+  if (trigger.charge > 0) return false;
+  return now - trigger.fireHeldSince >= FIRE_REPEAT_DELAY && now - trigger.lastShotTime >= FIRE_REPEAT_INTERVAL;
+};
+
+// The charge let go as fire is released, otherwise 0
+const releaseCharge = (state: GameState, fire: boolean): number => {
+  const { trigger } = state;
+  if (fire) return 0;
+  const { charge } = trigger;
+  trigger.charge = 0;
+  return charge;
+};
+
+// Fresh run on the menu, not yet playing. The same seed and inputs always replay the same run.
+// Passing a stage index starts that campaign stage instead of an endless run
+export const createInitialState = (difficulty: Difficulty, seed: number = randomSeed(), startLevel = 1, stage: number | null = null): GameState => {
+  const { poolCaps } = DEFAULT_SETTINGS;
+  // Apply difficulty to initial health
+  const initialHealth = Math.floor(100 * DIFFICULTY_PRESETS[difficulty].healthMultiplier);
+  const level = stage === null ? startLevel : STAGES[stage].level;
+
+  return {
+    isPlaying: false,
+    isPaused: false,
+    gameOver: false,
+    mode: stage === null ? 'endless' : 'campaign',
+    stage: stage === null ? null : {
+      index: stage,
+      nextSpawn: 0,
+      midBoss: 'waiting',
+      endBoss: 'waiting',
+      kills: 0,
+      clearedAt: null,
+      complete: false,
+    },
+    level,
+    startLevel: level,
+    score: 0,
+    lives: 5,
+    camera: createCamera(),
+    startTime: 0,
+    spaceship: {
+      id: 'player',
+      position: { ...SHIP_SPAWN },
+      velocity: { x: 0, y: 0 },
+      size: { x: 120, y: 60 },
+      active: true,
+      health: initialHealth,
+      maxHealth: initialHealth,
+      ammunition: 1000,
+      bombs: 5,
+    },
+    shipStatus: createShipStatus(),
+    lastScrapeAt: null,
+    rockets: [],
+    projectiles: createPool(poolCaps.projectiles),
+    saucers: [],
+    aliens: [],
+    crawlingAliens: [],
+    diveBombers: [],
+    zigzagFighters: [],
+    splitters: [],
+    bossRockets: [],
+    boss: null,
+    terrain: generateInitialTerrain(seed),
+    explosions: [],
+    explosionParticles: createPool(poolCaps.explosionParticles),
+    trees: [],
+    powerUps: [],
+    activePowerUps: [],
+    weapons: createLoadout(),
+    shield: null,
+    trailParticles: createPool(poolCaps.trailParticles),
+    screenFlash: null,
+    slowMotion: null,
+    combo: { count: 0, multiplier: 1, lastKillTime: 0, comboTimeout: 2000 },
+    scorePopups: createPool(poolCaps.scorePopups),
+    tick: 0,
+    time: 0,
+    seed,
+    rngState: seed,
+    difficulty,
+    spawnTimers: {
+      lastRocketLaunch: 0,
+      lastSaucerSpawn: 0,
+      lastAlienSpawn: 0,
+      lastCrawlingAlienSpawn: 0,
+      lastBossSpawn: 0,
+      lastDiveBomberSpawn: 0,
+      lastZigzagFighterSpawn: 0,
+      lastSplitterSpawn: 0,
+      lastMegaBossInterval: 0, // First mega boss at interval 1 (0:30)
+    },
+    // Enemy coordination system - tracks attack events for coordinated behavior
+    coordination: {
+      lastAttackTime: 0,
+      attackerPosition: null,
+      supportWindow: 0,
+      aggroLevel: 0,
+    },
+    trigger: { fireHeldSince: null, lastShotTime: 0, charge: 0, bombHeld: false, cycleHeld: false },
+    pendingProjectiles: [],
+    nextId: 0,
+  };
+};
+
+// Advance `state` in place by one tick
+const advance = (state: GameState, input: SimInput, rng: Rng, emit: EmitEvent) => {
+  const settings = DEFAULT_SETTINGS;
+  const difficulty = DIFFICULTY_PRESETS[state.difficulty];
+
+  state.tick++;
+  state.time += TICK_MS;
+  const now = state.time;
+
+  // Release queued burst shots that are due
+  if (state.pendingProjectiles.length > 0) {
+    state.pendingProjectiles = state.pendingProjectiles.filter(pending => {
+      if (pending.fireAt > now) return true;
+      spawnProjectile(state, pending.projectile);
+      return false;
+    });
+  }
+
+  // Helper to trigger screen shake
+  const triggerScreenShake = (intensity: number, duration: number) => {
+    shakeCamera(state.camera, intensity, duration, now);
+  };
+
+  // Helper to trigger screen flash
+  const triggerScreenFlash = (color: string, intensity: number, duration: number) => {
+    state.screenFlash = { color, intensity, startTime: now, duration };
+  };
+
+  // Helper to trigger screen zoom (for big explosions)
+  const triggerScreenZoom = (scale: number, duration: number, centerX: number, centerY: number) => {
+    zoomCamera(state.camera, scale, duration, { x: centerX, y: centerY }, now);
+  };
+
+  // Helper to trigger slow motion (for critical hits and boss kills)
+  const triggerSlowMotion = (timeScale: number, duration: number) => {
+    // Only trigger if no existing slow motion or new one is slower
+    if (!state.slowMotion || timeScale < state.slowMotion.timeScale) {
+      state.slowMotion = { timeScale, startTime: now, duration };
+    }
+  };
+
+  // === ENEMY COORDINATION SYSTEM ===
+  // Signal that an enemy is attacking - triggers support from nearby enemies
+  const signalAttack = (attackerX: number, attackerY: number) => {
+    state.coordination.lastAttackTime = now;
+    state.coordination.attackerPosition = { x: attackerX, y: attackerY };
+    state.coordination.supportWindow = now + 800; // 800ms window for support attacks
+    state.coordination.aggroLevel = Math.min(1, state.coordination.aggroLevel + 0.15);
+  };
+
+  // Check if we're in a support attack window (another enemy just attacked)
+  const isInSupportWindow = (): boolean => {
+    return now < state.coordination.supportWindow;
+  };
+
+  // Get fire rate modifier based on coordination (faster when supporting)
+  const getSupportedFireRate = (baseRate: number): number => {
+    if (isInSupportWindow()) {
+      return baseRate * 0.5; // Fire twice as fast when supporting
+    }
+    return baseRate * (1 - state.coordination.aggroLevel * 0.3);
+  };
+
+  // Check if enemy should join attack based on proximity to attacker
+  const shouldJoinAttack = (enemyX: number, enemyY: number, chance: number = 0.6): boolean => {
+    if (!isInSupportWindow() || !state.coordination.attackerPosition) return false;
+    const dx = enemyX - state.coordination.attackerPosition.x;
+    const dy = enemyY - state.coordination.attackerPosition.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    const distanceFactor = Math.max(0, 1 - dist / 500);
+    return rng.next() < chance * distanceFactor;
+  };
+
+  // Decay aggro level over time
+  if (now - state.coordination.lastAttackTime > 2000) {
+    state.coordination.aggroLevel = Math.max(0, state.coordination.aggroLevel - 0.01);
+  }
+
+  // Clean up expired screen flash
+  if (state.screenFlash && now - state.screenFlash.startTime > state.screenFlash.duration) {
+    state.screenFlash = null;
+  }
+
+  // Clean up expired slow motion
+  if (state.slowMotion && now - state.slowMotion.startTime > state.slowMotion.duration) {
+    state.slowMotion = null;
+  }
+
+  // Combo system - reset if too much time passed since last kill
+  if (state.combo.count > 0 && now - state.combo.lastKillTime > state.combo.comboTimeout) {
+    state.combo = { count: 0, multiplier: 1, lastKillTime: 0, comboTimeout: 2000 };
+  }
+
+  // Clean up expired score popups
+  sweep(state, 'scorePopups', popup => now - popup.startTime < popup.duration);
+
+  // Ammo and bombs for destroying a registry enemy
+  const grantKillRewards = (definition: EnemyDefinition) => {
+    state.spaceship.ammunition += definition.rewards.ammo;
+    state.spaceship.bombs += definition.rewards.bombs;
+  };
+
+  // Helper to register kills, update combo, and create score popup
+  const registerKill = (baseScore: number, worldX: number, worldY: number, enemy: KilledEnemy) => {
+    const timeSinceLastKill = now - state.combo.lastKillTime;
+    
+    if (timeSinceLastKill < state.combo.comboTimeout) {
+      // Continue combo
+      state.combo.count += 1;
+      // Multiplier caps at 5x
+      state.combo.multiplier = Math.min(5, 1 + state.combo.count * 0.25);
+    } else {
+      // Start new combo
+      state.combo.count = 1;
+      state.combo.multiplier = 1;
+    }
+    state.combo.lastKillTime = now;
+    if (state.stage) state.stage.kills++;
+    
+    // Calculate final score with multiplier
+    const finalScore = Math.floor(baseScore * state.combo.multiplier);
+    
+    // Trigger slow-mo for high combos (5+ kills)
+    if (state.combo.count >= 5 && state.combo.count % 5 === 0) {
+      triggerSlowMotion(0.5, 250); // Brief slow-mo for combo milestone
+      emit({ type: 'comboMilestone', count: state.combo.count, multiplier: state.combo.multiplier });
+    }
+    
+    // Create score popup at kill location
+    spawnScorePopup(state, { x: worldX, y: worldY }, finalScore, now, 1500);
+    emit({ type: 'enemyKilled', enemy, score: finalScore });
+    
+    return finalScore;
+  };
+
+  // Put a hit through the shield, and what's left of it into the hull. Returns the hull damage
+  const hitShip = (hazard: Hazard, damage: number): number => {
+    const hullDamage = absorbHit(state, hazard, damage, now, emit);
+    if (hullDamage > 0) {
+      state.spaceship.health -= hullDamage;
+      emit({ type: 'playerHit', damage: hullDamage });
+    }
+    return hullDamage;
+  };
+
+  // Out of health or crashed - blow the ship up and start the death sequence
+  const loseLife = () => {
+    destroyShip(state, now, emit);
+    triggerScreenShake(0.7, 400); // Losing a life
+    state.explosions.push({
+      id: nextId(state, 'explosion'),
+      position: { x: state.spaceship.position.x, y: state.spaceship.position.y },
+      startTime: now
+    });
+    spawnExplosionParticles(state, rng, now,
+      state.spaceship.position.x + state.spaceship.size.x / 2,
+      state.spaceship.position.y + state.spaceship.size.y / 2,
+      16, true
+    );
+  };
+
+  // Hull hits flash red, ones the shield soaked up cyan
+  const hitFlashColor = (hullDamage: number) => hullDamage > 0 ? '#ff0000' : '#00ffff';
+
+  // Calculate time scale for slow motion effect
+  let timeScale = 1;
+  if (state.slowMotion) {
+    const elapsed = now - state.slowMotion.startTime;
+    if (elapsed <= state.slowMotion.duration) {
+      // Smooth ease-in-out for time scale
+      const progress = elapsed / state.slowMotion.duration;
+      const easeInOut = progress < 0.3 
+        ? progress / 0.3  // Ease into slow-mo
+        : progress > 0.7 
+          ? 1 - ((progress - 0.7) / 0.3)  // Ease out of slow-mo
+          : 1;  // Full slow-mo in middle
+      timeScale = 1 - (1 - state.slowMotion.timeScale) * easeInOut;
+    }
+  }
+
+  // Update world scroll - speed increases with level (very gradual for playability)
+  // Apply time scale for slow motion effect
+  // Level 1: base speed, increases very slowly after
+  const levelSpeedBonus = state.level <= 3 ? 0 : (state.level - 3) * 0.1;
+  const currentScrollSpeed = (settings.scrollSpeed + levelSpeedBonus) * timeScale;
+  advanceCamera(state.camera, currentScrollSpeed, now);
+
+  // The ship and the shots fly in the camera's frame, so it carries them along - queued shots too
+  state.spaceship.position.x += currentScrollSpeed;
+  state.projectiles.items.forEach(projectile => projectile.position.x += currentScrollSpeed);
+  state.pendingProjectiles.forEach(({ projectile }) => projectile.position.x += currentScrollSpeed);
+  
+  // Generate new terrain if needed (infinite scrolling)
+  const lastTerrainX = Math.max(
+    ...state.terrain.middle.map(p => p.x)
+  );
+  
+  if (lastTerrainX < state.camera.x + settings.width * 2) {
+    const newSegment = generateTerrainSegment(state.seed, lastTerrainX, 1200);
+    state.terrain.background.push(...newSegment.background);
+    state.terrain.middle.push(...newSegment.middle);
+    state.terrain.foreground.push(...newSegment.foreground);
+    
+    // Generate trees on the foreground terrain
+    for (let x = lastTerrainX; x < lastTerrainX + 1200; x += 200 + Math.floor(Math.sin(x * 0.01) * 100)) {
+      const terrainY = state.terrain.foreground.find(p => Math.abs(p.x - x) < 10)?.y || 650;
+      state.trees.push({
+        x: x,
+        y: terrainY - 60, // Position tree above terrain
+        width: 40,
+        height: 80,
+      });
+    }
+  }
+  
+  // Aggressive cleanup for better performance - keep only visible terrain
+  const minX = state.camera.x - settings.width * 0.2;
+  state.terrain.background = state.terrain.background.filter(p => p.x > minX);
+  state.terrain.middle = state.terrain.middle.filter(p => p.x > minX);
+  state.terrain.foreground = state.terrain.foreground.filter(p => p.x > minX);
+  state.trees = state.trees.filter(t => t.x > minX);
+  
+  // Cleanup old explosions (keep only active ones) along with their particles
+  state.explosions = state.explosions.filter(exp => now - exp.startTime < 500);
+  sweep(state, 'explosionParticles', particle => now - particle.startTime < 500);
+  
+  // Remove expired power-ups (both collectibles and active effects)
+  state.powerUps = state.powerUps.filter(p => p.active && p.position.y < settings.height + 100);
+  state.activePowerUps = state.activePowerUps.filter(p => p.expiresAt > now);
+  updateShield(state, now, emit);
+  updateRespawn(state, now, settings.respawn);
+
+  // The player has no say over a ship that's wrecked or still flying back in
+  const controls = shipInPlay(state) ? input : IDLE_INPUT;
+
+  // Check for active speed boost
+  const hasSpeedBoost = state.activePowerUps.some(p => p.type === 'speed');
+  const speedMultiplier = hasSpeedBoost ? 1.5 : 1;
+  
+  // Handle spaceship movement - axes are already clamped to [-1, 1] by the caller
+  state.spaceship.velocity.x = controls.moveX * settings.spaceshipSpeed * speedMultiplier;
+  state.spaceship.velocity.y = controls.moveY * settings.spaceshipSpeed * speedMultiplier;
+
+  // Update spaceship position
+  state.spaceship.position.x += state.spaceship.velocity.x;
+  state.spaceship.position.y += state.spaceship.velocity.y;
+
+  // Check edge collision - ship explodes if touching edges
+  const shipOnScreen = worldToScreen(state.camera, state.spaceship.position);
+  const hitLeftEdge = shipOnScreen.x <= 0;
+  const hitRightEdge = shipOnScreen.x >= settings.width - state.spaceship.size.x;
+  const hitTopEdge = shipOnScreen.y <= 0;
+  const hitBottomEdge = shipOnScreen.y >= settings.height - state.spaceship.size.y;
+  
+  if (shipInPlay(state) && (hitLeftEdge || hitRightEdge || hitTopEdge || hitBottomEdge)) {
+    // Damage spaceship for hitting edges (apply difficulty damage multiplier) - while invulnerable it's only held in
+    if (shipVulnerable(state, now)) {
+      const edgeDamage = hitShip('edge', Math.floor(50 * difficulty.damageMultiplier));
+      triggerScreenShake(0.3, 150);
+      triggerScreenFlash(hitFlashColor(edgeDamage), 0.4, 150);
+
+      // Create explosion at spaceship position
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { x: state.spaceship.position.x, y: state.spaceship.position.y },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now,
+        state.spaceship.position.x, 
+        state.spaceship.position.y + state.spaceship.size.y / 2,
+        8 // Reduced particle count
+      );
+    }
+    
+    if (state.spaceship.health <= 0) {
+      loseLife();
+    } else {
+      // Push ship back from edge
+      if (hitLeftEdge) shipOnScreen.x = 1;
+      if (hitRightEdge) shipOnScreen.x = settings.width - state.spaceship.size.x - 1;
+      if (hitTopEdge) shipOnScreen.y = 1;
+      if (hitBottomEdge) shipOnScreen.y = settings.height - state.spaceship.size.y - 1;
+      state.spaceship.position = screenToWorld(state.camera, shipOnScreen);
+    }
+  }
+
+  // Check terrain collision - the foreground is solid. A steep dive into it is a crash; anything else
+  // scrapes along, pushed back up onto the surface and worn down as it goes
+  const groundOnScreen = worldToScreen(state.camera, state.spaceship.position);
+  const groundLeft = fromScreenX(state.camera, groundOnScreen.x, FOREGROUND_DEPTH);
+  const ground = shipInPlay(state)
+    ? groundContact(state.terrain.foreground, groundLeft, groundLeft + state.spaceship.size.x, groundOnScreen.y + state.spaceship.size.y)
+    : null;
+
+  if (!ground) {
+    state.lastScrapeAt = null;
+  } else {
+    // Against the ground, which streams past faster than the world scrolls
+    const impact = groundImpact(
+      state.spaceship.velocity.x + currentScrollSpeed * FOREGROUND_DEPTH,
+      state.spaceship.velocity.y,
+      ground.slope
+    );
+    const contactPoint = screenToWorld(state.camera, { x: toScreenX(state.camera, ground.x, FOREGROUND_DEPTH), y: ground.y });
+    const vulnerable = shipVulnerable(state, now);
+    const firstContact = state.lastScrapeAt === null;
+
+    if (vulnerable && firstContact && impact.speed > CRASH_SPEED && impact.angle > CRASH_ANGLE) {
+      hitShip('crash', state.spaceship.health);
+      loseLife();
+      triggerScreenShake(0.8, 450); // Terrain crash - heavy impact
+    } else {
+      groundOnScreen.y -= ground.depth;
+      state.spaceship.position = screenToWorld(state.camera, groundOnScreen);
+
+      // An invulnerable ship still keeps the scrape clock going, so it can't crash on the spot once that runs out
+      if (firstContact || now - state.lastScrapeAt >= SCRAPE_INTERVAL) {
+        state.lastScrapeAt = now;
+      }
+      if (vulnerable && state.lastScrapeAt === now) {
+        const scrapeDamage = hitShip('scrape', Math.floor(SCRAPE_DAMAGE * difficulty.damageMultiplier));
+        triggerScreenShake(0.15, 100);
+        triggerScreenFlash(hitFlashColor(scrapeDamage), 0.15, 80);
+        spawnExplosionParticles(state, rng, now, contactPoint.x, contactPoint.y, 3); // Sparks off the hull
+
+        if (state.spaceship.health <= 0) {
+          loseLife();
+        }
+      }
+    }
+  }
+
+  // Check for fire rate boost
+  const hasFireRateBoost = state.activePowerUps.some(p => p.type === 'fireRate');
+  
+  // Switch weapon - once per press
+  const { weapons } = state;
+  if (controls.cycleWeapon && !state.trigger.cycleHeld) {
+    cycleWeapon(weapons, emit);
+  }
+  state.trigger.cycleHeld = controls.cycleWeapon;
+
+  const muzzle = {
+    x: state.spaceship.position.x + state.spaceship.size.x,
+    y: state.spaceship.position.y + state.spaceship.size.y / 2,
+  };
+
+  // Handle shooting (with fire rate boost allowing rapid fire)
+  if (shouldFire(state, controls.fire, hasFireRateBoost, now) && state.spaceship.ammunition > 0) {
+    const volley = weaponVolley(weapons.selected, weaponLevel(weapons, weapons.selected), muzzle, settings.bulletSpeed);
+    volley.projectiles.forEach(spec => spawnProjectile(state, spec));
+    state.spaceship.ammunition = Math.max(0, state.spaceship.ammunition - volley.ammo);
+    emit({ type: 'shotFired', weapon: volley.projectiles[0].type });
+    state.trigger.lastShotTime = now;
+  }
+
+  // Let go of fire to loose the blast. One let go as the ship goes down fizzles out with it
+  const charge = releaseCharge(state, controls.fire);
+  const blast = charge > 0 && shipInPlay(state) ? chargedBlast(charge, muzzle, settings.bulletSpeed) : null;
+  if (blast && state.spaceship.ammunition >= blast.ammo) {
+    blast.projectiles.forEach(spec => spawnProjectile(state, spec));
+    state.spaceship.ammunition -= blast.ammo;
+    emit({ type: 'shotFired', weapon: 'charge' });
+    triggerScreenShake(0.15 + charge * 0.3, 150);
+  }
+
+  // Handle bombing - one bomb per press, holding the button doesn't auto-bomb
+  const bombPressed = controls.bomb && !state.trigger.bombHeld;
+  state.trigger.bombHeld = controls.bomb;
+  if (bombPressed && state.spaceship.bombs > 0) {
+    spawnProjectile(state, {
+      position: { 
+        x: state.spaceship.position.x + state.spaceship.size.x, 
+        y: state.spaceship.position.y + state.spaceship.size.y 
+      },
+      velocity: { x: settings.bulletSpeed * 0.7, y: 2 },
+      size: { x: 12, y: 8 },
+      damage: 100,
+      type: 'bomb',
+    });
+    state.spaceship.bombs--;
+    emit({ type: 'shotFired', weapon: 'bomb' });
+  }
+
+  // Launch rockets from terrain - very gentle scaling for playability
+  // Level 1: 3000ms (very slow), gradually decreases
+  // Apply difficulty spawn rate multiplier (higher = faster spawns = harder)
+  const baseRocketFreq = 3000; // Start slow for level 1
+  const rocketFreq = Math.max(1000, (baseRocketFreq - (state.level - 1) * 150) / difficulty.spawnRateMultiplier);
+  // Level 1: max 2 rockets, increases slowly
+  const maxRockets = Math.min(6, 1 + Math.floor(state.level / 2));
+  
+  if (now - state.spawnTimers.lastRocketLaunch > rocketFreq && state.rockets.length < maxRockets) {
+    // Find visible terrain points to launch from - broader search range
+    const visibleTerrain = state.terrain.middle.filter(point => 
+      point.x >= state.camera.x + settings.width * 0.5 && 
+      point.x <= state.camera.x + settings.width * 2.0
+    );
+    
+    // Fallback: if no visible terrain, create a launch point
+    let launchPoint;
+    if (visibleTerrain.length > 0) {
+      launchPoint = visibleTerrain[Math.floor(rng.next() * visibleTerrain.length)];
+    } else {
+      // Create emergency launch point
+      launchPoint = {
+        x: state.camera.x + settings.width * 0.8 + rng.next() * settings.width * 0.4,
+        y: 450 + rng.next() * 50
+      };
+    }
+    
+    const rocketId = nextId(state, 'rocket');
+    
+    // Randomly choose rocket type (70% normal, 30% heavy)
+    const isHeavy = rng.next() < 0.3 + (state.level - 1) * 0.02; // More heavy rockets at higher levels (reduced scaling)
+    
+    if (isHeavy) {
+      // Heavy rocket - bigger and slower
+      state.rockets.push({
+        id: rocketId,
+        position: { x: launchPoint.x, y: launchPoint.y },
+        velocity: { x: 0, y: -2 }, // Slower speed
+        size: { x: 16, y: 50 }, // Bigger size
+        active: true,
+        launchTime: now,
+        explosionRadius: 80, // Bigger explosion
+        type: 'heavy'
+      });
+    } else {
+      // Normal rocket
+      state.rockets.push({
+        id: rocketId,
+        position: { x: launchPoint.x, y: launchPoint.y },
+        velocity: { x: 0, y: -settings.rocketSpeed },
+        size: { x: 8, y: 30 },
+        active: true,
+        launchTime: now,
+        explosionRadius: 40,
+        type: 'normal'
+      });
+    }
+    
+    state.spawnTimers.lastRocketLaunch = now;
+  }
+
+  const spawnContext: SpawnContext = { state, settings, rng, now, nextId: prefix => nextId(state, prefix) };
+  
+  if (state.stage) {
+    // Campaign stages bring in their own authored waves and bosses
+    runStage(state.stage, spawnContext, emit);
+  } else {
+    // Spawn registry enemies - each unlocks at its level, then comes faster and in greater numbers
+    ENEMY_KINDS.forEach(kind => spawnEnemy(ENEMIES[kind], spawnContext, difficulty.spawnRateMultiplier));
+
+    // Spawn MEGA BOSS at 0:30, 1:00, 1:30, etc. (every 30 seconds)
+    const gameTime = now - state.startTime;
+    const currentInterval = Math.floor(gameTime / 30000); // Which 30s interval (0, 1, 2, 3...)
+    
+    // Spawn boss if we're past 30s and haven't spawned for this interval yet
+    if (gameTime >= 30000 && currentInterval > state.spawnTimers.lastMegaBossInterval) {
+      // Only spawn if no boss exists OR if existing boss is not active
+      if (!state.boss || !state.boss.active) {
+        // Scripts take turns, one per interval
+        state.boss = createMegaBoss(state, settings, now, currentInterval % BOSS_SCRIPTS.length, 1, currentInterval);
+        state.spawnTimers.lastMegaBossInterval = currentInterval;
+        emit({ type: 'bossSpawned', bossType: state.boss.bossType });
+      }
+    }
+  }
+
+  // Generate trail particles from player projectiles
+  state.projectiles.items.forEach(proj => {
+    if (proj.active) {
+      let trailColor = '#00ffff';
+      let trailCount = 2;
+      let trailSize = 2;
+      
+      if (proj.type === 'bullet') {
+        trailColor = '#00ffff';
+      } else if (proj.type === 'bomb') {
+        trailColor = '#ff6600';
+        trailSize = 3;
+      } else if (proj.type === 'spread') {
+        trailColor = '#ffff00';
+        trailCount = 1;
+      } else if (proj.type === 'player_laser') {
+        trailColor = '#00ff88';
+        trailCount = 3;
+        trailSize = 1;
+      } else if (proj.type === 'missile') {
+        trailColor = '#ff4400';
+        trailCount = 4;
+        trailSize = 4;
+      } else if (proj.type === 'charge') {
+        trailColor = '#66ccff';
+        trailCount = 3;
+        trailSize = 4;
+      } else {
+        return; // Skip enemy projectiles
+      }
+      
+      for (let i = 0; i < trailCount; i++) {
+        spawnTrailParticle(state, {
+          x: proj.position.x - rng.next() * 5,
+          y: proj.position.y + (rng.next() - 0.5) * 4,
+          size: trailSize + rng.next(),
+          alpha: 0.8,
+          color: trailColor,
+          life: 1.0,
+        });
+      }
+    }
+  });
+
+  // Update and decay trail particles - the pool caps how many there are
+  sweep(state, 'trailParticles', p => {
+    p.alpha -= 0.06;
+    p.size *= 0.94;
+    p.life -= 0.06;
+    return p.alpha > 0 && p.life > 0;
+  });
+
+  // Update projectiles
+  sweep(state, 'projectiles', projectile => {
+    if (!projectile.active) return false;
+    
+    // Missile homing logic - find nearest enemy
+    if (projectile.homing > 0) {
+      let nearestEnemy: { x: number; y: number } | null = null;
+      let nearestDist = Infinity;
+      
+      // Check saucers
+      state.saucers.forEach(s => {
+        if (!s.active) return;
+        const dx = s.position.x - projectile.position.x;
+        const dy = s.position.y - projectile.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < nearestDist && dx > 0) {
+          nearestDist = dist;
+          nearestEnemy = { x: s.position.x, y: s.position.y };
+        }
+      });
+      
+      // Check boss rockets
+      state.bossRockets.forEach(b => {
+        if (!b.active) return;
+        const dx = b.position.x - projectile.position.x;
+        const dy = b.position.y - projectile.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < nearestDist && dx > 0) {
+          nearestDist = dist;
+          nearestEnemy = { x: b.position.x, y: b.position.y };
+        }
+      });
+      
+      // Check mega boss
+      if (state.boss?.active) {
+        const dx = state.boss.position.x - projectile.position.x;
+        const dy = state.boss.position.y - projectile.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < nearestDist && dx > 0) {
+          nearestDist = dist;
+          nearestEnemy = { x: state.boss.position.x, y: state.boss.position.y + state.boss.size.y / 2 };
+        }
+      }
+      
+      // Home towards nearest enemy
+      if (nearestEnemy && nearestDist < 400) {
+        const dx = nearestEnemy.x - projectile.position.x;
+        const dy = nearestEnemy.y - projectile.position.y;
+        const angle = Math.atan2(dy, dx);
+        const speed = Math.sqrt(projectile.velocity.x ** 2 + projectile.velocity.y ** 2);
+        
+        // Gradually adjust velocity towards target
+        const currentAngle = Math.atan2(projectile.velocity.y, projectile.velocity.x);
+        let angleDiff = angle - currentAngle;
+        
+        // Normalize angle difference
+        while (angleDiff > Math.PI) angleDiff -= Math.PI * 2;
+        while (angleDiff < -Math.PI) angleDiff += Math.PI * 2;
+        
+        const newAngle = currentAngle + angleDiff * projectile.homing;
+        projectile.velocity.x = Math.cos(newAngle) * speed;
+        projectile.velocity.y = Math.sin(newAngle) * speed;
+      }
+    }
+    
+    projectile.position.x += projectile.velocity.x * timeScale;
+    projectile.position.y += projectile.velocity.y * timeScale;
+    
+    // Remove if off screen (all edges for boss fireballs)
+    const onScreen = worldToScreen(state.camera, projectile.position);
+    if (onScreen.x < -100 || onScreen.x > settings.width + 100 || 
+        onScreen.y < -100 || onScreen.y > settings.height + 100) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Update rockets (move upward and cull off-screen)
+  state.rockets = state.rockets.filter(rocket => {
+    if (!rocket.active) return false;
+    
+    rocket.position.y += rocket.velocity.y * timeScale;
+    
+    // Remove if rocket goes above the screen or far below
+    if (rocket.position.y + rocket.size.y < 0 || rocket.position.y > settings.height + 200) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Enemies aiming for the middle of the ship measure from here
+  const shipCenter = {
+    x: state.spaceship.position.x + state.spaceship.size.x / 2,
+    y: state.spaceship.position.y + state.spaceship.size.y / 2,
+  };
+
+  // Flight paths run on the slowed-down clock like everything else
+  const flightStep = TICK_MS * timeScale;
+
+  // Update saucers and make them shoot - NOW WITH PLAYER TRACKING
+  state.saucers = state.saucers.filter(saucer => {
+    if (!saucer.active) return false;
+    
+    const saucerScreenX = worldToScreen(state.camera, saucer.position).x;
+    
+    // Scripted waves fly their path first
+    if (!followFlight(saucer, state.camera, flightStep)) {
+      // Update target Y to track player position (with some prediction)
+      saucer.targetY = state.spaceship.position.y + state.spaceship.velocity.y * 10;
+    
+      // Move toward player horizontally when on screen, otherwise drift leftward
+      if (saucerScreenX > 100 && saucerScreenX < settings.width - 50) {
+        // On screen - actively pursue player
+        const targetX = state.spaceship.position.x + 200; // Stay ahead of player
+        const xDiff = targetX - saucer.position.x;
+        saucer.position.x += Math.sign(xDiff) * Math.min(Math.abs(xDiff) * 0.02, 2) * timeScale;
+      } else {
+        saucer.position.x += saucer.velocity.x * timeScale;
+      }
+    
+      // Drift towards player Y position (more aggressive tracking)
+      const yDiff = saucer.targetY - saucer.position.y;
+      if (Math.abs(yDiff) > 5) {
+        saucer.position.y += Math.sign(yDiff) * Math.min(Math.abs(yDiff) * 0.05, saucer.driftSpeed * 1.5) * timeScale;
+      }
+    }
+    
+    // Fire at spaceship - with coordination support
+    const effectiveFireRate = getSupportedFireRate(saucer.fireRate);
+    const shouldFire = now - saucer.lastFireTime > effectiveFireRate || 
+                      (shouldJoinAttack(saucer.position.x, saucer.position.y, 0.7) && now - saucer.lastFireTime > effectiveFireRate * 0.5);
+    
+    if (shouldFire) {
+      // Only fire if saucer is visible on screen
+      if (saucerScreenX > -100 && saucerScreenX < settings.width + 100) {
+        const center = { x: saucer.position.x + saucer.size.x / 2, y: saucer.position.y + saucer.size.y / 2 };
+        const { fire } = ENEMIES.saucer;
+        fireVolley(state, fire, center, center, shipCenter, evaluateCurve(fire.damage, state.level), now);
+        
+        // Signal attack to coordinate with other enemies
+        signalAttack(saucer.position.x, saucer.position.y);
+        saucer.lastFireTime = now;
+      }
+    }
+    
+    // Remove if off screen (left edge)
+    if (worldToScreen(state.camera, saucer.position).x < -200) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Update aliens and make them fire lasers
+  state.aliens = state.aliens.filter(alien => {
+    if (!alien.active) return false;
+    
+    // Check if alien should fire at spaceship - with coordination
+    const effectiveFireRate = getSupportedFireRate(alien.fireRate);
+    const alienScreenX = worldToScreen(state.camera, alien.position).x;
+    const shouldFire = now - alien.lastFireTime > effectiveFireRate ||
+                      (shouldJoinAttack(alien.position.x, alien.position.y, 0.8) && now - alien.lastFireTime > effectiveFireRate * 0.4);
+    
+    // Only fire if spaceship is visible and within range
+    if (shouldFire && alienScreenX > -100 && alienScreenX < settings.width + 100) {
+      const center = { x: alien.position.x + alien.size.x / 2, y: alien.position.y + alien.size.y / 2 };
+      const { fire } = ENEMIES.alien;
+      if (fireVolley(state, fire, center, center, shipCenter, evaluateCurve(fire.damage, state.level), now)) {
+        // Signal attack for coordination
+        signalAttack(alien.position.x, alien.position.y);
+        alien.lastFireTime = now;
+      }
+    }
+    
+    // Remove aliens that are too far off screen
+    if (alienScreenX < -300 || alienScreenX > settings.width + 300) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Update crawling aliens - they crawl on terrain and shoot fire
+  state.crawlingAliens = state.crawlingAliens.filter(crawlingAlien => {
+    if (!crawlingAlien.active) return false;
+    
+    const crawlingAlienScreenX = worldToScreen(state.camera, crawlingAlien.position).x;
+    // Find the terrain point beneath the alien
+    const nearestTerrainPoint = state.terrain.foreground.reduce((closest, point) => {
+      const distToCurrent = Math.abs(point.x - crawlingAlien.position.x);
+      const distToClosest = Math.abs(closest.x - crawlingAlien.position.x);
+      return distToCurrent < distToClosest ? point : closest;
+    }, state.terrain.foreground[0]);
+    
+    // Update target to spaceship position
+    crawlingAlien.targetX = state.spaceship.position.x;
+    
+    // Move towards spaceship (crawl on terrain)
+    const dx = crawlingAlien.targetX - crawlingAlien.position.x;
+    if (Math.abs(dx) > 10) {
+      crawlingAlien.position.x += Math.sign(dx) * crawlingAlien.moveSpeed * timeScale;
+    }
+    
+    // Keep alien on terrain
+    if (nearestTerrainPoint) {
+      crawlingAlien.position.y = nearestTerrainPoint.y - 25;
+    }
+    
+    // Check if alien should fire at spaceship - with coordination
+    const effectiveFireRate = getSupportedFireRate(crawlingAlien.fireRate);
+    const shouldFire = now - crawlingAlien.lastFireTime > effectiveFireRate ||
+                      (shouldJoinAttack(crawlingAlien.position.x, crawlingAlien.position.y, 0.75) && now - crawlingAlien.lastFireTime > effectiveFireRate * 0.5);
+    
+    // Fire flaming fire projectiles if visible and in range
+    if (shouldFire && crawlingAlienScreenX > -100 && crawlingAlienScreenX < settings.width + 100) {
+      const center = { x: crawlingAlien.position.x + crawlingAlien.size.x / 2, y: crawlingAlien.position.y + crawlingAlien.size.y / 2 };
+      const mouth = { x: center.x, y: crawlingAlien.position.y + 5 };
+      const { fire } = ENEMIES.crawlingAlien;
+      if (fireVolley(state, fire, mouth, center, shipCenter, evaluateCurve(fire.damage, state.level), now)) {
+        // Signal attack for coordination
+        signalAttack(crawlingAlien.position.x, crawlingAlien.position.y);
+        crawlingAlien.lastFireTime = now;
+      }
+    }
+    
+    // Remove crawling aliens that are too far off screen
+    if (crawlingAlienScreenX < -400 || crawlingAlienScreenX > settings.width + 400) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Update Dive Bombers
+  state.diveBombers = state.diveBombers.filter(bomber => {
+    if (!bomber.active) return false;
+    
+    const bomberScreenX = worldToScreen(state.camera, bomber.position).x;
+    
+    if (!followFlight(bomber, state.camera, flightStep)) {
+      // Phase-based movement
+      if (bomber.phase === 'approach') {
+        bomber.position.x += bomber.velocity.x * timeScale;
+        // Start dive when close to player X position
+        if (bomber.position.x < state.spaceship.position.x + 200) {
+          bomber.phase = 'dive';
+          bomber.diveTargetY = state.spaceship.position.y;
+        }
+      } else if (bomber.phase === 'dive') {
+        bomber.position.x += bomber.velocity.x * 0.5 * timeScale;
+        const diveSpeed = 4 * timeScale;
+        const yDiff = bomber.diveTargetY - bomber.position.y;
+        bomber.position.y += Math.sign(yDiff) * diveSpeed;
+      
+        // Switch to retreat after diving past target
+        if (Math.abs(yDiff) < 20 || bomber.position.y > settings.height - 100) {
+          bomber.phase = 'retreat';
+        }
+      } else if (bomber.phase === 'retreat') {
+        bomber.position.x += bomber.velocity.x * 1.5 * timeScale;
+        bomber.position.y -= 2 * timeScale; // Move up while retreating
+      }
+    }
+    
+    // Fire at player during dive - with coordination
+    const effectiveFireRate = getSupportedFireRate(bomber.fireRate);
+    const shouldFire = (bomber.phase === 'dive' && now - bomber.lastFireTime > effectiveFireRate) ||
+                      (shouldJoinAttack(bomber.position.x, bomber.position.y, 0.65) && now - bomber.lastFireTime > effectiveFireRate * 0.6);
+    
+    if (shouldFire && bomberScreenX > 0 && bomberScreenX < settings.width) {
+      const { fire } = ENEMIES.diveBomber;
+      fireVolley(
+        state,
+        fire,
+        { x: bomber.position.x, y: bomber.position.y + bomber.size.y },
+        bomber.position,
+        state.spaceship.position,
+        evaluateCurve(fire.damage, state.level),
+        now
+      );
+      
+      // Signal attack for coordination
+      signalAttack(bomber.position.x, bomber.position.y);
+      bomber.lastFireTime = now;
+    }
+    
+    // Remove if off screen
+    if (bomberScreenX < -100) return false;
+    
+    return true;
+  });
+
+  // Update Zigzag Fighters - NOW WITH PLAYER TRACKING
+  state.zigzagFighters = state.zigzagFighters.filter(zigzag => {
+    if (!zigzag.active) return false;
+    
+    const zigzagScreenX = worldToScreen(state.camera, zigzag.position).x;
+    
+    if (!followFlight(zigzag, state.camera, flightStep)) {
+      // Zigzag movement with player tracking
+      zigzag.zigzagPhase += zigzag.zigzagSpeed * timeScale;
+    
+      // Move toward player X position when on screen
+      if (zigzagScreenX > 50 && zigzagScreenX < settings.width) {
+        const targetX = state.spaceship.position.x + 150; // Stay ahead of player
+        const xDiff = targetX - zigzag.position.x;
+        zigzag.position.x += Math.sign(xDiff) * Math.min(Math.abs(xDiff) * 0.015, 1.5) * timeScale;
+      } else {
+        zigzag.position.x += zigzag.velocity.x * timeScale;
+      }
+    
+      // Track player Y with zigzag pattern overlay
+      const yDiff = state.spaceship.position.y - zigzag.position.y;
+      const trackingSpeed = Math.sign(yDiff) * Math.min(Math.abs(yDiff) * 0.03, 1.5) * timeScale;
+      zigzag.position.y += trackingSpeed + Math.sin(zigzag.zigzagPhase) * 2.5 * timeScale;
+    
+      // Keep within screen bounds
+      if (zigzag.position.y < 50) zigzag.position.y = 50;
+      if (zigzag.position.y > settings.height - 100) zigzag.position.y = settings.height - 100;
+    }
+    
+    // Fire bursts at player - with coordination
+    const effectiveFireRate = getSupportedFireRate(zigzag.fireRate);
+    const shouldFire = now - zigzag.lastFireTime > effectiveFireRate ||
+                      (shouldJoinAttack(zigzag.position.x, zigzag.position.y, 0.7) && now - zigzag.lastFireTime > effectiveFireRate * 0.4);
+    
+    if (shouldFire && zigzagScreenX > 0 && zigzagScreenX < settings.width) {
+      const { fire } = ENEMIES.zigzagFighter;
+      fireVolley(
+        state,
+        fire,
+        { x: zigzag.position.x, y: zigzag.position.y + zigzag.size.y / 2 },
+        zigzag.position,
+        state.spaceship.position,
+        evaluateCurve(fire.damage, state.level),
+        now
+      );
+      
+      // Signal attack for coordination
+      signalAttack(zigzag.position.x, zigzag.position.y);
+      zigzag.lastFireTime = now;
+    }
+    
+    // Remove if off screen
+    if (zigzagScreenX < -100) return false;
+    
+    return true;
+  });
+
+  // Update Splitters - NOW WITH PLAYER TRACKING
+  state.splitters = state.splitters.filter(splitter => {
+    if (!splitter.active) return false;
+    
+    const splitterScreenX = worldToScreen(state.camera, splitter.position).x;
+    
+    if (!followFlight(splitter, state.camera, flightStep)) {
+      // Actively pursue player when on screen
+      if (splitterScreenX > 0 && splitterScreenX < settings.width) {
+        const dx = state.spaceship.position.x - splitter.position.x;
+        const dy = state.spaceship.position.y - splitter.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+      
+        // Move toward player with speed based on generation (smaller = faster)
+        const chaseSpeed = (1.5 + splitter.generation * 0.5) * timeScale;
+        if (dist > 50) {
+          splitter.position.x += (dx / dist) * chaseSpeed + currentScrollSpeed;
+          splitter.velocity.y = (dy / dist) * chaseSpeed;
+        }
+      } else {
+        splitter.position.x += splitter.velocity.x * timeScale;
+      }
+    
+      splitter.position.y += splitter.velocity.y * timeScale;
+    
+      // Bounce off screen edges
+      if (splitter.position.y < 50 || splitter.position.y > settings.height - 100) {
+        splitter.velocity.y *= -1;
+      }
+    }
+    
+    // Fire occasionally - with coordination
+    const effectiveFireRate = getSupportedFireRate(splitter.fireRate);
+    const shouldFire = now - splitter.lastFireTime > effectiveFireRate ||
+                      (shouldJoinAttack(splitter.position.x, splitter.position.y, 0.6) && now - splitter.lastFireTime > effectiveFireRate * 0.5);
+    
+    if (shouldFire && splitterScreenX > 0 && splitterScreenX < settings.width) {
+      const { fire } = ENEMIES.splitter;
+      fireVolley(
+        state,
+        fire,
+        { x: splitter.position.x + splitter.size.x / 2, y: splitter.position.y + splitter.size.y / 2 },
+        splitter.position,
+        state.spaceship.position,
+        evaluateCurve(fire.damage, state.level) + splitter.generation * 5,
+        now
+      );
+      
+      // Signal attack for coordination
+      signalAttack(splitter.position.x, splitter.position.y);
+      splitter.lastFireTime = now;
+    }
+    
+    // Remove if off screen
+    if (splitterScreenX < -150) return false;
+    
+    return true;
+  });
+
+  // Update boss rockets and make them shoot photons - NOW WITH PLAYER TRACKING
+  state.bossRockets = state.bossRockets.filter(boss => {
+    if (!boss.active) return false;
+    
+    const bossScreenX = worldToScreen(state.camera, boss.position).x;
+    
+    if (!followFlight(boss, state.camera, flightStep)) {
+      // Track player Y position
+      const yDiff = state.spaceship.position.y - boss.position.y;
+      boss.position.y += Math.sign(yDiff) * Math.min(Math.abs(yDiff) * 0.02, 1) * timeScale;
+    
+      // Move toward player X when on screen, otherwise drift leftward
+      if (bossScreenX > 100 && bossScreenX < settings.width) {
+        const targetX = state.spaceship.position.x + 250;
+        const xDiff = targetX - boss.position.x;
+        boss.position.x += Math.sign(xDiff) * Math.min(Math.abs(xDiff) * 0.01, 0.8) * timeScale;
+      } else {
+        boss.position.x += boss.velocity.x * timeScale;
+      }
+    
+      // Keep within screen bounds
+      if (boss.position.y < 50) boss.position.y = 50;
+      if (boss.position.y > settings.height - boss.size.y - 50) boss.position.y = settings.height - boss.size.y - 50;
+    }
+    
+    // Fire 3 streams of photons aimed at player - with coordination
+    const effectiveFireRate = getSupportedFireRate(boss.fireRate);
+    const shouldFire = now - boss.lastFireTime > effectiveFireRate ||
+                      (isInSupportWindow() && now - boss.lastFireTime > effectiveFireRate * 0.6);
+    
+    if (shouldFire && bossScreenX > -200 && bossScreenX < settings.width + 200) {
+      // Fan of photons aimed at player, one from each cannon
+      const { fire } = ENEMIES.bossRocket;
+      fireVolley(
+        state,
+        fire,
+        { x: boss.position.x + boss.size.x / 4, y: boss.position.y + boss.size.y / 2 },
+        { x: boss.position.x, y: boss.position.y + boss.size.y / 2 },
+        state.spaceship.position,
+        evaluateCurve(fire.damage, state.level),
+        now
+      );
+      
+      // Signal attack for massive coordination
+      signalAttack(boss.position.x, boss.position.y);
+      boss.lastFireTime = now;
+    }
+    
+    // Remove if off screen (left edge)
+    if (worldToScreen(state.camera, boss.position).x < -300) {
+      return false;
+    }
+    
+    return true;
+  });
+
+  // Update MEGA BOSS - NOW WITH PLAYER TRACKING
+  if (state.boss && state.boss.active) {
+    const bossScreenX = worldToScreen(state.camera, state.boss.position).x;
+    
+    // Stop boss at right edge of screen and keep it there
+    const targetScreenX = settings.width - state.boss.size.x - 50;
+    
+    if (bossScreenX > targetScreenX) {
+      // Move boss leftward until it reaches target position
+      state.boss.position.x += state.boss.velocity.x * timeScale;
+    } else {
+      // Boss has reached position, match scroll speed to stay in place
+      state.boss.position.x += currentScrollSpeed;
+    }
+    
+    const boss = state.boss;
+    const script = BOSS_SCRIPTS[boss.bossType];
+    const phase = script.phases[boss.phase];
+    
+    // Track player Y position (slow, menacing pursuit) - faster in later phases
+    const targetY = state.spaceship.position.y - boss.size.y / 3;
+    const yDiff = targetY - boss.position.y;
+    boss.position.y += Math.sign(yDiff) * Math.min(Math.abs(yDiff) * 0.015, phase.trackingSpeed) * timeScale;
+    
+    // Keep boss within screen bounds
+    if (boss.position.y < 20) boss.position.y = 20;
+    if (boss.position.y > settings.height - boss.size.y - 20) {
+      boss.position.y = settings.height - boss.size.y - 20;
+    }
+    
+    swayParts(boss, now);
+    
+    // Attacks wind up (telegraph) first, then fire - nothing starts while the boss is switching phase
+    if (boss.telegraph && now >= boss.telegraph.firesAt) {
+      // Fired from a surviving part carrying the attack, or from the core
+      const [source] = attackSources(boss, script, boss.telegraph.attack);
+      const muzzle = source ? partCenter(boss, source) : {
+        x: boss.position.x + boss.size.x / 2,
+        y: boss.position.y + boss.size.y / 2
+      };
+      BOSS_ATTACKS[boss.telegraph.attack]({
+        state, boss, rng, now,
+        origin: muzzle,
+        target: state.spaceship.position,
+      }).forEach(projectile => spawnProjectile(state, projectile));
+      
+      boss.telegraph = null;
+      boss.lastFireTime = now;
+    } else if (!boss.telegraph && now >= boss.invulnerableUntil && now - boss.lastFireTime > boss.fireRate) {
+      const attacks = phase.attacks.filter(attack => canUseAttack(boss, script, attack));
+      if (attacks.length > 0) {
+        boss.telegraph = {
+          attack: attacks[boss.attackIndex % attacks.length],
+          firesAt: now + script.telegraphMs
+        };
+        boss.attackIndex++;
+      }
+    }
+  }
+
+  // Broadphase for this tick's collisions
+  const grids = {
+    rockets: buildGrid(state.rockets),
+    saucers: buildGrid(state.saucers),
+    aliens: buildGrid(state.aliens),
+    crawlingAliens: buildGrid(state.crawlingAliens),
+    diveBombers: buildGrid(state.diveBombers),
+    zigzagFighters: buildGrid(state.zigzagFighters),
+    splitters: buildGrid(state.splitters),
+    bossRockets: buildGrid(state.bossRockets),
+  };
+
+  // Check projectile-rocket collisions
+  state.projectiles.items.forEach(projectile => {
+    queryGrid(grids.rockets, projectile).forEach(rocket => {
+      if (rocket.active && canHit(projectile, rocket.id)) {
+      // Create explosion at world position
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { x: rocket.position.x, y: rocket.position.y },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now, rocket.position.x, rocket.position.y, 8);
+        
+        // Destroy both
+        spendShot(projectile, rocket.id);
+        rocket.active = false;
+        
+        // Screen shake based on rocket type and projectile type
+        const isBomb = projectile.type === 'bomb';
+        if (rocket.type === 'heavy') {
+          triggerScreenShake(isBomb ? 0.5 : 0.25, isBomb ? 250 : 150);
+        } else {
+          triggerScreenShake(isBomb ? 0.4 : 0.15, isBomb ? 200 : 100);
+        }
+        
+        // Add score and level progression
+        const baseScore = projectile.type === 'bomb' ? 150 : 100;
+        const bonusScore = rocket.type === 'heavy' ? 100 : 0;
+        state.score += registerKill(baseScore + bonusScore, rocket.position.x, rocket.position.y, 'rocket');
+        
+        // Ammo rewards for small kills
+        state.spaceship.ammunition += 100;
+        state.spaceship.bombs += 5;
+        
+        // Maybe spawn power-up
+        maybeSpawnPowerUp(state, rng, rocket.position.x, rocket.position.y);
+        
+        // Level up every 2000 points (slowed down for better pacing), counted from the starting level.
+        // Campaign stages stay on their own level
+        const newLevel = Math.floor(state.score / 2000) + state.startLevel;
+        if (state.mode === 'endless' && newLevel > state.level) {
+          state.level = newLevel;
+          state.spaceship.ammunition += 20; // Bonus ammo on level up
+          state.spaceship.bombs += 1; // Bonus bomb on level up
+          emit({ type: 'levelUp', level: newLevel });
+        }
+      }
+    });
+  });
+
+  // Check projectile-saucer collisions (only player projectiles)
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.saucer.ignores.includes(projectile.type)) return; // Skip enemy lasers
+    
+    queryGrid(grids.saucers, projectile).forEach(saucer => {
+      if (saucer.active && canHit(projectile, saucer.id)) {
+        // Create explosion at world position
+        state.explosions.push({
+          id: nextId(state, 'explosion'),
+          position: { x: saucer.position.x, y: saucer.position.y },
+          startTime: now
+        });
+        spawnExplosionParticles(state, rng, now, saucer.position.x, saucer.position.y, 8);
+        
+        // Destroy both
+        spendShot(projectile, saucer.id);
+        saucer.active = false;
+        
+        triggerScreenShake(projectile.type === 'bomb' ? 0.55 : 0.3, projectile.type === 'bomb' ? 280 : 150); // Saucer destroyed
+        if (projectile.type === 'bomb') {
+          triggerScreenZoom(1.05, 200, saucer.position.x, saucer.position.y); // Zoom on saucer bomb kill
+        }
+        
+        // Add score and ammo rewards
+        state.score += registerKill(killScore(ENEMIES.saucer, projectile), saucer.position.x, saucer.position.y, 'saucer');
+        grantKillRewards(ENEMIES.saucer);
+        
+        // Maybe spawn power-up
+        maybeSpawnPowerUp(state, rng, saucer.position.x, saucer.position.y);
+      }
+    });
+  });
+
+  // Check projectile-alien collisions
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.alien.ignores.includes(projectile.type)) return; // Alien lasers don't hit aliens
+    
+    queryGrid(grids.aliens, projectile).forEach(alien => {
+      if (alien.active && canHit(projectile, alien.id)) {
+        // Damage alien
+        alien.health -= projectile.damage;
+        spendShot(projectile, alien.id);
+        
+        if (alien.health <= 0) {
+          // Create explosion at world position
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: alien.position.x, y: alien.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, alien.position.x, alien.position.y, 8);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.5 : 0.25, projectile.type === 'bomb' ? 250 : 150); // Alien destroyed
+          
+          alien.active = false;
+          state.score += registerKill(killScore(ENEMIES.alien, projectile), alien.position.x, alien.position.y, 'alien');
+          grantKillRewards(ENEMIES.alien);
+          
+          // Maybe spawn power-up
+          maybeSpawnPowerUp(state, rng, alien.position.x, alien.position.y);
+        }
+      }
+    });
+  });
+
+  // Check projectile-crawling alien collisions
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.crawlingAlien.ignores.includes(projectile.type)) return; // Fire doesn't hit crawling aliens
+    
+    queryGrid(grids.crawlingAliens, projectile).forEach(crawlingAlien => {
+      if (crawlingAlien.active && canHit(projectile, crawlingAlien.id)) {
+        crawlingAlien.health -= projectile.damage;
+        spendShot(projectile, crawlingAlien.id);
+        
+        if (crawlingAlien.health <= 0) {
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: crawlingAlien.position.x, y: crawlingAlien.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, crawlingAlien.position.x, crawlingAlien.position.y, 8);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.55 : 0.3, projectile.type === 'bomb' ? 280 : 150); // Crawling alien destroyed
+          
+          crawlingAlien.active = false;
+          state.score += registerKill(killScore(ENEMIES.crawlingAlien, projectile), crawlingAlien.position.x, crawlingAlien.position.y, 'crawlingAlien');
+          grantKillRewards(ENEMIES.crawlingAlien);
+          
+          // Maybe spawn power-up
+          maybeSpawnPowerUp(state, rng, crawlingAlien.position.x, crawlingAlien.position.y);
+        }
+      }
+    });
+  });
+
+  // Check projectile-dive bomber collisions
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.diveBomber.ignores.includes(projectile.type)) return;
+    
+    queryGrid(grids.diveBombers, projectile).forEach(bomber => {
+      if (bomber.active && canHit(projectile, bomber.id)) {
+        bomber.health -= projectile.damage;
+        spendShot(projectile, bomber.id);
+        
+        if (bomber.health <= 0) {
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: bomber.position.x, y: bomber.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, bomber.position.x, bomber.position.y, 10);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.55 : 0.3, projectile.type === 'bomb' ? 280 : 150);
+          bomber.active = false;
+          state.score += registerKill(killScore(ENEMIES.diveBomber, projectile), bomber.position.x, bomber.position.y, 'diveBomber');
+          grantKillRewards(ENEMIES.diveBomber);
+          
+          maybeSpawnPowerUp(state, rng, bomber.position.x, bomber.position.y);
+        }
+      }
+    });
+  });
+
+  // Check projectile-zigzag fighter collisions
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.zigzagFighter.ignores.includes(projectile.type)) return;
+    
+    queryGrid(grids.zigzagFighters, projectile).forEach(zigzag => {
+      if (zigzag.active && canHit(projectile, zigzag.id)) {
+        zigzag.health -= projectile.damage;
+        spendShot(projectile, zigzag.id);
+        
+        if (zigzag.health <= 0) {
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: zigzag.position.x, y: zigzag.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, zigzag.position.x, zigzag.position.y, 8);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.5 : 0.25, projectile.type === 'bomb' ? 250 : 120);
+          zigzag.active = false;
+          state.score += registerKill(killScore(ENEMIES.zigzagFighter, projectile), zigzag.position.x, zigzag.position.y, 'zigzagFighter');
+          grantKillRewards(ENEMIES.zigzagFighter);
+          
+          maybeSpawnPowerUp(state, rng, zigzag.position.x, zigzag.position.y);
+        }
+      }
+    });
+  });
+
+  // Check projectile-splitter collisions
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.splitter.ignores.includes(projectile.type)) return;
+    
+    const splittersToAdd: Splitter[] = [];
+    
+    queryGrid(grids.splitters, projectile).forEach(splitter => {
+      if (splitter.active && canHit(projectile, splitter.id)) {
+        splitter.health -= projectile.damage;
+        spendShot(projectile, splitter.id);
+        
+        if (splitter.health <= 0) {
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: splitter.position.x, y: splitter.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, splitter.position.x, splitter.position.y, 12);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.6 : 0.35, projectile.type === 'bomb' ? 300 : 180);
+          if (projectile.type === 'bomb' && splitter.generation === 0) {
+            triggerScreenZoom(1.06, 250, splitter.position.x, splitter.position.y); // Zoom on big splitter bomb kill
+          }
+          splitter.active = false;
+          
+          // Split into smaller splitters if not at max generation
+          if (splitter.generation < 2) {
+            const newGen = splitter.generation + 1;
+            const newSize = newGen === 1 ? 35 : 20;
+            const newHealth = newGen === 1 ? 40 : 20;
+            
+            for (let i = 0; i < 2; i++) {
+              splittersToAdd.push({
+                id: nextId(state, 'splitter-child'),
+                position: { 
+                  x: splitter.position.x + (i === 0 ? -15 : 15), 
+                  y: splitter.position.y + (i === 0 ? -20 : 20)
+                },
+                velocity: { 
+                  x: -1.5 - rng.next() * 0.5, 
+                  y: (i === 0 ? -1 : 1) * (1 + rng.next())
+                },
+                size: { x: newSize, y: newSize },
+                active: true,
+                lastFireTime: now,
+                fireRate: 1500 - newGen * 200,
+                health: newHealth,
+                maxHealth: newHealth,
+                generation: newGen
+              });
+            }
+          }
+          
+          const baseScore = (3 - splitter.generation) * killScore(ENEMIES.splitter, projectile);
+          state.score += registerKill(baseScore, splitter.position.x, splitter.position.y, 'splitter');
+          grantKillRewards(ENEMIES.splitter);
+          
+          maybeSpawnPowerUp(state, rng, splitter.position.x, splitter.position.y);
+        }
+      }
+    });
+    
+    // Add split children after iteration - later shots this tick can already hit them
+    state.splitters.push(...splittersToAdd);
+    splittersToAdd.forEach(child => insertIntoGrid(grids.splitters, child, child));
+  });
+
+  state.projectiles.items.forEach(projectile => {
+    if (ENEMIES.bossRocket.ignores.includes(projectile.type)) return; // Boss lasers don't hit boss
+    
+    queryGrid(grids.bossRockets, projectile).forEach(boss => {
+      if (boss.active && canHit(projectile, boss.id)) {
+        // Damage boss
+        boss.health -= 1; // Each hit reduces by 1 (needs 20 hits)
+        spendShot(projectile, boss.id);
+        
+        // Small explosion on hit
+        state.explosions.push({
+          id: nextId(state, 'explosion'),
+          position: { x: boss.position.x + (rng.next() - 0.5) * boss.size.x, y: boss.position.y + (rng.next() - 0.5) * boss.size.y },
+          startTime: now
+        });
+        spawnExplosionParticles(state, rng, now,
+          boss.position.x + (rng.next() - 0.5) * boss.size.x, 
+          boss.position.y + (rng.next() - 0.5) * boss.size.y, 
+          8
+        );
+        
+        if (boss.health <= 0) {
+          // Create massive explosion at world position
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: { x: boss.position.x, y: boss.position.y },
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, boss.position.x, boss.position.y, 15);
+          
+          triggerScreenShake(projectile.type === 'bomb' ? 0.75 : 0.5, projectile.type === 'bomb' ? 400 : 250); // Boss rocket destroyed
+          if (projectile.type === 'bomb') {
+            triggerScreenZoom(1.08, 300, boss.position.x, boss.position.y); // Zoom on boss rocket bomb kill
+            triggerSlowMotion(0.4, 400); // Slow-mo for boss rocket bomb kill
+          } else {
+            triggerSlowMotion(0.5, 300); // Lighter slow-mo for regular boss rocket kill
+          }
+          
+          boss.active = false;
+          state.score += registerKill(killScore(ENEMIES.bossRocket, projectile), boss.position.x, boss.position.y, 'bossRocket');
+          grantKillRewards(ENEMIES.bossRocket);
+          
+          // Guaranteed power-up drop from boss rocket
+          maybeSpawnPowerUp(state, rng, boss.position.x, boss.position.y);
+          maybeSpawnPowerUp(state, rng, boss.position.x + 30, boss.position.y + 20); // Spawn 2
+        }
+      }
+    });
+  });
+
+  // Check projectile-MEGA BOSS collisions
+  if (state.boss && state.boss.active) {
+    const boss = state.boss;
+    const script = BOSS_SCRIPTS[boss.bossType];
+    // Only the parts and the core weak point are solid - shots fly over the rest of the hull.
+    // Parts go in ahead of the core (-1), so a shot over both hits the part
+    const hitboxes = buildGrid([...boss.parts.keys(), -1], index =>
+      index < 0 ? coreHitbox(boss, script) : partHitbox(boss, boss.parts[index])
+    );
+    // Each part and the core count separately for a shot that pierces
+    const hitboxTarget = (index: number) => `${boss.id}:${index}`;
+    
+    state.projectiles.items.forEach(projectile => {
+      if (!state.boss) return; // Destroyed by an earlier projectile this tick
+      if (projectile.type === 'laser' || projectile.type === 'fireball') return;
+      
+      if (!projectile.active) return;
+      
+      const partIndex = queryGrid(hitboxes, projectile)
+        .find(index => (index < 0 || boss.parts[index].health > 0) && canHit(projectile, hitboxTarget(index)));
+      if (partIndex === undefined) return;
+      spendShot(projectile, hitboxTarget(partIndex));
+      
+      // Switching phase - shots bounce off harmlessly
+      if (now < boss.invulnerableUntil) {
+        state.explosions.push({
+          id: nextId(state, 'explosion'),
+          position: { x: projectile.position.x, y: projectile.position.y },
+          startTime: now
+        });
+        spawnExplosionParticles(state, rng, now, projectile.position.x, projectile.position.y, 4);
+        return;
+      }
+      
+      triggerScreenShake(projectile.type === 'bomb' ? 0.55 : 0.3, projectile.type === 'bomb' ? 250 : 150); // Hit on mega boss
+      
+      if (partIndex >= 0) {
+        const part = boss.parts[partIndex];
+        const definition = script.parts[partIndex];
+        const center = partCenter(boss, part);
+        part.health = Math.max(0, part.health - projectile.damage * definition.damageMultiplier);
+        
+        // Hit explosion
+        state.explosions.push({
+          id: nextId(state, 'explosion'),
+          position: center,
+          startTime: now
+        });
+        spawnExplosionParticles(state, rng, now, center.x, center.y, 8);
+        
+        if (part.health <= 0) {
+          // Part shot off - the attacks it carried go with it once no other part has them
+          state.explosions.push({
+            id: nextId(state, 'explosion'),
+            position: center,
+            startTime: now
+          });
+          spawnExplosionParticles(state, rng, now, center.x, center.y, 30);
+          triggerScreenShake(0.5, 200);
+          triggerScreenFlash('#ffaa00', 0.2, 100);
+          state.score += registerKill(definition.score, center.x, center.y, 'bossPart');
+          if (boss.telegraph && !canUseAttack(boss, script, boss.telegraph.attack)) {
+            boss.telegraph = null;
+          }
+        }
+        return;
+      }
+      
+      boss.health = Math.max(0, boss.health - projectile.damage * script.core.damageMultiplier);
+      
+      // Hit explosion
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { 
+          x: boss.position.x + boss.size.x / 2 + (rng.next() - 0.5) * script.core.size.x, 
+          y: boss.position.y + boss.size.y / 2 + (rng.next() - 0.5) * script.core.size.y 
+        },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now,
+        boss.position.x + boss.size.x / 2 + (rng.next() - 0.5) * script.core.size.x,
+        boss.position.y + boss.size.y / 2 + (rng.next() - 0.5) * script.core.size.y,
+        12
+      );
+      
+      // Crossed a health threshold - the boss transforms, invulnerable, into its next phase
+      const phase = phaseForHealth(script, boss.health, boss.maxHealth);
+      if (boss.health > 0 && phase > boss.phase) {
+        boss.phase = phase;
+        boss.fireRate = script.phases[phase].fireRate;
+        boss.invulnerableUntil = now + script.transitionMs;
+        boss.telegraph = null;
+        boss.attackIndex = 0;
+        boss.lastFireTime = now;
+        
+        triggerScreenFlash('#ffffff', 0.5, 300);
+        triggerScreenShake(0.8, 400);
+      }
+      
+      if (boss.health <= 0) {
+        // MEGA DRAMATIC BOSS DESTRUCTION - BOOOOOM!
+        const bossCenter = {
+          x: boss.position.x + boss.size.x / 2,
+          y: boss.position.y + boss.size.y / 2
+        };
+        
+        // Create 20 cascading mega explosions across the boss
+        for (let i = 0; i < 20; i++) {
+          const offsetX = (rng.next() - 0.5) * boss.size.x * 1.5;
+          const offsetY = (rng.next() - 0.5) * boss.size.y * 1.5;
+          
+          state.explosions.push({
+            id: nextId(state, 'mega-explosion'),
+            position: { 
+              x: bossCenter.x + offsetX,
+              y: bossCenter.y + offsetY
+            },
+            startTime: now + i * 80, // Cascade delay
+            isMegaExplosion: true
+          });
+          spawnExplosionParticles(state, rng, now + i * 80,
+            bossCenter.x + offsetX,
+            bossCenter.y + offsetY,
+            40 + rng.next() * 20, // TONS of particles
+            true // Mega explosion flag
+          );
+        }
+        
+        // Add final massive central explosion
+        state.explosions.push({
+          id: nextId(state, 'mega-final'),
+          position: bossCenter,
+          startTime: now + 1600, // After all others
+          isMegaExplosion: true
+        });
+        spawnExplosionParticles(state, rng, now + 1600,
+          bossCenter.x,
+          bossCenter.y,
+          80, // Huge particle count
+          true
+        );
+        
+        boss.active = false;
+        state.boss = null;
+        
+        triggerScreenShake(1.0, 600); // MEGA BOSS DESTROYED - EPIC SHAKE!
+        triggerScreenZoom(1.15, 500, bossCenter.x, bossCenter.y); // Epic zoom on boss death!
+        triggerSlowMotion(0.25, 800); // Dramatic slow-mo for mega boss kill!
+        
+        state.score += registerKill(5000, bossCenter.x, bossCenter.y, 'megaBoss');
+        emit({ type: 'bossDefeated', bossType: boss.bossType });
+        state.spaceship.ammunition += 200; // 200 ammo bonus for destroying mega boss (big kill)
+        state.spaceship.bombs += 10;
+        
+        // Mega boss drops multiple power-ups!
+        for (let i = 0; i < 5; i++) {
+          maybeSpawnPowerUp(
+            state, rng,
+            bossCenter.x + (rng.next() - 0.5) * 100, 
+            bossCenter.y + (rng.next() - 0.5) * 100
+          );
+        }
+        // Don't update lastMegaBossIntervalRef here - let the spawn logic handle intervals
+      }
+    });
+  }
+
+  // Check laser/fireball/fire-spaceship collisions
+  state.projectiles.items.forEach(projectile => {
+    if (projectile.type !== 'laser' && projectile.type !== 'fireball' && projectile.type !== 'fire') return;
+    
+    if (projectile.active && shipVulnerable(state, now) && checkCollision(projectile, state.spaceship)) {
+      // Damage spaceship (apply difficulty damage multiplier)
+      const damage = hitShip('projectile', Math.floor(projectile.damage * difficulty.damageMultiplier));
+      projectile.active = false;
+      
+      triggerScreenShake(0.4, 200); // Hit by laser/fireball/fire
+      triggerScreenFlash(hitFlashColor(damage), 0.35, 120);
+      
+      // Create small explosion at spaceship
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { 
+          x: state.spaceship.position.x, 
+          y: state.spaceship.position.y 
+        },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now,
+        state.spaceship.position.x, 
+        state.spaceship.position.y,
+        10
+      );
+      
+      if (state.spaceship.health <= 0) {
+        loseLife();
+      }
+    }
+  });
+
+  // Check spaceship-rocket collisions
+  state.rockets.forEach(rocket => {
+    if (rocket.active && shipVulnerable(state, now) && checkCollision(state.spaceship, rocket)) {
+      // Damage spaceship - heavy rockets do more damage (apply difficulty damage multiplier)
+      const baseDamage = rocket.type === 'heavy' ? 50 : 25;
+      const damage = hitShip('rocket', Math.floor(baseDamage * difficulty.damageMultiplier));
+      rocket.active = false;
+      
+      triggerScreenShake(0.35, 180); // Rocket collision
+      triggerScreenFlash(hitFlashColor(damage), 0.3, 100);
+      
+        // Create explosion at world position
+        state.explosions.push({
+          id: nextId(state, 'explosion'),
+          position: { x: rocket.position.x, y: rocket.position.y },
+          startTime: now
+        });
+        spawnExplosionParticles(state, rng, now, rocket.position.x, rocket.position.y, 6);
+      
+      if (state.spaceship.health <= 0) {
+        loseLife();
+      }
+    }
+  });
+
+  // Check spaceship-saucer collisions
+  state.saucers.forEach(saucer => {
+    if (saucer.active && shipVulnerable(state, now) && checkCollision(state.spaceship, saucer)) {
+      // Damage spaceship (apply difficulty damage multiplier)
+      const damage = hitShip('saucer', Math.floor(30 * difficulty.damageMultiplier));
+      saucer.active = false;
+      
+      triggerScreenShake(0.4, 200); // Saucer collision
+      triggerScreenFlash(hitFlashColor(damage), 0.35, 120);
+      
+      // Create explosion at world position
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { x: saucer.position.x, y: saucer.position.y },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now, saucer.position.x, saucer.position.y, 6);
+      
+      if (state.spaceship.health <= 0) {
+        loseLife();
+      }
+    }
+  });
+
+  // Check spaceship-tree collisions (instant death)
+  state.trees.forEach(tree => {
+    const treeCollider = {
+      position: { x: tree.x, y: tree.y },
+      size: { x: tree.width, y: tree.height }
+    };
+    
+    if (shipVulnerable(state, now) && checkCollision(state.spaceship, treeCollider)) {
+      // Instant kill - the whole hull at once, and the shield doesn't stop trees
+      hitShip('tree', state.spaceship.health);
+      loseLife();
+      
+      triggerScreenShake(0.8, 450); // Tree collision - heavy impact
+      
+      // Create big explosion
+      state.explosions.push({
+        id: nextId(state, 'explosion'),
+        position: { x: tree.x, y: tree.y + tree.height / 2 },
+        startTime: now
+      });
+      spawnExplosionParticles(state, rng, now, tree.x, tree.y + tree.height / 2, 10);
+    }
+  });
+
+  // Update explosion particles
+  sweep(state, 'explosionParticles', particle => {
+    particle.position.x += particle.velocity.x * timeScale;
+    particle.position.y += particle.velocity.y * timeScale;
+    particle.velocity.y += 0.1 * timeScale; // Gravity effect on particles
+    particle.life -= 0.02 * timeScale; // Fade particles
+    return particle.life > 0;
+  });
+
+  // Update power-ups (falling)
+  state.powerUps.forEach(powerUp => {
+    powerUp.position.x += powerUp.velocity.x * timeScale;
+    powerUp.position.y += powerUp.velocity.y * timeScale;
+    
+    // Check collision with spaceship
+    if (powerUp.active && shipInPlay(state) && checkCollision(state.spaceship, powerUp)) {
+      powerUp.active = false;
+      emit({ type: 'powerUpCollected', powerUp: powerUp.powerUpType });
+      
+      const flashColors: Record<PowerUp['powerUpType'], string> = {
+        speed: '#00ffff',
+        fireRate: '#ff6600',
+        shield: '#00ff00',
+        spread: '#ffff00',
+        laser: '#00ff88',
+        missile: '#ff4400'
+      };
+
+      // Weapons go up a level rather than running on a timer
+      const type = powerUp.powerUpType;
+      if (isUpgradeableWeapon(type)) {
+        upgradeWeapon(state.weapons, type, emit);
+        triggerScreenFlash(flashColors[type], 0.4, 200);
+        return;
+      }
+
+      // Apply power-up effect (10 second duration)
+      const effectDuration = 10000;
+      const expiresAt = now + effectDuration;
+      
+      if (type === 'shield') {
+        raiseShield(state);
+      }
+
+      // Check if this power-up type is already active
+      const existingPowerUp = state.activePowerUps.find(p => p.type === type);
+      
+      if (existingPowerUp) {
+        // Extend existing power-up duration
+        existingPowerUp.expiresAt = Math.max(existingPowerUp.expiresAt, expiresAt);
+      } else {
+        // Add new power-up effect
+        state.activePowerUps.push({
+          type,
+          expiresAt
+        });
+        triggerScreenFlash(flashColors[type], 0.4, 200);
+      }
+    }
+  });
+
+  // Generate and update trail particles for active power-ups
+  // Generate new trail particles based on active power-ups (every 2-3 frames, spawn conditionally) - none from a wreck
+  if (state.shipStatus.phase !== 'dead' && rng.next() < 0.4) { // 40% chance per frame = spawns every ~2-3 frames
+    state.activePowerUps.forEach(powerUp => {
+      const shipCenterX = state.spaceship.position.x + state.spaceship.size.x / 2;
+      const shipCenterY = state.spaceship.position.y + state.spaceship.size.y / 2;
+      
+      if (powerUp.type === 'speed') {
+        // Cyan afterburner trails behind ship
+        for (let i = 0; i < 2; i++) {
+          spawnTrailParticle(state, {
+            x: shipCenterX - 20 + rng.next() * 10,
+            y: shipCenterY + (rng.next() - 0.5) * state.spaceship.size.y,
+            size: 3 + rng.next() * 3,
+            alpha: 0.8,
+            color: '#00ffff',
+            life: 0.5 + rng.next() * 0.3
+          });
+        }
+      } else if (powerUp.type === 'fireRate') {
+        // Orange/red energy sparks around ship
+        const angle = rng.next() * Math.PI * 2;
+        const distance = 15 + rng.next() * 10;
+        spawnTrailParticle(state, {
+          x: shipCenterX + Math.cos(angle) * distance,
+          y: shipCenterY + Math.sin(angle) * distance,
+          size: 2 + rng.next() * 2,
+          alpha: 0.7,
+          color: rng.next() > 0.5 ? '#ff6600' : '#ff3300',
+          life: 0.4 + rng.next() * 0.2
+        });
+      } else if (powerUp.type === 'shield' && !state.shield?.broken) {
+        // Green shield ring particles
+        const angle = rng.next() * Math.PI * 2;
+        const distance = 25 + rng.next() * 5;
+        spawnTrailParticle(state, {
+          x: shipCenterX + Math.cos(angle) * distance,
+          y: shipCenterY + Math.sin(angle) * distance,
+          size: 2 + rng.next() * 2,
+          alpha: 0.6,
+          color: '#00ff00',
+          life: 0.5 + rng.next() * 0.3
+        });
+      }
+    });
+  }
+  
+  // Update and fade trail particles
+  sweep(state, 'trailParticles', particle => {
+    particle.life -= 0.03 * timeScale; // Fade out
+    particle.alpha = particle.life;
+    particle.x -= 1 * timeScale; // Slight drift backwards
+    return particle.life > 0;
+  });
+
+  // Filter out inactive objects
+  sweep(state, 'projectiles', p => p.active);
+  state.rockets = state.rockets.filter(r => r.active);
+  state.saucers = state.saucers.filter(s => s.active);
+  state.aliens = state.aliens.filter(a => a.active);
+  state.bossRockets = state.bossRockets.filter(b => b.active);
+};
+
+const ignoreEvents: EmitEvent = () => {};
+
+const isRunning = (state: GameState) => state.isPlaying && !state.isPaused && !state.gameOver && !state.stage?.complete;
+
+// Advance `state` itself by one tick, for the live game loop that owns it. Returns false if the tick
+// didn't run - paused, over, or not started
+export const stepInPlace = (state: GameState, input: SimInput, emit: EmitEvent = ignoreEvents): boolean => {
+  if (!isRunning(state)) {
+    return false;
+  }
+
+  const rng = createRng(state.rngState);
+  advance(state, input, rng, emit);
+  state.rngState = rng.state;
+  return true;
+};
+
+// What a batch of ticks produced
+export interface TickBatch {
+  fromTick: number; // Tick the batch started on
+  ticks: number; // How many ran - fewer than asked once the run ends
+  events: GameEvent[];
+}
+
+// Up to `ticks` ticks of `state` in place on the same input, collecting what they emit
+export const stepManyInPlace = (state: GameState, input: SimInput, ticks: number): TickBatch => {
+  const events: GameEvent[] = [];
+  const fromTick = state.tick;
+  let ran = 0;
+  while (ran < ticks && stepInPlace(state, input, event => events.push(event))) {
+    ran++;
+  }
+  return { fromTick, ticks: ran, events };
+};
+
+// Pure simulation step: returns the state one tick later and never touches the one passed in
+export const step = (state: GameState, input: SimInput, emit: EmitEvent = ignoreEvents): GameState => {
+  if (!isRunning(state)) {
+    return state;
+  }
+
+  const next = structuredClone(state);
+  stepInPlace(next, input, emit);
+  return next;
+};
@@ -0,0 +1,62 @@
+import { GameState, TerrainLayers, Tree } from '@/types/game';
+import { decodeInput } from '@/engine/replay';
+import { TickBatch, stepManyInPlace } from '@/engine/simulation';
+
+// The simulation on its own thread. It holds the live state, steps it whenever the page asks
+// and posts back what came of each batch
+
+export type ToWorker =
+  | { type: 'load'; state: GameState; generation: number } // Replaces whatever the worker was running
+  | { type: 'advance'; ticks: number; code: number };
+
+// Terrain and trees are most of a snapshot and rarely change, so they're left out (null)
+// when they're the same as in the previous message
+export interface CompactState extends Omit<GameState, 'terrain' | 'trees'> {
+  terrain: TerrainLayers | null;
+  trees: Tree[] | null;
+}
+
+// `generation` is that of the load it ran on, so the page can drop results for a state it's since replaced
+export interface FromWorker extends TickBatch {
+  type: 'advanced';
+  state: CompactState;
+  code: number;
+  generation: number;
+}
+
+const scope = self as unknown as Pick<Worker, 'postMessage' | 'addEventListener'>;
+
+let state: GameState | null = null;
+let generation = 0;
+let sentScenery = ''; // Terrain and trees as of the last message
+
+// Terrain is only ever appended to and trimmed from the front, so lengths and first points tell it apart
+const scenerySignature = ({ terrain, trees }: GameState) =>
+  [terrain.background, terrain.middle, terrain.foreground, trees]
+    .map(points => `${points.length}:${points[0]?.x}`)
+    .join('|');
+
+const compact = (current: GameState): CompactState => {
+  const signature = scenerySignature(current);
+  if (signature === sentScenery) {
+    return { ...current, terrain: null, trees: null };
+  }
+  sentScenery = signature;
+  return current;
+};
+
+scope.addEventListener('message', ({ data }: MessageEvent<ToWorker>) => {
+  if (data.type === 'load') {
+    state = data.state;
+    generation = data.generation;
+    sentScenery = scenerySignature(state);
+    return;
+  }
+
+  if (!state) {
+    return;
+  }
+  const batch = stepManyInPlace(state, decodeInput(data.code), data.ticks);
+  const message: FromWorker = { type: 'advanced', ...batch, state: compact(state), code: data.code, generation };
+  scope.postMessage(message);
+});
@@ -0,0 +1,144 @@
+import { TerrainTheme } from '@/types/game';
+import { EnemyKind, FormationSlot } from '@/engine/enemies';
+import { FLIGHT_PATHS, FlightPathName, Formation, formationOffset } from '@/engine/flightPaths';
+
+// Campaign stages - a terrain theme and a timeline of authored waves, with a mid-boss halfway
+// through and an end boss that has to go down to clear the stage
+
+// Height band a wave enters in
+export type EntryPath = 'high' | 'center' | 'low';
+
+export interface WaveEvent {
+  at: number; // ms into the stage
+  enemy: EnemyKind;
+  count: number;
+  formation: Formation;
+  entry: EntryPath;
+  delay: number; // ms between members entering
+  path?: FlightPathName; // Flown on the way in - without one each enemy moves its own way from the start
+}
+
+export interface StageBoss {
+  at: number; // ms into the stage - waits for the field to be free of other bosses
+  script: number; // Index into BOSS_SCRIPTS
+  healthScale: number;
+}
+
+export interface StageDefinition {
+  name: string;
+  theme: TerrainTheme;
+  level: number; // Enemy stats and scroll speed match this endless level
+  waves: WaveEvent[];
+  midBoss: StageBoss;
+  endBoss: StageBoss;
+}
+
+export interface ScheduledSpawn {
+  at: number;
+  enemy: EnemyKind;
+  slot: FormationSlot;
+}
+
+const ENTRY_HEIGHT: Record<EntryPath, number> = {
+  high: 140,
+  center: 260,
+  low: 380,
+};
+
+export const STAGES: StageDefinition[] = [
+  {
+    name: 'OUTER COLONIES',
+    theme: 'nebula',
+    level: 2,
+    waves: [
+      { at: 2000, enemy: 'saucer', count: 3, formation: 'stream', entry: 'high', delay: 600, path: 'loop' },
+      { at: 7000, enemy: 'saucer', count: 5, formation: 'vee', entry: 'center', delay: 0, path: 'swoopHold' },
+      { at: 13000, enemy: 'zigzagFighter', count: 3, formation: 'column', entry: 'center', delay: 0 },
+      { at: 19000, enemy: 'alien', count: 3, formation: 'stream', entry: 'low', delay: 1500 },
+      { at: 25000, enemy: 'saucer', count: 4, formation: 'line', entry: 'low', delay: 0, path: 'weave' },
+      { at: 48000, enemy: 'zigzagFighter', count: 5, formation: 'vee', entry: 'high', delay: 0, path: 'swoopHold' },
+      { at: 55000, enemy: 'saucer', count: 6, formation: 'stream', entry: 'center', delay: 400, path: 'orbit' },
+      { at: 62000, enemy: 'crawlingAlien', count: 2, formation: 'stream', entry: 'low', delay: 2000 },
+      { at: 68000, enemy: 'zigzagFighter', count: 4, formation: 'column', entry: 'high', delay: 0 },
+    ],
+    midBoss: { at: 32000, script: 0, healthScale: 0.5 },
+    endBoss: { at: 78000, script: 1, healthScale: 1 },
+  },
+  {
+    name: 'DUNE SEA',
+    theme: 'desert',
+    level: 4,
+    waves: [
+      { at: 2000, enemy: 'diveBomber', count: 3, formation: 'stream', entry: 'high', delay: 800 },
+      { at: 7000, enemy: 'zigzagFighter', count: 5, formation: 'vee', entry: 'center', delay: 0, path: 'swoopHold' },
+      { at: 12000, enemy: 'crawlingAlien', count: 3, formation: 'stream', entry: 'low', delay: 1500 },
+      { at: 17000, enemy: 'saucer', count: 5, formation: 'circle', entry: 'center', delay: 0, path: 'orbit' },
+      { at: 23000, enemy: 'bossRocket', count: 1, formation: 'stream', entry: 'center', delay: 0 },
+      { at: 50000, enemy: 'diveBomber', count: 4, formation: 'line', entry: 'high', delay: 0 },
+      { at: 56000, enemy: 'splitter', count: 2, formation: 'column', entry: 'center', delay: 0 },
+      { at: 63000, enemy: 'zigzagFighter', count: 6, formation: 'stream', entry: 'low', delay: 500, path: 'loop' },
+      { at: 70000, enemy: 'alien', count: 4, formation: 'stream', entry: 'low', delay: 1000 },
+    ],
+    midBoss: { at: 32000, script: 2, healthScale: 0.5 },
+    endBoss: { at: 80000, script: 3, healthScale: 1 },
+  },
+  {
+    name: 'FROST BELT',
+    theme: 'glacier',
+    level: 6,
+    waves: [
+      { at: 2000, enemy: 'splitter', count: 3, formation: 'vee', entry: 'center', delay: 0, path: 'swoopHold' },
+      { at: 8000, enemy: 'diveBomber', count: 5, formation: 'stream', entry: 'high', delay: 500, path: 'loop' },
+      { at: 14000, enemy: 'zigzagFighter', count: 5, formation: 'column', entry: 'center', delay: 0, path: 'weave' },
+      { at: 20000, enemy: 'bossRocket', count: 2, formation: 'column', entry: 'center', delay: 0 },
+      { at: 26000, enemy: 'crawlingAlien', count: 4, formation: 'stream', entry: 'low', delay: 1200 },
+      { at: 52000, enemy: 'saucer', count: 7, formation: 'circle', entry: 'center', delay: 0, path: 'orbit' },
+      { at: 58000, enemy: 'splitter', count: 3, formation: 'line', entry: 'high', delay: 0, path: 'weave' },
+      { at: 65000, enemy: 'diveBomber', count: 6, formation: 'line', entry: 'high', delay: 0 },
+      { at: 72000, enemy: 'bossRocket', count: 2, formation: 'stream', entry: 'center', delay: 3000 },
+    ],
+    midBoss: { at: 34000, script: 4, healthScale: 0.6 },
+    endBoss: { at: 84000, script: 5, healthScale: 1.1 },
+  },
+  {
+    name: 'CORE FURNACE',
+    theme: 'inferno',
+    level: 8,
+    waves: [
+      { at: 2000, enemy: 'zigzagFighter', count: 7, formation: 'vee', entry: 'center', delay: 0, path: 'swoopHold' },
+      { at: 8000, enemy: 'bossRocket', count: 2, formation: 'column', entry: 'center', delay: 0 },
+      { at: 14000, enemy: 'diveBomber', count: 6, formation: 'stream', entry: 'high', delay: 400, path: 'loop' },
+      { at: 20000, enemy: 'splitter', count: 4, formation: 'column', entry: 'center', delay: 0 },
+      { at: 26000, enemy: 'crawlingAlien', count: 4, formation: 'stream', entry: 'low', delay: 1000 },
+      { at: 54000, enemy: 'saucer', count: 8, formation: 'circle', entry: 'high', delay: 0, path: 'orbit' },
+      { at: 60000, enemy: 'bossRocket', count: 3, formation: 'vee', entry: 'center', delay: 0 },
+      { at: 67000, enemy: 'zigzagFighter', count: 8, formation: 'stream', entry: 'low', delay: 300, path: 'loop' },
+      { at: 74000, enemy: 'splitter', count: 4, formation: 'vee', entry: 'center', delay: 0, path: 'swoopHold' },
+    ],
+    midBoss: { at: 36000, script: 3, healthScale: 0.7 },
+    endBoss: { at: 88000, script: 4, healthScale: 1.25 },
+  },
+];
+
+const schedules: ScheduledSpawn[][] = [];
+
+// Every wave expanded into its members, in the order they enter
+export const stageSchedule = (index: number): ScheduledSpawn[] => {
+  if (!schedules[index]) {
+    schedules[index] = STAGES[index].waves
+      .flatMap(wave => Array.from({ length: wave.count }, (_, i) => {
+        const offset = formationOffset(wave.formation, i, wave.count);
+        return {
+          at: wave.at + i * wave.delay,
+          enemy: wave.enemy,
+          slot: {
+            y: ENTRY_HEIGHT[wave.entry] + offset.y,
+            offsetX: offset.x,
+            ...(wave.path && { path: { maneuvers: FLIGHT_PATHS[wave.path], offset } }),
+          },
+        };
+      }))
+      .sort((a, b) => a.at - b.at);
+  }
+  return schedules[index];
+};
@@ -0,0 +1,34 @@
+import { GameState } from '@/types/game';
+
+// Holds the live game state outside React. The game loop advances it and the canvas draws
+// straight from it every frame - React only ever sees snapshots
+
+// Gets the frame to draw - the state itself, or an interpolated view of it
+export type StoreListener = (view: GameState) => void;
+
+export interface GameStore {
+  get: () => GameState;
+  set: (state: GameState, view?: GameState) => void; // Swap in another state - a new run, a loaded save, a replay seek
+  changed: (view?: GameState) => void; // The current state was advanced or edited in place
+  subscribe: (listener: StoreListener) => () => void;
+}
+
+export const createGameStore = (initial: GameState): GameStore => {
+  let state = initial;
+  const listeners = new Set<StoreListener>();
+
+  const changed = (view: GameState = state) => listeners.forEach(listener => listener(view));
+
+  return {
+    get: () => state,
+    set: (next, view = next) => {
+      state = next;
+      changed(view);
+    },
+    changed,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
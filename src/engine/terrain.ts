@@ -0,0 +1,80 @@
+import { TerrainPoint } from '@/types/game';
+
+// The foreground terrain is solid ground. It scrolls faster than the world to give the parallax, so
+// collisions work in the layer's own x: a point at layer x is drawn at toScreenX(camera, x, FOREGROUND_DEPTH)
+
+export const FOREGROUND_DEPTH = 1.2;
+
+// Where a box meets the ground
+export interface GroundContact {
+  x: number; // Layer x of the highest ground under the box
+  y: number; // Its height there
+  depth: number; // How far the box's bottom is below it
+  slope: number; // dy/dx of the ground there - negative where it rises to the right
+}
+
+// Index of the last point at or before x. Points run in x order
+const pointBefore = (points: TerrainPoint[], x: number): number => {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid].x <= x) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+// Ground height under layer x. Past either end it carries on flat, the way the canvas draws it
+export const groundHeightAt = (points: TerrainPoint[], x: number): number => {
+  const last = points[points.length - 1];
+  if (x <= points[0].x) return points[0].y;
+  if (x >= last.x) return last.y;
+
+  const i = pointBefore(points, x);
+  const a = points[i];
+  const b = points[i + 1];
+  return b.x === a.x ? a.y : a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+};
+
+// Polyline against the box spanning [left, right] in layer x with its bottom at `bottom`. Null if it's
+// clear of the ground
+export const groundContact = (points: TerrainPoint[], left: number, right: number, bottom: number): GroundContact | null => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  // The ground is straight between points, so its highest spot under the box is at one of the box's
+  // edges or at a point in between
+  let x = left;
+  let y = groundHeightAt(points, left);
+  const rightY = groundHeightAt(points, right);
+  if (rightY < y) {
+    x = right;
+    y = rightY;
+  }
+  for (let i = pointBefore(points, left) + 1; i < points.length && points[i].x < right; i++) {
+    if (points[i].x > left && points[i].y < y) {
+      x = points[i].x;
+      y = points[i].y;
+    }
+  }
+
+  if (bottom < y) {
+    return null;
+  }
+  const slope = (groundHeightAt(points, x + 1) - groundHeightAt(points, x - 1)) / 2;
+  return { x, y, depth: bottom - y, slope };
+};
+
+// How hard something moving at (vx, vy) relative to the ground runs into it where it slopes at `slope` -
+// its speed along the ground's downward normal, and the angle it comes in at (radians, 0 = grazing)
+export const groundImpact = (vx: number, vy: number, slope: number) => {
+  const normalLength = Math.sqrt(1 + slope * slope);
+  const speed = (vy - slope * vx) / normalLength;
+  const along = Math.abs(vx + slope * vy) / normalLength;
+  return { speed, angle: Math.atan2(speed, along) };
+};
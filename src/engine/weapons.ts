@@ -0,0 +1,154 @@
+import { Projectile, ProjectileSpec, UpgradeableWeapon, Vector2, WeaponLoadout, WeaponType } from '@/types/game';
+import { EmitEvent } from '@/engine/events';
+
+// The ship's guns. The blaster is always there; spread, laser and missile come from power-ups, and every
+// further pickup of one takes it up a level - more shots, harder hits, sharper homing. The player
+// switches between the ones they have, and each loses a level when the ship goes down
+
+export const MAX_WEAPON_LEVEL = 5;
+
+// Switching order
+export const WEAPON_ORDER: WeaponType[] = ['normal', 'spread', 'laser', 'missile'];
+
+export const UPGRADEABLE_WEAPONS: UpgradeableWeapon[] = ['spread', 'laser', 'missile'];
+
+export const isUpgradeableWeapon = (type: string): type is UpgradeableWeapon =>
+  (UPGRADEABLE_WEAPONS as string[]).includes(type);
+
+export const createLoadout = (): WeaponLoadout => ({ levels: { spread: 0, laser: 0, missile: 0 }, selected: 'normal' });
+
+// 0 for a weapon not picked up yet
+export const weaponLevel = (loadout: WeaponLoadout, weapon: WeaponType): number =>
+  weapon === 'normal' ? 1 : loadout.levels[weapon];
+
+// A pickup: one level up, and straight into the player's hands
+export const upgradeWeapon = (loadout: WeaponLoadout, weapon: UpgradeableWeapon, emit: EmitEvent) => {
+  loadout.levels[weapon] = Math.min(MAX_WEAPON_LEVEL, loadout.levels[weapon] + 1);
+  loadout.selected = weapon;
+  emit({ type: 'weaponUpgraded', weapon, level: loadout.levels[weapon] });
+};
+
+// On to the next weapon the ship has, wrapping round to the blaster
+export const cycleWeapon = (loadout: WeaponLoadout, emit: EmitEvent) => {
+  const start = WEAPON_ORDER.indexOf(loadout.selected);
+  for (let i = 1; i < WEAPON_ORDER.length; i++) {
+    const weapon = WEAPON_ORDER[(start + i) % WEAPON_ORDER.length];
+    if (weaponLevel(loadout, weapon) > 0) {
+      loadout.selected = weapon;
+      emit({ type: 'weaponSwitched', weapon });
+      return;
+    }
+  }
+};
+
+// Every weapon drops a level. One that drops to nothing is gone, and if it was in hand the ship is back
+// on the blaster
+export const loseWeaponLevels = (loadout: WeaponLoadout) => {
+  UPGRADEABLE_WEAPONS.forEach(weapon => {
+    loadout.levels[weapon] = Math.max(0, loadout.levels[weapon] - 1);
+  });
+  if (weaponLevel(loadout, loadout.selected) === 0) {
+    loadout.selected = 'normal';
+  }
+};
+
+// What one shot of a weapon puts out
+export interface Volley {
+  projectiles: ProjectileSpec[];
+  ammo: number; // Ammunition it costs
+}
+
+// Shots spread evenly over `spacing` steps either side of the middle
+const fan = (count: number, spacing: number): number[] =>
+  Array.from({ length: count }, (_, i) => (i - (count - 1) / 2) * spacing);
+
+// The shot from `muzzle` of a weapon at a level
+export const weaponVolley = (weapon: WeaponType, level: number, muzzle: Vector2, bulletSpeed: number): Volley => {
+  switch (weapon) {
+    case 'spread':
+      // Three to seven bullets in a widening fan, each a little harder
+      return {
+        projectiles: fan(level + 2, 0.15).map(angle => ({
+          position: { x: muzzle.x, y: muzzle.y },
+          velocity: { x: bulletSpeed * Math.cos(angle), y: bulletSpeed * Math.sin(angle) },
+          size: { x: 6, y: 2 },
+          damage: 9 + level * 2,
+          type: 'spread',
+        })),
+        ammo: 3,
+      };
+    case 'laser':
+      // Long beams, stacked one above the other as more are added
+      return {
+        projectiles: fan(Math.ceil(level / 2), 8).map(offset => ({
+          position: { x: muzzle.x, y: muzzle.y - 2 + offset },
+          velocity: { x: bulletSpeed * 1.5, y: 0 },
+          size: { x: 60, y: 4 },
+          damage: 30 + level * 5,
+          type: 'player_laser',
+        })),
+        ammo: 2,
+      };
+    case 'missile':
+      // Homing missiles that turn harder at each level
+      return {
+        projectiles: fan(Math.ceil(level / 2), 0.1).map(angle => ({
+          position: { x: muzzle.x, y: muzzle.y },
+          velocity: { x: bulletSpeed * 0.8 * Math.cos(angle), y: bulletSpeed * 0.8 * Math.sin(angle) },
+          size: { x: 16, y: 6 },
+          damage: 45 + level * 5,
+          type: 'missile',
+          homing: 0.04 + level * 0.02,
+        })),
+        ammo: 4,
+      };
+    default:
+      return {
+        projectiles: [{
+          position: { x: muzzle.x, y: muzzle.y },
+          velocity: { x: bulletSpeed, y: 0 },
+          size: { x: 8, y: 2 },
+          damage: 25,
+          type: 'bullet',
+        }],
+        ammo: 1,
+      };
+  }
+};
+
+// A charged blast costs this much ammunition, and this much more at full charge
+const BLAST_AMMO = 5;
+const BLAST_AMMO_AT_FULL = 15;
+
+// The most charge `ammunition` pays for - below 0 if it can't cover even the smallest blast
+export const affordableCharge = (ammunition: number): number => (ammunition - BLAST_AMMO) / BLAST_AMMO_AT_FULL;
+
+// The blast let go after charging for `charge` (0 to 1) - bigger, harder and dearer the longer the charge
+// was held. It goes through everything in its path
+export const chargedBlast = (charge: number, muzzle: Vector2, bulletSpeed: number): Volley => {
+  const height = 12 + charge * 36;
+  return {
+    projectiles: [{
+      position: { x: muzzle.x, y: muzzle.y - height / 2 },
+      velocity: { x: bulletSpeed * 1.2, y: 0 },
+      size: { x: height * 1.5, y: height },
+      damage: Math.round(50 + charge * 150),
+      type: 'charge',
+      pierced: [],
+    }],
+    ammo: Math.round(BLAST_AMMO + charge * BLAST_AMMO_AT_FULL),
+  };
+};
+
+// Whether a shot can still hit `target` - a piercing one only hits each thing once
+export const canHit = (projectile: Projectile, target: string): boolean =>
+  projectile.active && !projectile.pierced?.includes(target);
+
+// A shot has hit `target`: used up, unless it pierces and carries on
+export const spendShot = (projectile: Projectile, target: string) => {
+  if (projectile.pierced) {
+    projectile.pierced.push(target);
+  } else {
+    projectile.active = false;
+  }
+};
@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef } from 'react';
+import { SimInput, IDLE_INPUT } from '@/engine/simulation';
+
+// Stick travel below this is ignored so worn sticks don't drift the ship
+const STICK_DEADZONE = 0.2;
+const TRIGGER_THRESHOLD = 0.5;
+
+// Standard Gamepad API button layout
+const BUTTON = {
+  A: 0,
+  B: 1,
+  Y: 3,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  START: 9,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15,
+};
+
+export type GamepadAction = 'up' | 'down' | 'left' | 'right' | 'confirm' | 'back' | 'start';
+
+const getGamepad = (): Gamepad | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  return navigator.getGamepads().find(pad => pad && pad.connected) ?? null;
+};
+
+const isPressed = (pad: Gamepad, index: number): boolean => {
+  const button = pad.buttons[index];
+  return !!button && (button.pressed || button.value > TRIGGER_THRESHOLD);
+};
+
+// Radial deadzone, rescaled so full analog range starts right at its edge
+const applyDeadzone = (x: number, y: number): { x: number; y: number } => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < STICK_DEADZONE) return { x: 0, y: 0 };
+
+  const scale = Math.min(1, (magnitude - STICK_DEADZONE) / (1 - STICK_DEADZONE)) / magnitude;
+  return { x: x * scale, y: y * scale };
+};
+
+// Poll the first connected pad: left stick or d-pad to move, A/RT to fire, B/LT to bomb, Y/RB to switch weapon
+export const readGamepadInput = (): SimInput => {
+  const pad = getGamepad();
+  if (!pad) return IDLE_INPUT;
+
+  const stick = applyDeadzone(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+  const dpadX = (isPressed(pad, BUTTON.DPAD_RIGHT) ? 1 : 0) - (isPressed(pad, BUTTON.DPAD_LEFT) ? 1 : 0);
+  const dpadY = (isPressed(pad, BUTTON.DPAD_DOWN) ? 1 : 0) - (isPressed(pad, BUTTON.DPAD_UP) ? 1 : 0);
+
+  return {
+    moveX: dpadX || stick.x,
+    moveY: dpadY || stick.y,
+    fire: isPressed(pad, BUTTON.A) || isPressed(pad, BUTTON.RT),
+    bomb: isPressed(pad, BUTTON.B) || isPressed(pad, BUTTON.LT),
+    cycleWeapon: isPressed(pad, BUTTON.Y) || isPressed(pad, BUTTON.RB),
+  };
+};
+
+// Name of the connected controller, tracked through hot-plug events
+export const useGamepadConnection = (): string | null => {
+  const [gamepadId, setGamepadId] = useState<string | null>(() => getGamepad()?.id ?? null);
+
+  useEffect(() => {
+    const update = () => setGamepadId(getGamepad()?.id ?? null);
+
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+    };
+  }, []);
+
+  return gamepadId;
+};
+
+// Read the pad's digital state as menu actions (stick counts as a d-pad here)
+const readActions = (pad: Gamepad): Set<GamepadAction> => {
+  const actions = new Set<GamepadAction>();
+  const [x = 0, y = 0] = pad.axes;
+
+  if (isPressed(pad, BUTTON.DPAD_UP) || y < -0.5) actions.add('up');
+  if (isPressed(pad, BUTTON.DPAD_DOWN) || y > 0.5) actions.add('down');
+  if (isPressed(pad, BUTTON.DPAD_LEFT) || x < -0.5) actions.add('left');
+  if (isPressed(pad, BUTTON.DPAD_RIGHT) || x > 0.5) actions.add('right');
+  if (isPressed(pad, BUTTON.A)) actions.add('confirm');
+  if (isPressed(pad, BUTTON.B)) actions.add('back');
+  if (isPressed(pad, BUTTON.START)) actions.add('start');
+
+  return actions;
+};
+
+// Fire `onAction` once per press - the Gamepad API has no button events, so this polls every frame
+export const useGamepadActions = (onAction: (action: GamepadAction) => void, enabled: boolean = true) => {
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let frameId: number;
+    // Buttons already down when polling starts (e.g. fire held through game over) don't count as presses
+    let held: Set<GamepadAction> | null = null;
+
+    const poll = () => {
+      const pad = getGamepad();
+      const current = pad ? readActions(pad) : new Set<GamepadAction>();
+
+      const previous = held;
+      if (previous) {
+        current.forEach(action => {
+          if (!previous.has(action)) {
+            onActionRef.current(action);
+          }
+        });
+      }
+      held = current;
+
+      frameId = requestAnimationFrame(poll);
+    };
+
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [enabled]);
+};
@@ -0,0 +1,102 @@
+import { useState, useCallback } from 'react';
+import { GameAction, KeyBindings, KEY_BINDING_PRESETS } from '@/types/game';
+
+const STORAGE_KEY = 'galaxy-guard-keybindings';
+
+export const GAME_ACTIONS: { action: GameAction; label: string }[] = [
+  { action: 'moveUp', label: 'MOVE UP' },
+  { action: 'moveDown', label: 'MOVE DOWN' },
+  { action: 'moveLeft', label: 'MOVE LEFT' },
+  { action: 'moveRight', label: 'MOVE RIGHT' },
+  { action: 'fire', label: 'SHOOT' },
+  { action: 'bomb', label: 'BOMB' },
+  { action: 'cycleWeapon', label: 'SWITCH WEAPON' },
+  { action: 'pause', label: 'PAUSE' },
+];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  Escape: 'ESC',
+  Enter: 'ENTER',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+  AltLeft: 'L-ALT',
+  AltRight: 'R-ALT',
+};
+
+// Readable label for a KeyboardEvent.code ('KeyW' -> 'W', 'Digit1' -> '1')
+export const formatKey = (code: string): string => {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `NUM ${code.slice(6).toUpperCase()}`;
+  return code.toUpperCase();
+};
+
+// "↑ / W" style label for every key bound to an action, or a dash if it has none
+export const formatBinding = (bindings: KeyBindings, action: GameAction): string => {
+  return bindings[action].map(formatKey).join(' / ') || '—';
+};
+
+const MOVE_ACTIONS: GameAction[] = ['moveUp', 'moveDown', 'moveLeft', 'moveRight'];
+
+// The four movement keys as one label, primaries then alternates ("↑↓←→ / WSAD")
+export const formatMovement = (bindings: KeyBindings): string => {
+  return [0, 1]
+    .map(slot => MOVE_ACTIONS.map(action => bindings[action][slot]).filter(Boolean).map(formatKey).join(''))
+    .filter(Boolean)
+    .join(' / ');
+};
+
+// Action (other than `except`) that already uses `code`, if any
+export const findBindingConflict = (bindings: KeyBindings, code: string, except?: GameAction): GameAction | null => {
+  const match = GAME_ACTIONS.find(({ action }) => action !== except && bindings[action].includes(code));
+  return match ? match.action : null;
+};
+
+export const isActionKey = (bindings: KeyBindings, action: GameAction, code: string): boolean => {
+  return bindings[action].includes(code);
+};
+
+// Fill in actions added since the bindings were saved with their classic keys - except any the player
+// has already put on another action, which would otherwise set off both. One left with no keys is unbound
+const withNewActions = (saved: Partial<KeyBindings>): KeyBindings => {
+  const missing = GAME_ACTIONS.map(({ action }) => action).filter(action => !saved[action]);
+  const bindings = { ...saved } as KeyBindings;
+  missing.forEach(action => {
+    bindings[action] = [];
+  });
+  missing.forEach(action => {
+    bindings[action] = KEY_BINDING_PRESETS.classic[action].filter(code => !findBindingConflict(bindings, code, action));
+  });
+  return bindings;
+};
+
+const loadBindings = (): KeyBindings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return withNewActions(JSON.parse(saved));
+    }
+  } catch (error) {
+    console.error('Failed to load key bindings:', error);
+  }
+  return KEY_BINDING_PRESETS.classic;
+};
+
+export const useKeyBindings = () => {
+  const [keyBindings, setKeyBindingsState] = useState<KeyBindings>(loadBindings);
+
+  const setKeyBindings = useCallback((bindings: KeyBindings) => {
+    setKeyBindingsState(bindings);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  }, []);
+
+  return { keyBindings, setKeyBindings };
+};
@@ -1,9 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
-import { SaveData, LeaderboardEntry } from '@/types/game';
+import { SaveData, LeaderboardEntry, Replay, CampaignProgress } from '@/types/game';
+import { ReplayFile, createReplayFile, readReplayFile } from '@/engine/replayFile';
+
+// Replays are kept in the compact file format, keyed by id, while a leaderboard entry points at them
+const readReplays = (): Record<string, ReplayFile> => {
+  const stored = localStorage.getItem('spaceship-replays');
+  return stored ? JSON.parse(stored) : {};
+};
 
 export const useLocalStorage = () => {
   const [savedGame, setSavedGame] = useState<SaveData | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [bestLevel, setBestLevel] = useState(1);
+  const [campaign, setCampaign] = useState<CampaignProgress>({ stagesCleared: 0, bestScores: {} });
 
   useEffect(() => {
     // Load saved game
@@ -17,14 +26,30 @@ export const useLocalStorage = () => {
     }
 
     // Load leaderboard
+    let entries: LeaderboardEntry[] = [];
     const scores = localStorage.getItem('spaceship-leaderboard');
     if (scores) {
       try {
-        setLeaderboard(JSON.parse(scores));
+        entries = JSON.parse(scores);
+        setLeaderboard(entries);
       } catch (error) {
         console.error('Failed to load leaderboard:', error);
       }
     }
+
+    // Best level reached unlocks the start levels. Players from before it was tracked keep
+    // what their leaderboard runs reached
+    const savedBest = Number(localStorage.getItem('spaceship-best-level')) || 1;
+    setBestLevel(Math.max(savedBest, ...entries.map(entry => entry.level)));
+
+    const savedCampaign = localStorage.getItem('spaceship-campaign');
+    if (savedCampaign) {
+      try {
+        setCampaign(JSON.parse(savedCampaign));
+      } catch (error) {
+        console.error('Failed to load campaign progress:', error);
+      }
+    }
   }, []);
 
   const saveGame = useCallback((data: SaveData) => {
@@ -41,7 +66,7 @@ export const useLocalStorage = () => {
     setSavedGame(null);
   }, []);
 
-  const addToLeaderboard = useCallback((entry: LeaderboardEntry) => {
+  const addToLeaderboard = useCallback((entry: LeaderboardEntry, replay?: Replay) => {
     try {
       // Ensure name is not empty - use default if needed
       const sanitizedEntry = {
@@ -61,16 +86,69 @@ export const useLocalStorage = () => {
       
       localStorage.setItem('spaceship-leaderboard', JSON.stringify(newLeaderboard));
       setLeaderboard(newLeaderboard);
+
+      // Store the new replay and drop the ones that fell off the board
+      const replays = readReplays();
+      if (replay) {
+        replays[replay.id] = createReplayFile(replay);
+      }
+      const keptIds = new Set(newLeaderboard.map(e => e.replayId).filter(Boolean));
+      const keptReplays = Object.fromEntries(
+        Object.entries(replays).filter(([id]) => keptIds.has(id))
+      );
+      try {
+        localStorage.setItem('spaceship-replays', JSON.stringify(keptReplays));
+      } catch (error) {
+        // Out of quota - the score is already saved, only the replay is lost
+        console.error('Failed to save replay:', error);
+      }
     } catch (error) {
       console.error('Failed to save to leaderboard:', error);
     }
   }, []);
 
+  const recordLevelReached = useCallback((level: number) => {
+    setBestLevel(prev => {
+      if (level <= prev) return prev;
+      localStorage.setItem('spaceship-best-level', String(level));
+      return level;
+    });
+  }, []);
+
+  const recordStageCleared = useCallback((stage: number, score: number) => {
+    setCampaign(prev => {
+      const next = {
+        stagesCleared: Math.max(prev.stagesCleared, stage + 1),
+        bestScores: { ...prev.bestScores, [stage]: Math.max(prev.bestScores[stage] ?? 0, score) },
+      };
+      localStorage.setItem('spaceship-campaign', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
   const clearLeaderboard = useCallback(() => {
     localStorage.removeItem('spaceship-leaderboard');
+    localStorage.removeItem('spaceship-replays');
     setLeaderboard([]);
   }, []);
 
+  const loadReplay = useCallback((id: string): Replay | null => {
+    try {
+      const file = readReplays()[id];
+      if (!file) return null;
+
+      const result = readReplayFile(file, id);
+      if ('error' in result) {
+        console.error('Failed to load replay:', result.error);
+        return null;
+      }
+      return result.replay;
+    } catch (error) {
+      console.error('Failed to load replay:', error);
+      return null;
+    }
+  }, []);
+
   return {
     savedGame,
     leaderboard,
@@ -78,6 +156,11 @@ export const useLocalStorage = () => {
     deleteSavedGame,
     addToLeaderboard,
     clearLeaderboard,
+    loadReplay,
+    bestLevel,
+    recordLevelReached,
+    campaign,
+    recordStageCleared,
     hasSavedGame: savedGame !== null,
   };
 };
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, Replay } from '@/types/game';
+import { TICK_MS, createInitialState, stepInPlace } from '@/engine/simulation';
+import { decodeInput } from '@/engine/replay';
+import { createGameStore } from '@/engine/store';
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+// Snapshot every 5s of game time so scrubbing back only re-simulates from the nearest one
+const KEYFRAME_INTERVAL = 300;
+
+// Long frames are clamped so a background tab doesn't fast-forward the replay on return
+const MAX_FRAME_MS = 100;
+
+interface Cursor {
+  tick: number;
+  state: GameState;
+}
+
+export const useReplayPlayer = (replay: Replay) => {
+  const totalTicks = replay.inputs.length;
+
+  const createStart = useCallback((): GameState => ({
+    ...createInitialState(replay.difficulty, replay.seed, replay.startLevel, replay.stage ?? null),
+    isPlaying: true,
+  }), [replay]);
+
+  const [cursor, setCursor] = useState<Cursor>(() => ({ tick: 0, state: createStart() }));
+  const cursorRef = useRef<Cursor>(cursor);
+  // What the canvas draws. The cursor's state is a working copy advanced in place - keyframes are
+  // copies of their own, so restoring one clones it rather than stepping it
+  const [store] = useState(() => createGameStore(cursor.state));
+  const keyframesRef = useRef<Map<number, GameState>>(new Map());
+  const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  // New replay - drop keyframes from the previous one and rewind
+  useEffect(() => {
+    const start = { tick: 0, state: createStart() };
+    keyframesRef.current = new Map([[0, structuredClone(start.state)]]);
+    cursorRef.current = start;
+    store.set(start.state);
+    setCursor(start);
+    setIsPaused(false);
+  }, [createStart, store]);
+
+  // Move the cursor to `target`, re-simulating from the closest keyframe at or before it
+  const seek = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(totalTicks, Math.round(target)));
+    let { tick, state } = cursorRef.current;
+
+    const keyframeTick = Math.floor(clamped / KEYFRAME_INTERVAL) * KEYFRAME_INTERVAL;
+    const keyframe = keyframesRef.current.get(keyframeTick);
+    if (keyframe && (clamped < tick || keyframeTick > tick)) {
+      tick = keyframeTick;
+      state = structuredClone(keyframe);
+    }
+
+    while (tick < clamped) {
+      stepInPlace(state, decodeInput(replay.inputs[tick]));
+      tick++;
+      if (tick % KEYFRAME_INTERVAL === 0 && !keyframesRef.current.has(tick)) {
+        keyframesRef.current.set(tick, structuredClone(state));
+      }
+    }
+
+    cursorRef.current = { tick, state };
+    store.set(state);
+    setCursor(cursorRef.current);
+  }, [replay, totalTicks, store]);
+
+  const isFinished = cursor.tick >= totalTicks || cursor.state.gameOver || !!cursor.state.stage?.complete;
+
+  // Playback loop - same fixed timestep as live play, scaled by the playback speed
+  useEffect(() => {
+    if (isPaused || isFinished) {
+      return;
+    }
+
+    let frameId: number;
+    let lastFrameTime: number | null = null;
+    let accumulator = 0;
+
+    const playbackLoop = (timestamp: number) => {
+      if (lastFrameTime !== null) {
+        accumulator += Math.min(timestamp - lastFrameTime, MAX_FRAME_MS) * speed;
+      }
+      lastFrameTime = timestamp;
+
+      const ticks = Math.floor(accumulator / TICK_MS);
+      accumulator -= ticks * TICK_MS;
+      if (ticks > 0) {
+        seek(cursorRef.current.tick + ticks);
+      }
+
+      frameId = requestAnimationFrame(playbackLoop);
+    };
+
+    frameId = requestAnimationFrame(playbackLoop);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPaused, isFinished, speed, seek]);
+
+  const togglePause = useCallback(() => {
+    setIsPaused(prev => !prev);
+  }, []);
+
+  // Frame-step pauses playback and moves one tick either way
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    setIsPaused(true);
+    seek(cursorRef.current.tick + direction);
+  }, [seek]);
+
+  const restart = useCallback(() => {
+    seek(0);
+    setIsPaused(false);
+  }, [seek]);
+
+  return {
+    gameState: cursor.state,
+    store,
+    tick: cursor.tick,
+    totalTicks,
+    isPaused,
+    isFinished,
+    speed,
+    setSpeed,
+    togglePause,
+    stepFrame,
+    seek,
+    restart,
+  };
+};
@@ -6,13 +6,18 @@ interface SoundEffects {
   shootSpread: () => void;
   shootLaser: () => void;
   shootMissile: () => void;
+  shootCharge: () => void;
   bomb: () => void;
   explosion: () => void;
   megaBossExplosion: () => void;
   hit: () => void;
+  shieldHit: () => void;
+  shieldBreak: () => void;
+  shieldRestore: () => void;
   gameOver: () => void;
   levelUp: () => void;
   powerUp: () => void;
+  weaponSwitch: () => void;
   collision: () => void;
 }
 
@@ -75,6 +80,13 @@ export const useSound = (): SoundEffects => {
     setTimeout(() => playBeep(500, 0.08, 0.04), 140);
   }, [playBeep]);
 
+  const shootCharge = useCallback(() => {
+    // Deep thump sweeping up as the charged blast lets go
+    playBeep(120, 0.3, 0.1);
+    setTimeout(() => playBeep(250, 0.15, 0.08), 40);
+    setTimeout(() => playBeep(600, 0.1, 0.06), 90);
+  }, [playBeep]);
+
   const bomb = useCallback(() => {
     playBeep(200, 0.3, 0.1);
   }, [playBeep]);
@@ -126,6 +138,26 @@ export const useSound = (): SoundEffects => {
     playBeep(300, 0.15, 0.07);
   }, [playBeep]);
 
+  const shieldHit = useCallback(() => {
+    // Bright ping as the shield soaks up a hit
+    playBeep(1500, 0.08, 0.05);
+  }, [playBeep]);
+
+  const shieldBreak = useCallback(() => {
+    // Descending crackle as the shield shatters
+    playBeep(1200, 0.1, 0.08);
+    setTimeout(() => playBeep(900, 0.1, 0.07), 50);
+    setTimeout(() => playBeep(500, 0.15, 0.06), 100);
+    setTimeout(() => playBeep(250, 0.2, 0.05), 160);
+  }, [playBeep]);
+
+  const shieldRestore = useCallback(() => {
+    // Rising hum as the shield comes back up
+    playBeep(400, 0.12, 0.05);
+    setTimeout(() => playBeep(700, 0.12, 0.05), 70);
+    setTimeout(() => playBeep(1100, 0.15, 0.06), 140);
+  }, [playBeep]);
+
   const gameOver = useCallback(() => {
     // Soft descending tone for game over
     playBeep(300, 0.4, 0.01);
@@ -148,6 +180,12 @@ export const useSound = (): SoundEffects => {
     setTimeout(() => playBeep(1200, 0.25, 0.08), 240);
   }, [playBeep]);
 
+  const weaponSwitch = useCallback(() => {
+    // Quick double click of the selector
+    playBeep(900, 0.04, 0.05);
+    setTimeout(() => playBeep(1200, 0.04, 0.05), 40);
+  }, [playBeep]);
+
   const collision = useCallback(() => {
     // Heavy thud for collisions
     playBeep(80, 0.25, 0.12);
@@ -159,13 +197,18 @@ export const useSound = (): SoundEffects => {
     shootSpread,
     shootLaser,
     shootMissile,
+    shootCharge,
     bomb,
     explosion,
     megaBossExplosion,
     hit,
+    shieldHit,
+    shieldBreak,
+    shieldRestore,
     gameOver,
     levelUp,
     powerUp,
+    weaponSwitch,
     collision,
   };
 };
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { CollisionTiming, StepTiming, createBenchmarkState, timeCollisions, timeSteps } from '@/engine/benchmark';
+
+// Dev-only page - stress-tests the simulation with hundreds of bullets on screen
+
+const BULLET_COUNTS = [100, 300, 600, 1000];
+const ENEMIES_PER_KIND = 6;
+const STEP_TICKS = 120;
+const COLLISION_PASSES = 50;
+
+interface BenchmarkResult {
+  bullets: number;
+  steps: StepTiming;
+  collisions: CollisionTiming;
+}
+
+const Benchmark = () => {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const run = () => {
+    setRunning(true);
+    // Let the button repaint before the main thread is tied up
+    setTimeout(() => {
+      setResults(BULLET_COUNTS.map(bullets => {
+        const scenario = createBenchmarkState({ bullets, enemiesPerKind: ENEMIES_PER_KIND });
+        return {
+          bullets,
+          steps: timeSteps(scenario, STEP_TICKS),
+          collisions: timeCollisions(scenario, COLLISION_PASSES),
+        };
+      }));
+      setRunning(false);
+    }, 50);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8 flex-wrap gap-4">
+          <Link
+            to="/"
+            className="arcade-button inline-flex items-center gap-2 border-neon-cyan text-neon-cyan hover:bg-neon-cyan hover:text-black"
+          >
+            <ArrowLeft size={20} />
+            BACK TO HOME
+          </Link>
+          <button onClick={run} disabled={running} className="arcade-button border-neon-yellow text-neon-yellow">
+            {running ? 'RUNNING...' : 'RUN BENCHMARK'}
+          </button>
+        </div>
+
+        <div className="pixel-text text-3xl text-neon-yellow mb-2">COLLISION BENCHMARK</div>
+        <div className="pixel-text text-sm text-muted-foreground mb-6">
+          {ENEMIES_PER_KIND} of each enemy kind on screen. Steps: {STEP_TICKS} ticks with the trigger held.
+          Collisions: the grid broadphase against the old all-pairs loops, {COLLISION_PASSES} passes each.
+        </div>
+
+        {results.length > 0 && (
+          <table className="w-full pixel-text text-sm text-foreground border-2 border-neon-cyan">
+            <thead>
+              <tr className="text-neon-cyan text-left">
+                <th className="p-2">BULLETS</th>
+                <th className="p-2">STEP AVG</th>
+                <th className="p-2">STEP WORST</th>
+                <th className="p-2">ALL-PAIRS</th>
+                <th className="p-2">GRID</th>
+                <th className="p-2">SPEEDUP</th>
+                <th className="p-2">PAIR TESTS</th>
+                <th className="p-2">OVERLAPS</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(({ bullets, steps, collisions }) => (
+                <tr key={bullets} className="border-t border-neon-cyan">
+                  <td className="p-2">{bullets}</td>
+                  <td className="p-2">{steps.averageMs.toFixed(2)} ms</td>
+                  <td className="p-2">{steps.worstMs.toFixed(2)} ms</td>
+                  <td className="p-2">{collisions.allPairsMs.toFixed(3)} ms</td>
+                  <td className="p-2">{collisions.gridMs.toFixed(3)} ms</td>
+                  <td className="p-2 text-neon-green">{(collisions.allPairsMs / collisions.gridMs).toFixed(1)}x</td>
+                  <td className="p-2">{collisions.allPairsTests.toLocaleString()}</td>
+                  <td className="p-2">{collisions.overlaps}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Benchmark;
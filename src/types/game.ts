@@ -18,6 +18,13 @@ export interface Spaceship extends GameObject {
   bombs: number;
 }
 
+// Where the ship is in a life: flying, blown up and waiting to come back, or flying back in
+export interface ShipStatus {
+  phase: 'alive' | 'dead' | 'flyingIn';
+  phaseStart: number; // When the current phase began
+  invulnerableUntil: number; // Nothing hurts the ship before this - set on respawn
+}
+
 export interface Rocket extends GameObject {
   launchTime: number;
   explosionRadius: number;
@@ -26,11 +33,38 @@ export interface Rocket extends GameObject {
 
 export type WeaponType = 'normal' | 'spread' | 'laser' | 'missile';
 
-export interface Projectile extends GameObject {
+// The weapons picked up as power-ups. The blaster is always there and never changes
+export type UpgradeableWeapon = Exclude<WeaponType, 'normal'>;
+
+// The ship's guns. Each pickup of a weapon raises its level; 0 means it hasn't been picked up yet
+export interface WeaponLoadout {
+  levels: Record<UpgradeableWeapon, number>;
+  selected: WeaponType;
+}
+
+// Objects kept in a Pool - the id is numeric and unique within the pool
+export interface Pooled {
+  id: number;
+}
+
+// Reusable objects of one kind. Live ones sit in `items` in spawn order; released ones are recycled
+// for later spawns. Spawning at the cap recycles the oldest live item
+export interface Pool<T extends Pooled> {
+  items: T[];
+  cap: number;
+  nextId: number;
+}
+
+export interface Projectile extends Omit<GameObject, 'id'>, Pooled {
   damage: number;
-  type: 'bullet' | 'bomb' | 'laser' | 'fireball' | 'fire' | 'spread' | 'player_laser' | 'missile';
+  type: 'bullet' | 'bomb' | 'laser' | 'fireball' | 'fire' | 'spread' | 'player_laser' | 'missile' | 'charge';
+  homing?: number; // How hard it turns towards the nearest enemy each tick - 0 or missing flies straight
+  pierced?: string[] | null; // What a piercing shot has already gone through - null for shots a hit uses up
 }
 
+// What a projectile spawns from - the pool supplies the object and its id
+export type ProjectileSpec = Omit<Projectile, 'id' | 'active'>;
+
 export interface TerrainPoint {
   x: number;
   y: number;
@@ -42,39 +76,60 @@ export interface TerrainLayers {
   foreground: TerrainPoint[];
 }
 
-export interface ExplosionParticle {
+export interface ExplosionParticle extends Pooled {
   position: Vector2;
   velocity: Vector2;
   size: number;
   color: string;
   life: number;
+  mega: boolean; // Thrown by a mega explosion - drawn with a glow
+  startTime: number; // Goes with the explosion that threw it
 }
 
 export interface Explosion {
   id: string;
   position: Vector2;
   startTime: number;
-  particles: ExplosionParticle[];
   isMegaExplosion?: boolean; // Special flag for boss death explosions
 }
 
+// One leg of a scripted flight path, in screen space. Legs run back to back
+export type Maneuver =
+  | { kind: 'bezier'; duration: number; controls: [Vector2, Vector2, Vector2] } // Cubic curve, relative to where the leg starts
+  | { kind: 'sine'; duration: number; velocity: Vector2; amplitude: number; period: number } // px/s, weaving up and down
+  | { kind: 'orbit'; duration: number; center: Vector2; turns: number } // Circles the formation center
+  | { kind: 'swoopIn'; duration: number; to: Vector2; bulge: number } // Eased arc to the formation center
+  | { kind: 'hold'; duration: number };
+
+// An enemy following a flight path - its own movement takes over again once the path runs out
+export interface Flight {
+  maneuvers: Maneuver[];
+  leg: number; // Current maneuver
+  elapsed: number; // ms into the current leg, on the slowed-down clock
+  from: Vector2 | null; // Screen position the leg started from - taken on the first tick
+  offset: Vector2; // Place in the formation, from its center
+}
+
 export interface Saucer extends GameObject {
   targetY: number;
   driftSpeed: number;
   lastFireTime: number;
   fireRate: number;
+  flight?: Flight;
 }
 
 export interface Alien extends GameObject {
   lastFireTime: number;
   fireRate: number;
   health: number;
+  maxHealth: number;
 }
 
 export interface CrawlingAlien extends GameObject {
   lastFireTime: number;
   fireRate: number;
   health: number;
+  maxHealth: number;
   targetX: number;
   moveSpeed: number;
 }
@@ -84,40 +139,65 @@ export interface BossRocket extends GameObject {
   fireRate: number;
   health: number;
   maxHealth: number;
+  flight?: Flight;
 }
 
 export interface DiveBomber extends GameObject {
   lastFireTime: number;
   fireRate: number;
   health: number;
+  maxHealth: number;
   phase: 'approach' | 'dive' | 'retreat';
   diveStartY: number;
   diveTargetY: number;
+  flight?: Flight;
 }
 
 export interface ZigzagFighter extends GameObject {
   lastFireTime: number;
   fireRate: number;
   health: number;
+  maxHealth: number;
   zigzagPhase: number;
   zigzagAmplitude: number;
   zigzagSpeed: number;
+  flight?: Flight;
 }
 
 export interface Splitter extends GameObject {
   lastFireTime: number;
   fireRate: number;
   health: number;
+  maxHealth: number;
   generation: number; // 0 = large, 1 = medium, 2 = small (no more splits)
+  flight?: Flight;
+}
+
+export type BossAttackKind = 'fireballs' | 'spiral' | 'wave' | 'spread' | 'missiles' | 'burst' | 'tentacleLash';
+
+export type BossPartKind = 'tentacle' | 'turret';
+
+// Hitbox that can be shot off the boss - the core itself is the boss's own health
+export interface BossPart {
+  kind: BossPartKind;
+  anchor: Vector2; // Resting hitbox center, relative to the boss center
+  offset: Vector2; // Current hitbox center - tentacles sway around their anchor
+  size: Vector2;
+  health: number; // Destroyed at 0
+  maxHealth: number;
 }
 
 export interface Boss extends GameObject {
   lastFireTime: number;
   fireRate: number;
-  health: number;
+  health: number; // Core health - only hits on the core wear it down
   maxHealth: number;
-  tentacles: Array<{ angle: number; length: number }>;
-  bossType: number; // 0-5 for different boss variants
+  parts: BossPart[]; // Same order as the script's parts
+  bossType: number; // Index into BOSS_SCRIPTS
+  phase: number; // Index into the script's phases
+  invulnerableUntil: number; // Shrugs off hits while switching phase
+  attackIndex: number; // Next attack in the phase's rotation
+  telegraph: { attack: BossAttackKind; firesAt: number } | null; // Wind-up of the attack about to fire
 }
 
 export interface Tree {
@@ -132,12 +212,22 @@ export interface PowerUp extends GameObject {
   expiresAt?: number; // Timestamp when the power-up effect expires (for active effects)
 }
 
+// Power-ups that run on a timer - the weapons upgrade the loadout instead
 export interface ActivePowerUp {
-  type: 'speed' | 'fireRate' | 'shield' | 'spread' | 'laser' | 'missile';
+  type: 'speed' | 'fireRate' | 'shield';
   expiresAt: number;
 }
 
-export interface TrailParticle {
+// The shield power-up's barrier. Hits come off `points` before the hull until it breaks; a broken
+// shield absorbs nothing until it has recharged all the way
+export interface Shield {
+  points: number;
+  maxPoints: number;
+  broken: boolean;
+  lastHitAt: number | null; // Recharging waits a while after the last hit
+}
+
+export interface TrailParticle extends Pooled {
   x: number;
   y: number;
   size: number;
@@ -163,8 +253,15 @@ export interface ScreenZoom {
   scale: number; // Target zoom scale (e.g., 1.1 for 10% zoom)
   startTime: number;
   duration: number;
-  centerX: number; // Zoom focus point X
-  centerY: number; // Zoom focus point Y
+  centerX: number; // Zoom focus point X (world)
+  centerY: number; // Zoom focus point Y (world)
+}
+
+// The view onto the world - every entity is in world space, the camera maps it to the screen
+export interface Camera {
+  x: number; // World x of the screen's left edge
+  shake: ScreenShake | null;
+  zoom: ScreenZoom | null;
 }
 
 export interface SlowMotion {
@@ -180,26 +277,45 @@ export interface ComboState {
   comboTimeout: number; // ms before combo resets
 }
 
-export interface ScorePopup {
-  id: string;
+export interface ScorePopup extends Pooled {
   position: Vector2;
   score: number;
   startTime: number;
   duration: number;
 }
 
+export type GameMode = 'endless' | 'campaign';
+
+export type TerrainTheme = 'nebula' | 'desert' | 'glacier' | 'inferno';
+
+// Progress through a campaign stage's timeline
+export interface StageState {
+  index: number; // Into STAGES
+  nextSpawn: number; // Next entry of the stage's spawn schedule
+  midBoss: 'waiting' | 'active' | 'defeated';
+  endBoss: 'waiting' | 'active' | 'defeated';
+  kills: number;
+  clearedAt: number | null; // When the end boss went down
+  complete: boolean; // Outro over - the run stops on the results card
+}
+
 export interface GameState {
   isPlaying: boolean;
   isPaused: boolean;
   gameOver: boolean;
+  mode: GameMode;
+  stage: StageState | null; // Campaign runs only
   level: number;
+  startLevel: number; // Level the run was started on from the menu - score levels up from there
   score: number;
   lives: number;
-  scrollOffset: number;
+  camera: Camera;
   startTime: number;
   spaceship: Spaceship;
+  shipStatus: ShipStatus;
+  lastScrapeAt: number | null; // Last tick of scraping along the ground that counted for damage - null while clear of it
   rockets: Rocket[];
-  projectiles: Projectile[];
+  projectiles: Pool<Projectile>;
   saucers: Saucer[];
   aliens: Alien[];
   crawlingAliens: CrawlingAlien[];
@@ -210,16 +326,27 @@ export interface GameState {
   boss: Boss | null;
   terrain: TerrainLayers;
   explosions: Explosion[];
+  explosionParticles: Pool<ExplosionParticle>;
   trees: Tree[];
   powerUps: PowerUp[];
   activePowerUps: ActivePowerUp[];
-  trailParticles: TrailParticle[];
-  screenShake: ScreenShake | null;
+  weapons: WeaponLoadout;
+  shield: Shield | null; // Up while the shield power-up lasts
+  trailParticles: Pool<TrailParticle>;
   screenFlash: ScreenFlash | null;
-  screenZoom: ScreenZoom | null;
   slowMotion: SlowMotion | null;
   combo: ComboState;
-  scorePopups: ScorePopup[];
+  scorePopups: Pool<ScorePopup>;
+  tick: number; // Simulation ticks run so far
+  time: number; // Simulation clock (ms) - every timestamp in the state is measured on it
+  seed: number; // Run seed - drives terrain and, through rngState, every random roll
+  rngState: number;
+  difficulty: Difficulty;
+  spawnTimers: SpawnTimers;
+  coordination: EnemyCoordination;
+  trigger: TriggerState;
+  pendingProjectiles: PendingProjectile[];
+  nextId: number; // Counter behind every generated object id - pooled objects count their own
 }
 
 export type Difficulty = 'easy' | 'normal' | 'hard';
@@ -229,6 +356,7 @@ export interface DifficultySettings {
   healthMultiplier: number; // Higher = more player health (easier)
   damageMultiplier: number; // Higher = more damage to player (harder)
   scoreMultiplier: number; // Bonus/penalty for difficulty
+  bossHealthMultiplier: number; // Higher = tougher mega bosses (harder)
 }
 
 export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultySettings> = {
@@ -237,18 +365,21 @@ export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultySettings> = {
     healthMultiplier: 1.5,
     damageMultiplier: 0.7,
     scoreMultiplier: 0.75,
+    bossHealthMultiplier: 0.75,
   },
   normal: {
     spawnRateMultiplier: 1.0,
     healthMultiplier: 1.0,
     damageMultiplier: 1.0,
     scoreMultiplier: 1.0,
+    bossHealthMultiplier: 1.0,
   },
   hard: {
     spawnRateMultiplier: 1.5,
     healthMultiplier: 0.7,
     damageMultiplier: 1.5,
     scoreMultiplier: 1.5,
+    bossHealthMultiplier: 1.4,
   },
 };
 
@@ -260,20 +391,152 @@ export interface GameSettings {
   bulletSpeed: number;
   rocketLaunchFrequency: number;
   rocketSpeed: number;
+  poolCaps: PoolCaps;
+  respawn: RespawnSettings;
 }
 
+// The death sequence, in milliseconds
+export interface RespawnSettings {
+  deathDelay: number; // Explosion to fly-in - or to game over on the last life
+  flyInDuration: number;
+  invulnerability: number; // After the fly-in
+}
+
+// Most live objects each pool holds - past that, new ones recycle the oldest
+export interface PoolCaps {
+  projectiles: number;
+  trailParticles: number;
+  explosionParticles: number;
+  scorePopups: number;
+}
+
+export type GameAction = 'moveUp' | 'moveDown' | 'moveLeft' | 'moveRight' | 'fire' | 'bomb' | 'cycleWeapon' | 'pause';
+
+// KeyboardEvent.code values per action - each action has a primary and an optional alternate key
+export type KeyBindings = Record<GameAction, string[]>;
+
+export type KeyBindingPreset = 'classic' | 'wasd' | 'arrows';
+
+export const KEY_BINDING_PRESETS: Record<KeyBindingPreset, KeyBindings> = {
+  classic: {
+    moveUp: ['ArrowUp', 'KeyW'],
+    moveDown: ['ArrowDown', 'KeyS'],
+    moveLeft: ['ArrowLeft', 'KeyA'],
+    moveRight: ['ArrowRight', 'KeyD'],
+    fire: ['Space'],
+    bomb: ['KeyB'],
+    cycleWeapon: ['KeyQ'],
+    pause: ['KeyP', 'Escape'],
+  },
+  wasd: {
+    moveUp: ['KeyW'],
+    moveDown: ['KeyS'],
+    moveLeft: ['KeyA'],
+    moveRight: ['KeyD'],
+    fire: ['KeyJ', 'Space'],
+    bomb: ['KeyK'],
+    cycleWeapon: ['KeyL'],
+    pause: ['KeyP', 'Escape'],
+  },
+  arrows: {
+    moveUp: ['ArrowUp'],
+    moveDown: ['ArrowDown'],
+    moveLeft: ['ArrowLeft'],
+    moveRight: ['ArrowRight'],
+    fire: ['KeyZ', 'Space'],
+    bomb: ['KeyX'],
+    cycleWeapon: ['KeyC'],
+    pause: ['KeyP', 'Escape'],
+  },
+};
+
+export interface TouchControlSettings {
+  autoFire: boolean;
+  opacity: number; // 0-1
+  scale: number; // Size multiplier for the joystick and buttons
+}
+
+export const DEFAULT_TOUCH_CONTROLS: TouchControlSettings = {
+  autoFire: false,
+  opacity: 0.6,
+  scale: 1,
+};
+
 export interface LeaderboardEntry {
   name: string;
   score: number;
   level: number;
   date: string;
   country?: string; // ISO country code (e.g., 'US', 'GB', 'JP')
+  replayId?: string; // Recorded run, if it was played from the start
+  startLevel?: number; // Only set for runs started above level 1
+}
+
+// Campaign stages unlock in order - clearing one opens the next
+export interface CampaignProgress {
+  stagesCleared: number;
+  bestScores: Record<number, number>; // By stage index
 }
 
+// A recorded run: seed and difficulty recreate the start, inputs replay every tick after it
+export interface Replay {
+  id: string;
+  seed: number;
+  difficulty: Difficulty;
+  startLevel: number;
+  stage?: number; // Campaign stage index - endless runs have none
+  inputs: number[]; // One packed SimInput per tick (see engine/replay)
+  score: number;
+  level: number;
+  date: string;
+}
+
+// Timestamps of the last spawn per enemy type
+export interface SpawnTimers {
+  lastRocketLaunch: number;
+  lastSaucerSpawn: number;
+  lastAlienSpawn: number;
+  lastCrawlingAlienSpawn: number;
+  lastBossSpawn: number;
+  lastDiveBomberSpawn: number;
+  lastZigzagFighterSpawn: number;
+  lastSplitterSpawn: number;
+  lastMegaBossInterval: number; // Index of the last 30s interval a mega boss spawned for
+}
+
+export interface EnemyCoordination {
+  lastAttackTime: number;
+  attackerPosition: { x: number; y: number } | null;
+  supportWindow: number;
+  aggroLevel: number;
+}
+
+// Fire/bomb button latches, so held buttons behave like keyboard auto-repeat
+export interface TriggerState {
+  fireHeldSince: number | null;
+  lastShotTime: number;
+  charge: number; // How full the charged blast is, 0 to 1 - builds while fire is held
+  bombHeld: boolean;
+  cycleHeld: boolean;
+}
+
+// Shot queued by a burst-firing enemy, released once the clock reaches fireAt
+export interface PendingProjectile {
+  fireAt: number;
+  projectile: ProjectileSpec;
+}
+
+export const GAME_VERSION = '1.2.0';
+
+export const SAVE_DATA_VERSION = 8;
+
 export interface SaveData {
+  version?: number; // Missing on v1 saves, which only stored level/score/lives
   level: number;
   score: number;
   lives: number;
   settings: GameSettings;
   timestamp: string;
+  difficulty?: Difficulty;
+  state?: GameState; // Full engine snapshot - only resumable from v8 on (older ones lack the sim clock, RNG state, boss phases/parts, the camera or pools)
 }
\ No newline at end of file